@@ -0,0 +1,72 @@
+// Builds src/data/world-cities.json from the `city-timezones` package (Natural Earth
+// populated places). Run with `npm run generate:cities` after upgrading the package.
+//
+// Rows are compact tuples — see WorldCityRow in src/data/worldCities.ts for the layout.
+
+import { writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import tzlookup from "tz-lookup";
+
+const require = createRequire(import.meta.url);
+const { cityMapping } = require("city-timezones");
+
+// Natural Earth marks a few partially recognised states with "-99"
+const ISO_FALLBACK = { KOS: "XK", SOL: "SO" };
+
+function slug(text) {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+const rows = [];
+const ids = new Set();
+
+for (const place of cityMapping) {
+  const cc = typeof place.iso2 === "string" && place.iso2 !== "-99" ? place.iso2 : ISO_FALLBACK[place.iso3];
+  if (!cc) continue;
+
+  let tz = place.timezone;
+  if (!tz) {
+    try {
+      tz = tzlookup(place.lat, place.lng);
+    } catch {
+      continue;
+    }
+  }
+
+  // Name + country + region keeps the two Portlands apart; a counter covers the rest
+  const base = [slug(place.city_ascii || place.city), cc.toLowerCase(), slug(place.province ?? "")]
+    .filter(Boolean)
+    .join("-");
+  let id = base;
+  for (let n = 2; ids.has(id); n++) id = `${base}-${n}`;
+  ids.add(id);
+
+  const row = [
+    id,
+    place.city,
+    place.province ?? "",
+    cc,
+    Math.round(place.lat * 1e4) / 1e4,
+    Math.round(place.lng * 1e4) / 1e4,
+    tz,
+    Math.round(place.pop),
+  ];
+  if (place.city_ascii && place.city_ascii !== place.city) row.push(place.city_ascii);
+  rows.push(row);
+}
+
+const countries = {};
+for (const place of cityMapping) {
+  const cc = typeof place.iso2 === "string" && place.iso2 !== "-99" ? place.iso2 : ISO_FALLBACK[place.iso3];
+  if (cc && !countries[cc]) countries[cc] = place.country;
+}
+
+rows.sort((a, b) => b[7] - a[7]);
+const out = new URL("../src/data/world-cities.json", import.meta.url);
+writeFileSync(out, JSON.stringify({ countries, cities: rows }));
+console.log(`Wrote ${rows.length} cities to ${out.pathname}`);
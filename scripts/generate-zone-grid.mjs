@@ -0,0 +1,49 @@
+// Builds src/data/zone-grid.json, the map's timezone layer, by sampling tz-lookup on a
+// 1° lat/lon grid. Run with `npm run generate:zones` after upgrading tz-lookup.
+//
+// Rows are compact tuples — see ZoneGridData in src/lib/zoneGrid.ts for the layout.
+
+import { writeFileSync } from "node:fs";
+import tzlookup from "tz-lookup";
+
+const STEP = 1;
+
+const zones = [];
+const zoneIndex = new Map();
+const runs = [];
+
+function indexOf(tz) {
+  if (!zoneIndex.has(tz)) {
+    zoneIndex.set(tz, zones.length);
+    zones.push(tz);
+  }
+  return zoneIndex.get(tz);
+}
+
+// Adjacent cells of a row that resolve to the same zone merge into one run. Ocean cells
+// (Etc/GMT±N nautical zones) are skipped.
+for (let south = -90; south < 90; south += STEP) {
+  const lat = south + STEP / 2;
+  let current = null;
+  for (let west = -180; west < 180; west += STEP) {
+    const east = west + STEP;
+    let tz = null;
+    try {
+      tz = tzlookup(lat, west + STEP / 2);
+    } catch {
+      tz = null;
+    }
+    if (tz?.startsWith("Etc/")) tz = null;
+    if (current && current.tz === tz) {
+      current.east = east;
+      continue;
+    }
+    if (current) runs.push([indexOf(current.tz), south, current.west, current.east]);
+    current = tz ? { tz, west, east } : null;
+  }
+  if (current) runs.push([indexOf(current.tz), south, current.west, current.east]);
+}
+
+const out = new URL("../src/data/zone-grid.json", import.meta.url);
+writeFileSync(out, JSON.stringify({ step: STEP, zones, runs }));
+console.log(`Wrote ${runs.length} runs across ${zones.length} zones to ${out.pathname}`);
@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { DateTime } from "luxon";
+import { CITIES } from "@/data/cities";
+import { searchCities } from "@/lib/search";
+import { cityJson } from "@/lib/convert";
+import { formatOffset } from "@/lib/utils";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/*
+ * GET /api/cities?q=sao paulo&limit=5
+ *
+ * Searches the curated catalogue the way the explorer's search box does — accents,
+ * alternate names, airport codes and small typos — and returns each match's zone and
+ * its current offset.
+ */
+export function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const query = params.get("q")?.trim() ?? "";
+  if (!query) {
+    return NextResponse.json({ error: "Pass a city name, alternate name or airport code as ?q=" }, { status: 400 });
+  }
+
+  const limitParam = params.get("limit");
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: `limit must be a whole number from 1 to ${MAX_LIMIT}` }, { status: 400 });
+  }
+
+  const now = Date.now();
+  return NextResponse.json({
+    query,
+    results: searchCities(query, CITIES, limit).map(({ city }) => {
+      const local = DateTime.fromMillis(now).setZone(city.tz);
+      return {
+        ...cityJson(city),
+        offset: formatOffset(local.offset),
+        abbreviation: local.offsetNameShort ?? "",
+        time: local.toFormat("HH:mm"),
+      };
+    }),
+  });
+}
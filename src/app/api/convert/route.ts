@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { describeZoneTime, parseInstant, resolveZone, type ZoneTarget } from "@/lib/convert";
+
+/*
+ * GET /api/convert?at=2026-11-03T15:00&from=New York&to=Tokyo,London,Asia/Kolkata
+ *
+ * `from` and each of `to` are a city id or name from the curated catalogue, or an IANA
+ * zone. `from` defaults to UTC and `at` to now; a wall-clock `at` is read in `from`.
+ */
+export function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  const fromQuery = params.get("from")?.trim() || "UTC";
+  const toQueries = (params.get("to") ?? "")
+    .split(",")
+    .map((q) => q.trim())
+    .filter(Boolean);
+  if (toQueries.length === 0) {
+    return NextResponse.json({ error: "Pass the cities or zones to convert to as ?to=Tokyo,London" }, { status: 400 });
+  }
+
+  const from = resolveZone(fromQuery);
+  const targets: ZoneTarget[] = [];
+  const unknown = from ? [] : [fromQuery];
+  for (const query of toQueries) {
+    const target = resolveZone(query);
+    if (target) targets.push(target);
+    else unknown.push(query);
+  }
+  if (!from || unknown.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown city or timezone: ${unknown.join(", ")}`, unknown },
+      { status: 404 }
+    );
+  }
+
+  const atParam = params.get("at");
+  const instant = atParam ? parseInstant(atParam, from.tz) : Date.now();
+  if (instant === null) {
+    return NextResponse.json(
+      { error: `“${atParam}” isn't a valid time; use an ISO date-time or epoch milliseconds` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    at: new Date(instant).toISOString(),
+    from: describeZoneTime(from, from.tz, instant),
+    to: targets.map((target) => describeZoneTime(target, from.tz, instant)),
+  });
+}
@@ -0,0 +1,118 @@
+import { ImageResponse } from "next/og";
+import type { NextRequest } from "next/server";
+import { describeShare, type PreviewRow } from "@/lib/sharePreview";
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+// More than this and the cards get too small to read in a chat preview
+const MAX_CARDS = 6;
+
+function diffColor(row: PreviewRow): string {
+  if (row.diffMinutes === 0) return "#22c55e";
+  return row.diffMinutes > 0 ? "#0ea5e9" : "#fb923c";
+}
+
+const ellipsis = {
+  display: "block",
+  overflow: "hidden",
+  whiteSpace: "nowrap",
+  textOverflow: "ellipsis",
+  lineHeight: 1.3,
+} as const;
+
+function Card({ row }: { row: PreviewRow }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: 4,
+        width: 340,
+        padding: "16px 24px",
+        borderRadius: 24,
+        border: "2px solid rgba(255,255,255,0.1)",
+        background: "rgba(255,255,255,0.04)",
+      }}
+    >
+      <div style={{ ...ellipsis, fontSize: 28, fontWeight: 600, color: "#f8fafc" }}>{row.name}</div>
+      <div style={{ ...ellipsis, fontSize: 20, color: "#64748b" }}>{row.country}</div>
+      <div style={{ display: "flex", fontSize: 56, fontWeight: 600, color: "#f8fafc", letterSpacing: -2 }}>
+        {row.time}
+      </div>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 12, fontSize: 22 }}>
+        <span style={{ color: "#94a3b8" }}>{row.day}</span>
+        <span style={{ color: diffColor(row) }}>{row.diff}</span>
+      </div>
+    </div>
+  );
+}
+
+// Preview card for share links: each pinned city's time and its difference from home
+export async function GET(request: NextRequest) {
+  // The raw query, so pins decode exactly as they do in the browser
+  const preview = await describeShare(request.nextUrl.search, Date.now());
+  const all = preview?.rows ?? [];
+  // The last slot says how many didn't fit instead of showing one more city
+  const rows = all.length > MAX_CARDS ? all.slice(0, MAX_CARDS - 1) : all;
+  const hidden = all.length - rows.length;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          width: "100%",
+          height: "100%",
+          padding: 48,
+          gap: 28,
+          background: "#020617",
+          color: "#f8fafc",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "baseline", justifyContent: "space-between" }}>
+          <div style={{ display: "flex", fontSize: 40, fontWeight: 700, color: "#38bdf8" }}>WhenWhere</div>
+          {preview && (
+            <div style={{ display: "flex", fontSize: 26, color: "#94a3b8" }}>
+              {`${preview.live ? "Now" : "Planned"} · home ${preview.homeLabel} ${preview.homeTime}, ${preview.homeDay}`}
+            </div>
+          )}
+        </div>
+
+        {preview ? (
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 24 }}>
+            {rows.map((row, i) => (
+              <Card key={i} row={row} />
+            ))}
+            {hidden > 0 && (
+              <div
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  width: 340,
+                  fontSize: 32,
+                  color: "#64748b",
+                }}
+              >
+                {`+${hidden} more`}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div style={{ display: "flex", flex: 1, alignItems: "center", fontSize: 44, color: "#cbd5e1" }}>
+            See what time it is anywhere, and share it with your team.
+          </div>
+        )}
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      // Live previews go stale by the minute; a planned time never changes
+      headers: {
+        "Cache-Control": preview?.live === false ? "public, max-age=31536000, immutable" : "public, max-age=60",
+      },
+    }
+  );
+}
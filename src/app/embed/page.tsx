@@ -0,0 +1,23 @@
+import type { Metadata } from "next";
+import { EmbedClocks } from "@/components/EmbedClocks";
+import { embedThemeScript, parseEmbedOptions } from "@/lib/embed";
+
+export const metadata: Metadata = {
+  title: "WhenWhere clocks",
+  robots: { index: false },
+};
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+// Chrome-less clocks for iframes — pins come from the same params as the main page
+export default async function Embed({ searchParams }: Props) {
+  const options = parseEmbedOptions(await searchParams);
+  return (
+    <>
+      <script dangerouslySetInnerHTML={{ __html: embedThemeScript(options.theme) }} />
+      <EmbedClocks options={options} />
+    </>
+  );
+}
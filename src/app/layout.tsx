@@ -6,10 +6,10 @@ const geist = Geist({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
   title: "WhenWhere",
-  description: "See what time it is anywhere — hover cities on the map, compare up to 4 side-by-side, and share with your team.",
+  description: "See what time it is anywhere — hover cities on the map, compare as many as you need side-by-side, and share with your team.",
   openGraph: {
     title: "WhenWhere",
-    description: "See what time it is anywhere — hover cities on the map, compare up to 4 side-by-side, and share with your team.",
+    description: "See what time it is anywhere — hover cities on the map, compare as many as you need side-by-side, and share with your team.",
   },
 };
 
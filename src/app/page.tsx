@@ -1,4 +1,27 @@
+import type { Metadata } from "next";
 import { TimezoneExplorer } from "@/components/TimezoneExplorer";
+import { describeShare, previewDescription, previewTitle, searchFromParams } from "@/lib/sharePreview";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+// Share links get their own title and preview image; the page itself stays client-rendered
+export async function generateMetadata({ searchParams }: Props): Promise<Metadata> {
+  const search = searchFromParams(await searchParams);
+  const preview = await describeShare(search, Date.now());
+  if (!preview) return {};
+
+  const title = `${previewTitle(preview)} · WhenWhere`;
+  const description = previewDescription(preview);
+  const images = [{ url: `/api/og${search}`, width: 1200, height: 630, alt: description }];
+  return {
+    title,
+    description,
+    openGraph: { title, description, images },
+    twitter: { card: "summary_large_image", title, description, images },
+  };
+}
 
 export default function Home() {
   return <TimezoneExplorer />;
@@ -2,25 +2,14 @@
 
 import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Search, X } from "lucide-react";
-import { DateTime } from "luxon";
-import { CITIES, type City } from "@/data/cities";
+import type { City } from "@/data/cities";
 import { cn } from "@/lib/utils";
+import { searchCities } from "@/lib/search";
+import { matchZoneQuery, type ZoneQueryGroup } from "@/lib/zoneQuery";
 
-// Parse queries like "utc+1", "gmt +1", "gmt+5:30", "utc-5", "utc 0", "gmt0"
-function parseOffsetQuery(q: string): number | null {
-  const m = q.match(/^(?:utc|gmt)\s*([+-])?\s*(\d{1,2})(?::(\d{2}))?$/);
-  if (!m) {
-    // Also match bare "utc" or "gmt" as UTC+0
-    if (/^(?:utc|gmt)$/.test(q)) return 0;
-    return null;
-  }
-  const sign = m[1] === "-" ? -1 : 1;
-  const hours = parseInt(m[2], 10);
-  const mins = m[3] ? parseInt(m[3], 10) : 0;
-  return sign * (hours * 60 + mins);
-}
+const RESULT_LIMIT = 12;
 
-type GroupedResults = { country: string; cities: City[] }[];
+type GroupedResults = { label: string; cities: City[] }[];
 
 function groupByCountry(cities: City[]): GroupedResults {
   const map = new Map<string, City[]>();
@@ -32,69 +21,77 @@ function groupByCountry(cities: City[]): GroupedResults {
       map.set(city.country, [city]);
     }
   }
-  return Array.from(map, ([country, cities]) => ({ country, cities }));
+  return Array.from(map, ([country, cities]) => ({ label: country, cities }));
+}
+
+// Share the result limit between a timezone query's readings so every meaning of an
+// ambiguous abbreviation stays visible. A city listed under one reading isn't repeated.
+function capGroups(groups: ZoneQueryGroup[]): GroupedResults {
+  const seen = new Set<string>();
+  const perGroup = Math.max(2, Math.ceil(RESULT_LIMIT / groups.length));
+  const capped: GroupedResults = [];
+  for (const group of groups) {
+    const cities = group.cities.filter((c) => !seen.has(c.id)).slice(0, perGroup);
+    cities.forEach((c) => seen.add(c.id));
+    if (cities.length > 0) capped.push({ label: group.label, cities });
+  }
+  return capped;
 }
 
 type Props = {
   onSelect: (city: City) => void;
   onHighlight: (cities: City[]) => void;
   pinnedCities: City[];
+  /** Catalogue to search — grows once the world dataset has loaded */
+  cities: City[];
+  /** Reference zone for relative queries like "+3h from home" */
+  homeTz: string;
+  /** The field gained focus — the explorer fetches the full city catalogue then */
+  onFocus?: () => void;
 };
 
-export function CitySearch({ onSelect, onHighlight, pinnedCities }: Props) {
+export function CitySearch({ onSelect, onHighlight, pinnedCities, cities, homeTz, onFocus }: Props) {
   const [query, setQuery] = useState("");
+  // When the query last changed — relative readings ("tomorrow", current offsets) use it
+  const [typedAt, setTypedAt] = useState(0);
   const [open, setOpen] = useState(false);
   const [activeIndex, setActiveIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  const { results, grouped, showGroups } = useMemo(() => {
+  const { results, grouped, showGroups, caption } = useMemo(() => {
     const q = query.trim().toLowerCase();
-    if (q.length === 0) return { results: [], grouped: [], showGroups: false };
+    if (q.length === 0) return { results: [], grouped: [], showGroups: false, caption: null };
 
-    // Check if the query is a UTC/GMT offset search
-    const offsetMinutes = parseOffsetQuery(q);
-    if (offsetMinutes !== null) {
-      const now = Date.now();
-      const matched = CITIES.filter((c) => {
-        try {
-          const offset = DateTime.fromMillis(now).setZone(c.tz).offset;
-          return offset === offsetMinutes;
-        } catch {
-          return false;
-        }
-      }).slice(0, 12);
-      return { results: matched, grouped: groupByCountry(matched), showGroups: true };
+    // UTC offsets, abbreviations, IANA IDs and home-relative offsets
+    const zoneGroups = matchZoneQuery(query, cities, homeTz, typedAt);
+    if (zoneGroups !== null) {
+      // A single reading (e.g. "utc+1") reads best split by country, under a caption
+      const single = zoneGroups.length === 1;
+      const grouped = single
+        ? groupByCountry(zoneGroups[0].cities.slice(0, RESULT_LIMIT))
+        : capGroups(zoneGroups);
+      return {
+        results: grouped.flatMap((g) => g.cities),
+        grouped,
+        showGroups: true,
+        caption: single ? zoneGroups[0].label : null,
+      };
     }
 
-    // Search by city name and country name
-    const cityMatches: City[] = [];
-    const countryMatches: City[] = [];
-    const seen = new Set<string>();
-
-    for (const c of CITIES) {
-      if (c.name.toLowerCase().includes(q)) {
-        cityMatches.push(c);
-        seen.add(c.name);
-      }
-    }
-
-    for (const c of CITIES) {
-      if (!seen.has(c.name) && c.country.toLowerCase().includes(q)) {
-        countryMatches.push(c);
-      }
-    }
-
-    const combined = [...cityMatches, ...countryMatches].slice(0, 12);
-    const hasCountryMatches = countryMatches.length > 0;
+    // Ranked search over names, alternate names, airport codes and countries
+    const ranked = searchCities(q, cities, RESULT_LIMIT);
+    const combined = ranked.map((r) => r.city);
+    const hasCountryMatches = ranked.some((r) => r.byCountry);
     const multipleCountries = new Set(combined.map((c) => c.country)).size > 1;
 
     return {
       results: combined,
       grouped: groupByCountry(combined),
       showGroups: hasCountryMatches || multipleCountries,
+      caption: null,
     };
-  }, [query]);
+  }, [query, cities, homeTz, typedAt]);
 
   // Flatten grouped results for keyboard navigation
   const flatResults = useMemo(() => {
@@ -127,7 +124,7 @@ export function CitySearch({ onSelect, onHighlight, pinnedCities }: Props) {
   const handleSelect = useCallback(
     (city: City) => {
       // Only add — don't toggle off an already-pinned city
-      if (!pinnedCities.some((c) => c.name === city.name)) {
+      if (!pinnedCities.some((c) => c.id === city.id)) {
         onSelect(city);
       }
       setOpen(false);
@@ -164,14 +161,18 @@ export function CitySearch({ onSelect, onHighlight, pinnedCities }: Props) {
         <input
           ref={inputRef}
           type="text"
-          placeholder="City, country, or UTC+1..."
+          placeholder="City, airport, PST, UTC+1..."
           value={query}
           onChange={(e) => {
             setQuery(e.target.value);
+            setTypedAt(Date.now());
             setOpen(true);
             setActiveIndex(-1);
           }}
-          onFocus={() => setOpen(true)}
+          onFocus={() => {
+            setOpen(true);
+            onFocus?.();
+          }}
           onKeyDown={handleKeyDown}
           className="bg-transparent text-sm outline-none w-full sm:w-44 dark:text-white text-slate-900 placeholder:text-slate-400"
           aria-label="Search for a city or country"
@@ -196,18 +197,23 @@ export function CitySearch({ onSelect, onHighlight, pinnedCities }: Props) {
           className="absolute top-full mt-1.5 left-0 z-50 w-[calc(100vw-2rem)] sm:w-64 max-h-80 overflow-y-auto rounded-xl border dark:border-white/10 border-slate-200 dark:bg-slate-900 bg-white shadow-xl"
           role="listbox"
         >
+          {caption && (
+            <div className="px-3 pt-2 pb-1 text-xs font-medium dark:text-sky-400 text-sky-600">
+              {caption}
+            </div>
+          )}
           {showGroups
             ? grouped.map((group) => (
-                <div key={group.country}>
+                <div key={group.label}>
                   <div className="px-3 py-1.5 text-[11px] font-medium uppercase tracking-wider dark:text-slate-500 text-slate-400 sticky top-0 dark:bg-slate-900 bg-white">
-                    {group.country}
+                    {group.label}
                   </div>
                   {group.cities.map((city) => {
                     const flatIdx = flatResults.indexOf(city);
-                    const isPinned = pinnedCities.some((c) => c.name === city.name);
+                    const isPinned = pinnedCities.some((c) => c.id === city.id);
                     return (
                       <button
-                        key={city.name}
+                        key={city.id}
                         onClick={() => handleSelect(city)}
                         className={cn(
                           "w-full flex items-center justify-between px-3 py-2 text-sm transition-colors text-left",
@@ -221,7 +227,12 @@ export function CitySearch({ onSelect, onHighlight, pinnedCities }: Props) {
                         role="option"
                         aria-selected={isPinned}
                       >
-                        <span className="pl-2">{city.name}</span>
+                        <span className="pl-2">
+                          {city.name}
+                          {city.admin1 && city.admin1 !== city.name && (
+                            <span className="text-[11px] dark:text-slate-500 text-slate-400"> · {city.admin1}</span>
+                          )}
+                        </span>
                         <span className="text-xs text-slate-400">
                           {isPinned ? "pinned" : "pin"}
                         </span>
@@ -231,10 +242,10 @@ export function CitySearch({ onSelect, onHighlight, pinnedCities }: Props) {
                 </div>
               ))
             : results.map((city, i) => {
-                const isPinned = pinnedCities.some((c) => c.name === city.name);
+                const isPinned = pinnedCities.some((c) => c.id === city.id);
                 return (
                   <button
-                    key={city.name}
+                    key={city.id}
                     onClick={() => handleSelect(city)}
                     className={cn(
                       "w-full flex items-center justify-between px-3 py-2 text-sm transition-colors text-left",
@@ -250,7 +261,9 @@ export function CitySearch({ onSelect, onHighlight, pinnedCities }: Props) {
                   >
                     <div className="flex flex-col">
                       <span>{city.name}</span>
-                      <span className="text-[11px] dark:text-slate-500 text-slate-400">{city.country}</span>
+                      <span className="text-[11px] dark:text-slate-500 text-slate-400">
+                        {city.admin1 && city.admin1 !== city.name ? `${city.admin1}, ${city.country}` : city.country}
+                      </span>
                     </div>
                     <span className="text-xs text-slate-400">
                       {isPinned ? "pinned" : "pin"}
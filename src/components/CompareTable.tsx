@@ -0,0 +1,112 @@
+"use client";
+
+import { X } from "lucide-react";
+import type { City } from "@/data/cities";
+import { cn } from "@/lib/utils";
+import type { Holiday } from "@/lib/holidays";
+import { HolidayBadge } from "./HolidayBadge";
+
+type Row = {
+  city: City;
+  utcOffset: string;
+  diff: string;
+  diffMinutes: number;
+  abbrev: string;
+  displayTime: string;
+  displayDate: string;
+  isDaytime: boolean;
+  isWorkingHours: boolean;
+  holiday: Holiday | null;
+};
+
+type Props = {
+  rows: Row[];
+  onRemove: (city: City) => void;
+};
+
+// Compact one-line-per-city view for large comparisons
+export function CompareTable({ rows, onRemove }: Props) {
+  return (
+    <div
+      className={cn(
+        "rounded-2xl border overflow-x-auto",
+        "dark:border-white/10 border-slate-200",
+        "dark:bg-white/[0.03] bg-white"
+      )}
+    >
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-[11px] uppercase tracking-wider dark:text-slate-500 text-slate-400">
+            <th className="px-3 py-2 font-medium">City</th>
+            <th className="px-3 py-2 font-medium">Local time</th>
+            <th className="px-3 py-2 font-medium hidden sm:table-cell">Date</th>
+            <th className="px-3 py-2 font-medium hidden md:table-cell">Offset</th>
+            <th className="px-3 py-2 font-medium">vs home</th>
+            <th className="px-3 py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((d) => (
+            <tr key={d.city.id} className="border-t dark:border-white/5 border-slate-100">
+              <td className="px-3 py-2">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={cn("text-sm", d.isDaytime ? "opacity-100" : "opacity-60")}
+                    aria-label={d.isDaytime ? "Daytime" : "Nighttime"}
+                  >
+                    {d.isDaytime ? "☀️" : "🌙"}
+                  </span>
+                  <div className="min-w-0">
+                    <div className="font-semibold truncate">
+                      {d.city.name}
+                      {d.city.person && (
+                        <span className="font-normal dark:text-slate-400 text-slate-500"> · {d.city.person}</span>
+                      )}
+                    </div>
+                    <div className="text-[11px] dark:text-slate-500 text-slate-400 truncate">
+                      {d.abbrev} · {d.city.tz}
+                    </div>
+                    {d.holiday && <HolidayBadge holiday={d.holiday} className="mt-0.5" />}
+                  </div>
+                </div>
+              </td>
+              <td className="px-3 py-2">
+                <span className="font-mono font-semibold">{d.displayTime}</span>
+                {d.isWorkingHours && (
+                  <span className="ml-2 text-[11px] text-green-500">working</span>
+                )}
+              </td>
+              <td className="px-3 py-2 hidden sm:table-cell dark:text-slate-400 text-slate-500 text-xs">
+                {d.displayDate}
+              </td>
+              <td className="px-3 py-2 hidden md:table-cell dark:text-slate-400 text-slate-500 text-xs">
+                {d.utcOffset}
+              </td>
+              <td
+                className={cn(
+                  "px-3 py-2 text-xs font-medium whitespace-nowrap",
+                  d.diff === "same time"
+                    ? "text-green-500"
+                    : d.diffMinutes > 0
+                      ? "text-sky-500"
+                      : "text-orange-400"
+                )}
+              >
+                {d.diff === "same time" ? "= home" : d.diff}
+              </td>
+              <td className="px-3 py-2 text-right">
+                <button
+                  onClick={() => onRemove(d.city)}
+                  className="p-0.5 rounded-lg dark:text-slate-500 text-slate-400 dark:hover:text-red-400 hover:text-red-500 dark:hover:bg-white/5 hover:bg-slate-100 transition-colors"
+                  aria-label={`Remove ${d.city.name} from comparison`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useState, useRef, useEffect, useMemo } from "react";
+import { MapPinned, Pencil, Plus, Trash2, UserRound } from "lucide-react";
+import { DateTime } from "luxon";
+import type { City } from "@/data/cities";
+import { cn } from "@/lib/utils";
+import { getAllTimezones } from "@/lib/timezones";
+import {
+  createCustomId,
+  customToCity,
+  validateCustomLocation,
+  type CustomLocation,
+} from "@/lib/customLocations";
+
+type Props = {
+  locations: CustomLocation[];
+  pinnedCities: City[];
+  homeTz: string;
+  instant: number | null;
+  onSave: (location: CustomLocation) => void;
+  onDelete: (id: string) => void;
+  onPin: (city: City) => void;
+};
+
+type Draft = { id: string | null; label: string; person: string; tz: string; coords: string };
+
+function emptyDraft(tz: string): Draft {
+  return { id: null, label: "", person: "", tz, coords: "" };
+}
+
+// "38.72, -9.14" → [38.72, -9.14]; blank means no coordinates
+function parseCoords(text: string): { lat?: number; lon?: number } {
+  if (!text.trim()) return {};
+  const [lat, lon] = text.split(",").map((part) => parseFloat(part.trim()));
+  return { lat, lon };
+}
+
+export function CustomLocations({ locations, pinnedCities, homeTz, instant, onSave, onDelete, onPin }: Props) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const allTzs = useMemo(() => getAllTimezones(), []);
+
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+        setDraft(null);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const candidate = draft && {
+    label: draft.label.trim(),
+    tz: draft.tz.trim(),
+    person: draft.person.trim() || undefined,
+    ...parseCoords(draft.coords),
+  };
+  const error = candidate ? validateCustomLocation(candidate) : null;
+
+  function handleSubmit() {
+    if (!draft || !candidate || error) return;
+    onSave({ ...candidate, id: draft.id ?? createCustomId() });
+    setDraft(null);
+  }
+
+  function startEdit(loc: CustomLocation) {
+    setDraft({
+      id: loc.id,
+      label: loc.label,
+      person: loc.person ?? "",
+      tz: loc.tz,
+      coords: loc.lat !== undefined && loc.lon !== undefined ? `${loc.lat}, ${loc.lon}` : "",
+    });
+  }
+
+  const inputClass =
+    "w-full rounded-lg border px-2 py-1 text-sm bg-transparent outline-none dark:border-white/10 border-slate-200 dark:text-white text-slate-900 placeholder:text-slate-400";
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className={cn(
+          "flex items-center justify-center rounded-xl border p-2 transition-colors",
+          "dark:border-white/10 border-slate-200",
+          "dark:bg-white/5 bg-white",
+          "dark:hover:bg-white/10 hover:bg-slate-50"
+        )}
+        aria-label="My places"
+        aria-expanded={open}
+        title="My places"
+      >
+        <MapPinned className="h-4 w-4 text-slate-400" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full mt-1.5 right-0 z-50 w-80 max-w-[calc(100vw-2rem)] rounded-xl border dark:border-white/10 border-slate-200 dark:bg-slate-900 bg-white shadow-xl">
+          <div className="flex items-center justify-between px-3 py-2 border-b dark:border-white/10 border-slate-100">
+            <span className="text-sm font-medium dark:text-white text-slate-900">My places</span>
+            {!draft && (
+              <button
+                onClick={() => setDraft(emptyDraft(homeTz))}
+                className="flex items-center gap-1 text-xs dark:text-sky-400 text-sky-600 hover:underline"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add place
+              </button>
+            )}
+          </div>
+
+          {draft ? (
+            <div className="p-3 space-y-2">
+              <input
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                placeholder="Label, e.g. Client HQ"
+                className={inputClass}
+                aria-label="Label"
+                autoFocus
+              />
+              <input
+                value={draft.person}
+                onChange={(e) => setDraft({ ...draft, person: e.target.value })}
+                placeholder="Person (optional)"
+                className={inputClass}
+                aria-label="Person"
+              />
+              <input
+                value={draft.tz}
+                onChange={(e) => setDraft({ ...draft, tz: e.target.value })}
+                placeholder="Timezone, e.g. Europe/Lisbon"
+                className={inputClass}
+                aria-label="IANA timezone"
+                list="custom-location-zones"
+              />
+              <datalist id="custom-location-zones">
+                {allTzs.map((tz) => (
+                  <option key={tz} value={tz} />
+                ))}
+              </datalist>
+              <input
+                value={draft.coords}
+                onChange={(e) => setDraft({ ...draft, coords: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSubmit();
+                }}
+                placeholder="Lat, lon (optional)"
+                className={inputClass}
+                aria-label="Coordinates"
+              />
+              {error && draft.label.trim() !== "" && <div className="text-[11px] text-red-400">{error}</div>}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="flex-1 rounded-lg px-2 py-1 text-sm dark:bg-white/5 bg-slate-100 dark:text-slate-300 text-slate-600"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmit}
+                  disabled={Boolean(error)}
+                  className={cn(
+                    "flex-1 rounded-lg px-2 py-1 text-sm font-medium transition-colors",
+                    error
+                      ? "dark:bg-white/5 bg-slate-100 dark:text-slate-600 text-slate-400 cursor-default"
+                      : "bg-sky-500 text-white hover:bg-sky-600"
+                  )}
+                >
+                  {draft.id ? "Save" : "Add"}
+                </button>
+              </div>
+            </div>
+          ) : locations.length === 0 ? (
+            <div className="px-3 py-4 text-sm text-center text-slate-500">
+              Save people and places like “Client HQ” or “Alice (Lisbon)” to search and pin them like cities.
+            </div>
+          ) : (
+            <ul className="max-h-72 overflow-y-auto py-1">
+              {locations.map((loc) => {
+                const isPinned = pinnedCities.some((c) => c.id === loc.id);
+                return (
+                  <li key={loc.id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                    <button
+                      onClick={() => onPin(customToCity(loc))}
+                      className="flex-1 min-w-0 text-left"
+                      aria-label={`${isPinned ? "Unpin" : "Pin"} ${loc.label}`}
+                    >
+                      <div
+                        className={cn(
+                          "truncate",
+                          isPinned ? "dark:text-sky-400 text-sky-600" : "dark:text-slate-200 text-slate-700"
+                        )}
+                      >
+                        {loc.label}
+                      </div>
+                      <div className="flex items-center gap-1 text-[11px] dark:text-slate-500 text-slate-400 truncate">
+                        {loc.person && (
+                          <>
+                            <UserRound className="h-3 w-3" />
+                            {loc.person} ·
+                          </>
+                        )}
+                        {loc.tz}
+                        {instant !== null && ` · ${DateTime.fromMillis(instant).setZone(loc.tz).toFormat("HH:mm")}`}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => startEdit(loc)}
+                      className="p-1 rounded dark:text-slate-500 text-slate-400 dark:hover:text-white hover:text-slate-700"
+                      aria-label={`Edit ${loc.label}`}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => onDelete(loc.id)}
+                      className="p-1 rounded dark:text-slate-500 text-slate-400 dark:hover:text-red-400 hover:text-red-500"
+                      aria-label={`Delete ${loc.label}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DateTime } from "luxon";
+import { CITIES, type City } from "@/data/cities";
+import { loadWorldCities } from "@/data/worldCities";
+import { cn, formatDiff } from "@/lib/utils";
+import { decodeShareState, resolveSharePins } from "@/lib/shareState";
+import type { EmbedOptions } from "@/lib/embed";
+import { AnalogClock } from "./AnalogClock";
+
+type Props = {
+  options: EmbedOptions;
+};
+
+type Clocks = {
+  cities: City[];
+  homeTz: string;
+  /** Fixed instant from the link's `at`, otherwise the clocks run live */
+  at: number | null;
+  problems: string[];
+};
+
+// Read-only clock strip for the /embed route — no map, search or controls
+export function EmbedClocks({ options }: Props) {
+  const [now, setNow] = useState<number | null>(null);
+  const [clocks, setClocks] = useState<Clocks | null>(null);
+
+  // Mount: tick, read the link's pins the same way the explorer does
+  useEffect(() => {
+    const tick = () => setNow(Date.now());
+    const first = setTimeout(tick, 0);
+    const id = setInterval(tick, 1000);
+
+    let browserTz = "Europe/Sarajevo";
+    try {
+      browserTz = Intl.DateTimeFormat().resolvedOptions().timeZone || browserTz;
+    } catch {
+      // fall through to default
+    }
+    const share = decodeShareState(window.location.search, browserTz);
+    const show = (catalogue: City[]) => {
+      const { cities, missing } = resolveSharePins(share.pins, catalogue);
+      const problems = [...share.problems];
+      if (missing.length) {
+        problems.push(`Couldn't find ${missing.map((key) => `“${key}”`).join(", ")} from the link`);
+      }
+      setClocks({ cities, homeTz: share.homeTz ?? browserTz, at: share.at, problems });
+    };
+
+    // Curated cities resolve straight away; ids from the world dataset wait for it to load
+    const needsWorld = resolveSharePins(share.pins, CITIES).missing.length > 0;
+    (needsWorld ? loadWorldCities().catch(() => CITIES) : Promise.resolve(CITIES)).then(show);
+
+    return () => {
+      clearTimeout(first);
+      clearInterval(id);
+    };
+  }, []);
+
+  const instant = clocks?.at ?? now;
+  if (instant === null || clocks === null) return null;
+
+  if (clocks.cities.length === 0) {
+    return (
+      <div className="p-4 text-sm text-center dark:text-slate-400 text-slate-500">
+        {clocks.problems.length > 0
+          ? clocks.problems.join(" · ")
+          : "Add cities with ?compare=tokyo-jp,london-gb to show their clocks here."}
+      </div>
+    );
+  }
+
+  const home = DateTime.fromMillis(instant).setZone(clocks.homeTz);
+  const timeFormat = options.clock === "12h" ? "h:mm a" : "HH:mm";
+  const column = options.layout === "column";
+
+  return (
+    <div
+      className={cn(
+        "p-3 dark:text-white text-slate-900",
+        options.layout === "row" && "flex flex-wrap justify-center gap-4",
+        options.layout === "grid" && "grid gap-4",
+        column && "flex flex-col gap-2"
+      )}
+      style={
+        options.layout === "grid"
+          ? { gridTemplateColumns: `repeat(auto-fill, minmax(${options.size + 48}px, 1fr))` }
+          : undefined
+      }
+    >
+      {clocks.cities.map((city) => {
+        const local = DateTime.fromMillis(instant).setZone(city.tz);
+        const diffMinutes = local.offset - home.offset;
+        return (
+          <div
+            key={city.id}
+            className={cn("flex items-center gap-2", column ? "flex-row" : "flex-col text-center")}
+          >
+            <AnalogClock hour={local.hour} minute={local.minute} second={local.second} size={options.size} />
+            <div className="min-w-0">
+              <div className="text-sm font-semibold truncate">{city.name}</div>
+              <div className={cn("font-mono font-semibold tracking-tight", options.size >= 100 ? "text-lg" : "text-base")}>
+                {local.toFormat(timeFormat)}
+              </div>
+              <div className="text-[11px] dark:text-slate-400 text-slate-500">
+                {local.toFormat("ccc")} · {diffMinutes === 0 ? "= home" : `${formatDiff(diffMinutes)} vs home`}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
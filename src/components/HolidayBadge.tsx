@@ -0,0 +1,25 @@
+import { PartyPopper } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Holiday } from "@/lib/holidays";
+
+type Props = {
+  holiday: Holiday;
+  className?: string;
+};
+
+// Marks a city whose local date is a public holiday
+export function HolidayBadge({ holiday, className }: Props) {
+  return (
+    <span
+      className={cn(
+        "inline-flex max-w-full items-center gap-1 rounded-full px-2 py-0.5 text-[11px] font-medium",
+        "dark:bg-fuchsia-400/10 bg-fuchsia-50 dark:text-fuchsia-300 text-fuchsia-700",
+        className
+      )}
+      title={`Public holiday: ${holiday.name}`}
+    >
+      <PartyPopper className="h-3 w-3 shrink-0" />
+      <span className="truncate">{holiday.name}</span>
+    </span>
+  );
+}
@@ -0,0 +1,284 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { DateTime } from "luxon";
+import { AlertTriangle, CalendarSearch, Eye, Upload, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { flagEvent, parseIcs, type ImportedEvent } from "@/lib/icsImport";
+import { isWorkingTime, type Participant } from "@/lib/workingHours";
+
+// Occurrences listed per recurring event; the rest still count towards its flags
+const SHOWN_OCCURRENCES = 5;
+
+type Props = {
+  homeTz: string;
+  /** Home first, then every pinned city — the same list the meeting finder uses */
+  participants: Participant[];
+  /** Rounded by the caller so flags don't recompute every tick */
+  now: number;
+  onPreview: (at: number) => void;
+  onError: (message: string) => void;
+};
+
+function isCalendarFile(file: File): boolean {
+  return file.type === "text/calendar" || /\.(ics|ical|ifb|icalendar)$/i.test(file.name);
+}
+
+function formatRange(start: number, end: number, zone: string | ImportedEvent["zone"]): string {
+  const s = DateTime.fromMillis(start).setZone(zone);
+  const e = DateTime.fromMillis(end).setZone(zone);
+  const endFormat = e.hasSame(s, "day") ? "HH:mm" : "ccc d LLL HH:mm";
+  return `${s.toFormat("ccc d LLL HH:mm")}–${e.toFormat(endFormat)}`;
+}
+
+// Drop or pick an .ics invite and see each event in home time and every pinned city
+export function IcsImport({ homeTz, participants, now, onPreview, onError }: Props) {
+  const [events, setEvents] = useState<ImportedEvent[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const dragDepth = useRef(0);
+  // Files are parsed against the latest home and clock, without re-binding listeners
+  const latest = useRef({ homeTz, now, onError });
+
+  useEffect(() => {
+    latest.current = { homeTz, now, onError };
+  }, [homeTz, now, onError]);
+
+  async function importFiles(files: File[]) {
+    const { homeTz, now, onError } = latest.current;
+    const calendars = files.filter(isCalendarFile);
+    if (calendars.length === 0) {
+      onError("Drop an .ics calendar file to import it");
+      return;
+    }
+    for (const file of calendars) {
+      let result: ReturnType<typeof parseIcs>;
+      try {
+        result = parseIcs(await file.text(), homeTz, now);
+      } catch {
+        onError(`${file.name}: couldn't read that file`);
+        continue;
+      }
+      if ("error" in result) {
+        onError(`${file.name}: ${result.error}`);
+        continue;
+      }
+      if (result.skipped.length > 0) {
+        const names = result.skipped.map((name) => `“${name}”`).join(", ");
+        onError(`${file.name}: skipped ${names} — the repeat rule never produces a date`);
+      }
+      setEvents((prev) => {
+        const known = new Set(prev.map((e) => e.key));
+        return [...prev, ...result.events.filter((e) => !known.has(e.key))];
+      });
+    }
+  }
+  const importRef = useRef(importFiles);
+  useEffect(() => {
+    importRef.current = importFiles;
+  });
+
+  // Accept drops anywhere on the page
+  useEffect(() => {
+    const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types ?? []).includes("Files");
+    function handleEnter(e: DragEvent) {
+      if (!hasFiles(e)) return;
+      dragDepth.current += 1;
+      setDragging(true);
+    }
+    function handleLeave(e: DragEvent) {
+      if (!hasFiles(e)) return;
+      dragDepth.current = Math.max(0, dragDepth.current - 1);
+      if (dragDepth.current === 0) setDragging(false);
+    }
+    function handleOver(e: DragEvent) {
+      if (hasFiles(e)) e.preventDefault();
+    }
+    function handleDrop(e: DragEvent) {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dragDepth.current = 0;
+      setDragging(false);
+      importRef.current(Array.from(e.dataTransfer?.files ?? []));
+    }
+    window.addEventListener("dragenter", handleEnter);
+    window.addEventListener("dragleave", handleLeave);
+    window.addEventListener("dragover", handleOver);
+    window.addEventListener("drop", handleDrop);
+    return () => {
+      window.removeEventListener("dragenter", handleEnter);
+      window.removeEventListener("dragleave", handleLeave);
+      window.removeEventListener("dragover", handleOver);
+      window.removeEventListener("drop", handleDrop);
+    };
+  }, []);
+
+  const flags = useMemo(
+    () => new Map(events.map((e) => [e.key, flagEvent(e, participants, now)])),
+    [events, participants, now]
+  );
+
+  return (
+    <>
+      {/* Full-page drop target while a file is dragged over the window */}
+      {dragging && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-950/60 backdrop-blur-sm pointer-events-none">
+          <div className="rounded-3xl border-2 border-dashed border-sky-400 px-10 py-8 text-center text-sky-100">
+            <CalendarSearch className="h-8 w-8 mx-auto mb-2" />
+            Drop an .ics invite to see it in every timezone
+          </div>
+        </div>
+      )}
+
+      <div
+        className={cn(
+          "rounded-2xl border p-4 space-y-3",
+          "dark:border-white/10 border-slate-200",
+          "dark:bg-white/[0.03] bg-white"
+        )}
+      >
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-semibold">
+            <CalendarSearch className="h-4 w-4 text-sky-500" />
+            {events.length > 0 ? `Imported invites · ${events.length}` : "Check an invite"}
+          </div>
+          <div className="flex items-center gap-3 text-xs">
+            {events.length > 0 && (
+              <button
+                onClick={() => setEvents([])}
+                className="dark:text-slate-400 text-slate-500 dark:hover:text-red-400 hover:text-red-500 transition-colors"
+              >
+                Clear
+              </button>
+            )}
+            <button
+              onClick={() => fileRef.current?.click()}
+              className="flex items-center gap-1.5 dark:text-slate-400 text-slate-500 dark:hover:text-sky-400 hover:text-sky-500 transition-colors"
+            >
+              <Upload className="h-3.5 w-3.5" />
+              Open .ics
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".ics,text/calendar"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                importFiles(Array.from(e.target.files ?? []));
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+
+        {events.length === 0 ? (
+          <div className="text-xs dark:text-slate-500 text-slate-400">
+            Drop an .ics invite anywhere on the page to see it in home time and every pinned city, with
+            clashes against working hours and clock changes flagged.
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {events.map((event) => {
+              const first = event.occurrences[0];
+              if (!first) return null;
+              const flag = flags.get(event.key);
+              return (
+                <li key={event.key} className="rounded-xl px-3 py-2.5 dark:bg-white/[0.03] bg-slate-50 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">{event.summary}</div>
+                      <div className="text-[11px] dark:text-slate-500 text-slate-400">
+                        {event.allDay
+                          ? `All day · ${DateTime.fromMillis(first.start).setZone(homeTz).toFormat("ccc d LLL yyyy")}`
+                          : `${formatRange(first.start, first.end, event.zone)} · ${event.zoneLabel}`}
+                        {event.recurrence && ` · ${event.recurrence}`}
+                        {event.isPast && " · already over"}
+                        {event.location && ` · ${event.location}`}
+                      </div>
+                      {event.notes.map((note) => (
+                        <div key={note} className="text-[11px] dark:text-slate-500 text-slate-400 italic">
+                          {note}
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {!event.allDay && (
+                        <button
+                          onClick={() => onPreview(first.start)}
+                          className="flex items-center gap-1 rounded-lg border px-2 py-1 text-xs dark:border-white/10 border-slate-200 dark:hover:bg-white/10 hover:bg-slate-100 transition-colors"
+                          aria-label={`Preview ${event.summary}`}
+                        >
+                          <Eye className="h-3.5 w-3.5" />
+                          Preview
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setEvents((prev) => prev.filter((e) => e.key !== event.key))}
+                        className="p-1 rounded-lg dark:text-slate-500 text-slate-400 dark:hover:text-red-400 hover:text-red-500 transition-colors"
+                        aria-label={`Remove ${event.summary}`}
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Local times of the next occurrence */}
+                  {!event.allDay && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-0.5 text-xs">
+                      {participants.map((p, i) => {
+                        const inside = isWorkingTime(DateTime.fromMillis(first.start).setZone(p.tz), p.profile);
+                        return (
+                          <div key={p.key} className="flex justify-between gap-2">
+                            <span className="truncate dark:text-slate-400 text-slate-500">
+                              {p.label}
+                              {i === 0 && " (home)"}
+                            </span>
+                            <span
+                              className={cn(
+                                "font-mono shrink-0",
+                                inside ? "dark:text-slate-200 text-slate-700" : "dark:text-amber-300 text-amber-600"
+                              )}
+                            >
+                              {formatRange(first.start, first.end, p.tz)}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {/* Later occurrences, in home time */}
+                  {event.occurrences.length > 1 && (
+                    <div className="text-[11px] dark:text-slate-500 text-slate-400">
+                      Next in home time:{" "}
+                      {event.occurrences
+                        .slice(1, SHOWN_OCCURRENCES)
+                        .map((o) => formatRange(o.start, o.end, homeTz))
+                        .join(" · ")}
+                      {event.occurrences.length > SHOWN_OCCURRENCES && " …"}
+                    </div>
+                  )}
+
+                  {flag && (flag.outsideHours.length > 0 || flag.dstNotes.length > 0) && (
+                    <div className="flex items-start gap-2 text-xs dark:text-amber-200 text-amber-700">
+                      <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                      <ul className="space-y-0.5">
+                        {flag.outsideHours.length > 0 && (
+                          <li>Outside working hours for {flag.outsideHours.join(", ")}</li>
+                        )}
+                        {flag.dstNotes.map((note) => (
+                          <li key={note}>{note}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { CalendarPlus, Download } from "lucide-react";
+import { DateTime } from "luxon";
+import type { City } from "@/data/cities";
+import { cn } from "@/lib/utils";
+import { buildIcs, REPEAT_LABELS, type Repeat } from "@/lib/ics";
+
+const DURATIONS = [15, 30, 45, 60, 90, 120];
+
+type Props = {
+  /** Start of the meeting — the scrubbed or selected slot, else now */
+  instant: number;
+  homeTz: string;
+  homeLabel: string;
+  pinnedCities: City[];
+  /** Live clock, stamped on the invite as its creation time */
+  now: number;
+};
+
+function fileName(title: string, start: DateTime): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "meeting";
+  return `${slug}-${start.toFormat("yyyy-MM-dd-HHmm")}.ics`;
+}
+
+// Turns the moment on screen into a calendar invite (.ics) in the home timezone
+export function InviteExport({ instant, homeTz, homeLabel, pinnedCities, now }: Props) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState("Meeting");
+  const [duration, setDuration] = useState(60);
+  const [repeat, setRepeat] = useState<Repeat>("none");
+  const [count, setCount] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const start = DateTime.fromMillis(instant).setZone(homeTz).startOf("minute");
+  const occurrences = parseInt(count, 10);
+
+  function handleDownload() {
+    const ics = buildIcs({
+      title: title.trim() || "Meeting",
+      start: start.toMillis(),
+      durationMinutes: duration,
+      homeTz,
+      homeLabel,
+      cities: pinnedCities,
+      repeat,
+      count: occurrences > 0 ? occurrences : undefined,
+      now,
+    });
+    const blob = new Blob([ics], { type: "text/calendar;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName(title, start);
+    a.click();
+    URL.revokeObjectURL(url);
+    setOpen(false);
+  }
+
+  const fieldClass = cn(
+    "w-full rounded-lg border px-2 py-1 text-sm bg-transparent outline-none",
+    "dark:border-white/10 border-slate-200 dark:text-white text-slate-900 dark:[color-scheme:dark]"
+  );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="flex items-center gap-1.5 text-xs dark:text-slate-400 text-slate-500 dark:hover:text-sky-400 hover:text-sky-500 transition-colors"
+        aria-label="Export a calendar invite"
+        aria-expanded={open}
+      >
+        <CalendarPlus className="h-3.5 w-3.5" />
+        Invite
+      </button>
+
+      {open && (
+        <div className="absolute top-full mt-1.5 right-0 z-50 w-72 max-w-[calc(100vw-2rem)] rounded-xl border dark:border-white/10 border-slate-200 dark:bg-slate-900 bg-white shadow-xl p-3 space-y-2">
+          <div className="text-xs dark:text-slate-400 text-slate-500">
+            Starts <span className="font-medium dark:text-white text-slate-900">{start.toFormat("ccc d LLL, HH:mm")}</span>{" "}
+            {homeLabel} time
+          </div>
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Title"
+            className={fieldClass}
+            aria-label="Event title"
+          />
+          <div className="flex gap-2">
+            <select
+              value={duration}
+              onChange={(e) => setDuration(Number(e.target.value))}
+              className={fieldClass}
+              aria-label="Duration"
+            >
+              {DURATIONS.map((d) => (
+                <option key={d} value={d}>{d} min</option>
+              ))}
+            </select>
+            <select
+              value={repeat}
+              onChange={(e) => setRepeat(e.target.value as Repeat)}
+              className={fieldClass}
+              aria-label="Repeat"
+            >
+              {(Object.keys(REPEAT_LABELS) as Repeat[]).map((r) => (
+                <option key={r} value={r}>{REPEAT_LABELS[r]}</option>
+              ))}
+            </select>
+          </div>
+          {repeat !== "none" && (
+            <input
+              value={count}
+              onChange={(e) => setCount(e.target.value.replace(/\D/g, ""))}
+              inputMode="numeric"
+              placeholder="Number of meetings (blank = no end)"
+              className={fieldClass}
+              aria-label="Number of occurrences"
+            />
+          )}
+          <div className="text-[11px] dark:text-slate-500 text-slate-400">
+            The description lists the local time for {pinnedCities.length === 1 ? "the pinned city" : `all ${pinnedCities.length} pinned cities`}.
+          </div>
+          <button
+            onClick={handleDownload}
+            className="w-full flex items-center justify-center gap-1.5 rounded-lg px-2 py-1.5 text-sm font-medium bg-sky-500 text-white hover:bg-sky-600 transition-colors"
+          >
+            <Download className="h-4 w-4" />
+            Download .ics
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { DateTime } from "luxon";
+import { MapPin, X } from "lucide-react";
+import type { City } from "@/data/cities";
+import { cn, formatOffset } from "@/lib/utils";
+
+type Props = {
+  location: City;
+  x: number;
+  y: number;
+  instant: number;
+  onPin: (city: City) => void;
+  /** Keep the location as a custom place rather than a one-off pin */
+  onSave: (city: City) => void;
+  /** Offset band the click landed in, when the timezone layer is on */
+  zoneOffset?: number | null;
+  /** Pin a city sharing `zoneOffset` instead of this exact spot */
+  onPinOffset?: (offset: number) => void;
+  onClose: () => void;
+};
+
+export function LocationPopover({
+  location,
+  x,
+  y,
+  instant,
+  onPin,
+  onSave,
+  zoneOffset = null,
+  onPinOffset,
+  onClose,
+}: Props) {
+  const [name, setName] = useState(location.name);
+  const zoneTime = DateTime.fromMillis(instant).setZone(location.tz);
+  const trimmed = name.trim();
+  const canPin = trimmed !== "";
+
+  function handlePin() {
+    if (!canPin) return;
+    onPin({ ...location, name: trimmed });
+  }
+
+  return (
+    <div
+      className="fixed z-50 w-64 rounded-xl border dark:border-white/15 border-slate-200 dark:bg-slate-950/95 bg-white/95 p-3 text-sm shadow-xl backdrop-blur space-y-2"
+      style={{
+        left: Math.max(136, Math.min(x, window.innerWidth - 136)),
+        top: y,
+        transform: y < 200 ? "translate(-50%, 10px)" : "translate(-50%, calc(-100% - 10px))",
+      }}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1.5 font-semibold">
+          <MapPin className="h-3.5 w-3.5 text-sky-500" />
+          {location.tz}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-0.5 rounded dark:text-slate-400 text-slate-400 dark:hover:text-white hover:text-slate-700 transition-colors"
+          aria-label="Close location"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+      <div className="text-xs dark:text-slate-400 text-slate-500">
+        <span className="font-mono font-semibold dark:text-slate-200 text-slate-700">
+          {zoneTime.toFormat("HH:mm")}
+        </span>{" "}
+        · {zoneTime.offsetNameShort} · {formatOffset(zoneTime.offset)}
+      </div>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") handlePin();
+          if (e.key === "Escape") onClose();
+        }}
+        className="w-full rounded-lg border px-2 py-1 text-sm bg-transparent outline-none dark:border-white/10 border-slate-200 dark:text-white text-slate-900"
+        aria-label="Location name"
+        autoFocus
+      />
+      <button
+        onClick={handlePin}
+        disabled={!canPin}
+        className={cn(
+          "w-full rounded-lg px-2 py-1 text-sm font-medium transition-colors",
+          canPin
+            ? "bg-sky-500 text-white hover:bg-sky-600"
+            : "dark:bg-white/5 bg-slate-100 dark:text-slate-600 text-slate-400 cursor-default"
+        )}
+      >
+        Pin to compare
+      </button>
+      <button
+        onClick={() => canPin && onSave({ ...location, name: trimmed })}
+        disabled={!canPin}
+        className="w-full rounded-lg px-2 py-1 text-xs dark:text-sky-400 text-sky-600 hover:underline disabled:opacity-50 disabled:no-underline"
+      >
+        Save to my places
+      </button>
+      {zoneOffset !== null && onPinOffset && (
+        <button
+          onClick={() => onPinOffset(zoneOffset)}
+          className="w-full rounded-lg px-2 py-1 text-xs dark:text-sky-400 text-sky-600 hover:underline"
+        >
+          Pin a city at {formatOffset(zoneOffset)}
+        </button>
+      )}
+    </div>
+  );
+}
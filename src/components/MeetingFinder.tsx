@@ -0,0 +1,205 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { DateTime } from "luxon";
+import { CalendarClock, Check, Eye, Link, PartyPopper } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { holidayOn } from "@/lib/holidays";
+import { findMeetingSlots, type Participant, type WorkHours } from "@/lib/workingHours";
+
+const DURATIONS = [30, 60, 90, 120];
+
+type Props = {
+  /** Search start in epoch millis — rounded by the caller so results don't churn every tick */
+  from: number;
+  homeTz: string;
+  participants: Participant[];
+  workHours: WorkHours;
+  onWorkHoursChange: (hours: WorkHours) => void;
+  onPreview: (at: number) => void;
+  shareUrlFor: (at: number) => string;
+};
+
+function hourLabel(h: number) {
+  return `${String(h).padStart(2, "0")}:00`;
+}
+
+export function MeetingFinder({
+  from,
+  homeTz,
+  participants,
+  workHours,
+  onWorkHoursChange,
+  onPreview,
+  shareUrlFor,
+}: Props) {
+  const [duration, setDuration] = useState(60);
+  const [copiedAt, setCopiedAt] = useState<number | null>(null);
+
+  const slots = useMemo(
+    () => findMeetingSlots(participants, from, { durationMinutes: duration }),
+    [participants, from, duration]
+  );
+
+  const labels = useMemo(
+    () => new Map(participants.map((p) => [p.key, p.label])),
+    [participants]
+  );
+
+  // Participants whose local date at the slot is a public holiday
+  const slotHolidays = useMemo(
+    () =>
+      new Map(
+        slots.map((slot) => [
+          slot.start,
+          participants.flatMap((p) => {
+            const holiday = holidayOn(p.country ?? null, DateTime.fromMillis(slot.start).setZone(p.tz));
+            return holiday ? [`${p.label} (${holiday.name})`] : [];
+          }),
+        ])
+      ),
+    [slots, participants]
+  );
+
+  async function handleCopy(at: number) {
+    const url = shareUrlFor(at);
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      // Fallback: select a temp input, as the explorer's share button does
+      const el = document.createElement("input");
+      el.value = url;
+      document.body.appendChild(el);
+      el.select();
+      document.execCommand("copy");
+      document.body.removeChild(el);
+    }
+    setCopiedAt(at);
+    setTimeout(() => setCopiedAt(null), 2000);
+  }
+
+  const selectClass = cn(
+    "rounded-lg border px-1.5 py-0.5 text-xs bg-transparent",
+    "dark:border-white/10 border-slate-200 dark:text-slate-200 text-slate-700 dark:[color-scheme:dark]"
+  );
+
+  return (
+    <div
+      className={cn(
+        "rounded-2xl border p-4 space-y-3",
+        "dark:border-white/10 border-slate-200",
+        "dark:bg-white/[0.03] bg-white"
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <CalendarClock className="h-4 w-4 text-sky-500" />
+          Best meeting times · next 7 days
+        </div>
+        <div className="flex items-center gap-1.5 text-xs dark:text-slate-400 text-slate-500">
+          <span>Work</span>
+          <select
+            value={workHours.start}
+            onChange={(e) => onWorkHoursChange({ ...workHours, start: Number(e.target.value) })}
+            className={selectClass}
+            aria-label="Working day start"
+          >
+            {Array.from({ length: 24 }, (_, h) => h)
+              .filter((h) => h < workHours.end)
+              .map((h) => (
+                <option key={h} value={h}>{hourLabel(h)}</option>
+              ))}
+          </select>
+          <span>–</span>
+          <select
+            value={workHours.end}
+            onChange={(e) => onWorkHoursChange({ ...workHours, end: Number(e.target.value) })}
+            className={selectClass}
+            aria-label="Working day end"
+          >
+            {Array.from({ length: 24 }, (_, h) => h + 1)
+              .filter((h) => h > workHours.start)
+              .map((h) => (
+                <option key={h} value={h}>{hourLabel(h)}</option>
+              ))}
+          </select>
+          <select
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+            className={cn(selectClass, "ml-2")}
+            aria-label="Meeting length"
+          >
+            {DURATIONS.map((d) => (
+              <option key={d} value={d}>{d} min</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {slots.length === 0 ? (
+        <div className="text-xs dark:text-slate-500 text-slate-400 py-2">
+          Nobody is in working hours for a {duration}-minute slot over the next week.
+        </div>
+      ) : (
+        <ul className="space-y-1.5">
+          {slots.map((slot) => {
+            const start = DateTime.fromMillis(slot.start).setZone(homeTz);
+            const end = DateTime.fromMillis(slot.end).setZone(homeTz);
+            const everyone = slot.missing.length === 0;
+            return (
+              <li
+                key={slot.start}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-xl px-3 py-2 dark:bg-white/[0.03] bg-slate-50"
+              >
+                <div className="text-sm">
+                  <span className="font-medium">{start.toFormat("ccc dd LLL")}</span>{" "}
+                  <span className="font-mono">{start.toFormat("HH:mm")}–{end.toFormat("HH:mm")}</span>
+                  <span className="ml-2 text-xs dark:text-slate-500 text-slate-400">home time</span>
+                  <div
+                    className={cn(
+                      "text-xs",
+                      everyone ? "text-green-500" : "dark:text-amber-300 text-amber-600"
+                    )}
+                  >
+                    {everyone
+                      ? `Everyone in working hours (${slot.available.length}/${participants.length})`
+                      : `${slot.available.length}/${participants.length} available · outside hours: ${slot.missing.map((k) => labels.get(k)).join(", ")}`}
+                  </div>
+                  {slotHolidays.get(slot.start)!.length > 0 && (
+                    <div className="flex items-center gap-1 text-xs dark:text-fuchsia-300 text-fuchsia-600">
+                      <PartyPopper className="h-3 w-3 shrink-0" />
+                      Holiday: {slotHolidays.get(slot.start)!.join(", ")}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1.5 shrink-0">
+                  <button
+                    onClick={() => onPreview(slot.start)}
+                    className="flex items-center gap-1 rounded-lg border px-2 py-1 text-xs dark:border-white/10 border-slate-200 dark:hover:bg-white/10 hover:bg-slate-100 transition-colors"
+                    aria-label="Preview this slot"
+                  >
+                    <Eye className="h-3.5 w-3.5" />
+                    Preview
+                  </button>
+                  <button
+                    onClick={() => handleCopy(slot.start)}
+                    className={cn(
+                      "flex items-center gap-1 rounded-lg border px-2 py-1 text-xs transition-colors",
+                      copiedAt === slot.start
+                        ? "dark:border-green-500/30 border-green-400 text-green-500"
+                        : "dark:border-white/10 border-slate-200 dark:hover:bg-white/10 hover:bg-slate-100"
+                    )}
+                    aria-label="Copy link to this slot"
+                  >
+                    {copiedAt === slot.start ? <Check className="h-3.5 w-3.5" /> : <Link className="h-3.5 w-3.5" />}
+                    {copiedAt === slot.start ? "Copied" : "Link"}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useMemo } from "react";
+import { DateTime } from "luxon";
+import type { City } from "@/data/cities";
+import { cn } from "@/lib/utils";
+import { holidayOn } from "@/lib/holidays";
+import { classifyHour, classifyTime, type HourKind, type Participant } from "@/lib/workingHours";
+
+const HOURS = 24;
+
+type PinnedRow = {
+  city: City;
+  diff: string;
+  diffMinutes: number;
+};
+
+type Props = {
+  instant: number;
+  homeTz: string;
+  homeLabel: string;
+  pinned: PinnedRow[];
+  /** Working-hour profiles keyed like rows: "__home" for home, city id for pins */
+  participants: Participant[];
+  onSelect: (at: number) => void;
+};
+
+const CELL_CLASSES: Record<HourKind, string> = {
+  work: "dark:bg-emerald-500/25 bg-emerald-100 dark:text-emerald-200 text-emerald-800",
+  evening: "dark:bg-amber-400/15 bg-amber-50 dark:text-amber-200 text-amber-800",
+  sleep: "dark:bg-slate-800/60 bg-slate-100 dark:text-slate-500 text-slate-400",
+};
+
+export function OverlapGrid({ instant, homeTz, homeLabel, pinned, participants, onSelect }: Props) {
+  // Columns are absolute hours starting at local midnight of the home day, so every
+  // row reads the same instant in a given column regardless of its offset.
+  const dayStart = useMemo(
+    () => DateTime.fromMillis(instant).setZone(homeTz).startOf("day").toMillis(),
+    [instant, homeTz]
+  );
+  const columns = useMemo(
+    () => Array.from({ length: HOURS }, (_, i) => dayStart + i * 3600000),
+    [dayStart]
+  );
+  const selectedIndex = Math.floor((instant - dayStart) / 3600000);
+
+  const rows = useMemo(
+    () => [
+      { key: "__home", label: homeLabel, sub: "home", tz: homeTz, isHome: true },
+      ...pinned.map((p) => ({
+        key: p.city.id,
+        label: p.city.name,
+        sub: p.diff === "same time" ? "= home" : p.diff,
+        tz: p.city.tz,
+        isHome: false,
+      })),
+    ],
+    [homeLabel, homeTz, pinned]
+  );
+
+  const cells = useMemo(() => {
+    const byKey = new Map(participants.map((p) => [p.key, p]));
+    return rows.map((row) => {
+      const profile = byKey.get(row.key)?.profile;
+      const country = byKey.get(row.key)?.country ?? null;
+      return columns.map((at) => {
+        const local = DateTime.fromMillis(at).setZone(row.tz);
+        return {
+          holiday: holidayOn(country, local)?.name ?? null,
+          hour: local.hour,
+          minute: local.minute,
+          kind: profile ? classifyTime(local, profile) : classifyHour(local.hour),
+          isMidnight: local.hour === 0,
+          date: local.toFormat("ccc d"),
+        };
+      });
+    });
+  }, [rows, columns, participants]);
+
+  return (
+    <div
+      className={cn(
+        "rounded-2xl border p-3 overflow-x-auto",
+        "dark:border-white/10 border-slate-200",
+        "dark:bg-white/[0.03] bg-white"
+      )}
+    >
+      <div className="min-w-[720px] space-y-1">
+        {rows.map((row, r) => (
+          <div key={row.key} className="flex items-stretch gap-2">
+            <div className="w-28 shrink-0 pr-1">
+              <div className={cn("text-xs font-semibold truncate", row.isHome && "text-sky-500")}>
+                {row.label}
+              </div>
+              <div className="text-[10px] dark:text-slate-500 text-slate-400">{row.sub}</div>
+            </div>
+            <div className="grid flex-1 gap-px" style={{ gridTemplateColumns: `repeat(${HOURS}, minmax(0, 1fr))` }}>
+              {cells[r].map((cell, c) => (
+                <button
+                  key={columns[c]}
+                  onClick={() => onSelect(columns[c])}
+                  title={`${row.label} · ${cell.date} ${String(cell.hour).padStart(2, "0")}:${String(cell.minute).padStart(2, "0")}${cell.holiday ? ` · ${cell.holiday}` : ""}`}
+                  className={cn(
+                    "h-8 flex flex-col items-center justify-center text-[11px] font-mono leading-none transition-colors",
+                    CELL_CLASSES[cell.kind],
+                    cell.isMidnight && "border-l-2 dark:border-sky-400/60 border-sky-400",
+                    cell.holiday && "border-b-2 dark:border-b-fuchsia-400/70 border-b-fuchsia-500",
+                    c === selectedIndex && "ring-2 ring-inset ring-sky-400"
+                  )}
+                  aria-label={`Select ${cell.date} ${cell.hour}:00 in ${row.label}`}
+                >
+                  {cell.isMidnight ? (
+                    <span className="text-[9px] uppercase">{cell.date.split(" ")[0]}</span>
+                  ) : (
+                    cell.hour
+                  )}
+                  {cell.minute !== 0 && <span className="text-[8px] opacity-70">:{cell.minute}</span>}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="flex items-center gap-3 pt-2 pl-[7.5rem] text-[10px] dark:text-slate-500 text-slate-400">
+          <span className="flex items-center gap-1"><span className={cn("h-2 w-2 rounded-sm", CELL_CLASSES.work)} />Working</span>
+          <span className="flex items-center gap-1"><span className={cn("h-2 w-2 rounded-sm", CELL_CLASSES.evening)} />Evening</span>
+          <span className="flex items-center gap-1"><span className={cn("h-2 w-2 rounded-sm", CELL_CLASSES.sleep)} />Sleep</span>
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm border-b-2 dark:border-b-fuchsia-400/70 border-b-fuchsia-500" />Public holiday</span>
+          <span className="ml-auto">Click a column to select that slot</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+"use client";
+
+import { useState, useRef, useEffect, useMemo } from "react";
+import { Pencil, Plus, Trash2, Users } from "lucide-react";
+import { IANAZone, Info } from "luxon";
+import type { City } from "@/data/cities";
+import { cn } from "@/lib/utils";
+import { getAllTimezones } from "@/lib/timezones";
+import { profileForCity, profileForZone, type WorkHours } from "@/lib/workingHours";
+import {
+  createTeammateId,
+  initials,
+  teammatePlace,
+  validateTeammate,
+  type Teammate,
+} from "@/lib/roster";
+
+const WEEKDAY_LETTERS = Info.weekdays("narrow");
+const WEEKDAY_NAMES = Info.weekdays("long");
+const HOURS = Array.from({ length: 25 }, (_, h) => h);
+
+type Props = {
+  roster: Teammate[];
+  /** Catalogue the place field resolves city names against */
+  cities: City[];
+  homeTz: string;
+  /** Hours new teammates start with — the explorer's own working day */
+  workHours: WorkHours;
+  onSave: (teammate: Teammate) => void;
+  onDelete: (id: string) => void;
+};
+
+type Draft = {
+  id: string | null;
+  name: string;
+  place: string;
+  start: number;
+  end: number;
+  /** null keeps the weekend of wherever they are */
+  daysOff: number[] | null;
+};
+
+function sortDays(days: number[]): number[] {
+  return [...days].sort((a, b) => a - b);
+}
+
+function placeLabel(city: City): string {
+  return `${city.name}, ${city.country}`;
+}
+
+// "Lisbon, Portugal" or "Lisbon" picks a city; anything else is read as an IANA zone
+function resolvePlace(text: string, cities: City[]): { city: City | null; tz: string } {
+  const query = text.trim();
+  if (IANAZone.isValidZone(query)) return { city: null, tz: query };
+  const lower = query.toLowerCase();
+  const city =
+    cities.find((c) => placeLabel(c).toLowerCase() === lower) ??
+    cities.find((c) => c.name.toLowerCase() === lower);
+  return city ? { city, tz: city.tz } : { city: null, tz: query };
+}
+
+// Manage the team roster: who's on it, where they are and when they work
+export function TeamMenu({ roster, cities, homeTz, workHours, onSave, onDelete }: Props) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const allTzs = useMemo(() => getAllTimezones(), []);
+
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+        setDraft(null);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const resolved = draft && resolvePlace(draft.place, cities);
+  const defaultDaysOff = resolved
+    ? (resolved.city ? profileForCity(resolved.city) : profileForZone(resolved.tz)).weekend
+    : [];
+  const candidate = draft &&
+    resolved && {
+      name: draft.name.trim(),
+      city: resolved.city,
+      tz: resolved.tz,
+      hours: { start: draft.start, end: draft.end },
+      // Only store days off that differ from their local weekend
+      daysOff:
+        draft.daysOff && sortDays(draft.daysOff).join() !== sortDays(defaultDaysOff).join()
+          ? sortDays(draft.daysOff)
+          : null,
+    };
+  const error = candidate ? validateTeammate(candidate) : null;
+
+  function handleSubmit() {
+    if (!draft || !candidate || error) return;
+    onSave({ ...candidate, id: draft.id ?? createTeammateId() });
+    setDraft(null);
+  }
+
+  function startEdit(t: Teammate) {
+    setDraft({
+      id: t.id,
+      name: t.name,
+      place: t.city ? placeLabel(t.city) : t.tz,
+      start: t.hours.start,
+      end: t.hours.end,
+      daysOff: t.daysOff,
+    });
+  }
+
+  function toggleDay(day: number) {
+    if (!draft) return;
+    const current = draft.daysOff ?? defaultDaysOff;
+    setDraft({
+      ...draft,
+      daysOff: current.includes(day) ? current.filter((d) => d !== day) : [...current, day],
+    });
+  }
+
+  const inputClass =
+    "w-full rounded-lg border px-2 py-1 text-sm bg-transparent outline-none dark:border-white/10 border-slate-200 dark:text-white text-slate-900 placeholder:text-slate-400";
+  const selectClass =
+    "rounded-lg border px-1.5 py-1 text-sm bg-transparent outline-none dark:border-white/10 border-slate-200 dark:text-white text-slate-900 dark:[color-scheme:dark]";
+  const selectedDays = draft?.daysOff ?? defaultDaysOff;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className={cn(
+          "flex items-center justify-center rounded-xl border p-2 transition-colors",
+          "dark:border-white/10 border-slate-200",
+          "dark:bg-white/5 bg-white",
+          "dark:hover:bg-white/10 hover:bg-slate-50"
+        )}
+        aria-label="Team roster"
+        aria-expanded={open}
+        title="Team roster"
+      >
+        <Users className="h-4 w-4 text-slate-400" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full mt-1.5 right-0 z-50 w-80 max-w-[calc(100vw-2rem)] rounded-xl border dark:border-white/10 border-slate-200 dark:bg-slate-900 bg-white shadow-xl">
+          <div className="flex items-center justify-between px-3 py-2 border-b dark:border-white/10 border-slate-100">
+            <span className="text-sm font-medium dark:text-white text-slate-900">Team</span>
+            {!draft && (
+              <button
+                onClick={() =>
+                  setDraft({ id: null, name: "", place: homeTz, ...workHours, daysOff: null })
+                }
+                className="flex items-center gap-1 text-xs dark:text-sky-400 text-sky-600 hover:underline"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add teammate
+              </button>
+            )}
+          </div>
+
+          {draft ? (
+            <div className="p-3 space-y-2">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name"
+                className={inputClass}
+                aria-label="Name"
+                autoFocus
+              />
+              <input
+                value={draft.place}
+                onChange={(e) => setDraft({ ...draft, place: e.target.value })}
+                placeholder="City or timezone, e.g. Lisbon or Europe/Lisbon"
+                className={inputClass}
+                aria-label="City or IANA timezone"
+                list="team-places"
+              />
+              <datalist id="team-places">
+                {cities.map((c) => (
+                  <option key={c.id} value={placeLabel(c)} />
+                ))}
+                {allTzs.map((tz) => (
+                  <option key={tz} value={tz} />
+                ))}
+              </datalist>
+              <div className="flex items-center gap-2 text-xs dark:text-slate-400 text-slate-500">
+                Works
+                <select
+                  value={draft.start}
+                  onChange={(e) => setDraft({ ...draft, start: Number(e.target.value) })}
+                  className={selectClass}
+                  aria-label="Work starts"
+                >
+                  {HOURS.slice(0, 24).map((h) => (
+                    <option key={h} value={h}>{String(h).padStart(2, "0")}:00</option>
+                  ))}
+                </select>
+                to
+                <select
+                  value={draft.end}
+                  onChange={(e) => setDraft({ ...draft, end: Number(e.target.value) })}
+                  className={selectClass}
+                  aria-label="Work ends"
+                >
+                  {HOURS.slice(1).map((h) => (
+                    <option key={h} value={h}>{String(h).padStart(2, "0")}:00</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-1 text-xs dark:text-slate-400 text-slate-500">
+                <span className="mr-1">Days off</span>
+                {WEEKDAY_LETTERS.map((label, i) => {
+                  const day = i + 1;
+                  const off = selectedDays.includes(day);
+                  return (
+                    <button
+                      key={day}
+                      onClick={() => toggleDay(day)}
+                      className={cn(
+                        "h-6 w-6 rounded-md text-[11px] font-medium transition-colors",
+                        off
+                          ? "bg-sky-500 text-white"
+                          : "dark:bg-white/5 bg-slate-100 dark:text-slate-300 text-slate-600"
+                      )}
+                      aria-pressed={off}
+                      aria-label={`${WEEKDAY_NAMES[i]} off`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+              {error && draft.name.trim() !== "" && <div className="text-[11px] text-red-400">{error}</div>}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="flex-1 rounded-lg px-2 py-1 text-sm dark:bg-white/5 bg-slate-100 dark:text-slate-300 text-slate-600"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmit}
+                  disabled={Boolean(error)}
+                  className={cn(
+                    "flex-1 rounded-lg px-2 py-1 text-sm font-medium transition-colors",
+                    error
+                      ? "dark:bg-white/5 bg-slate-100 dark:text-slate-600 text-slate-400 cursor-default"
+                      : "bg-sky-500 text-white hover:bg-sky-600"
+                  )}
+                >
+                  {draft.id ? "Save" : "Add"}
+                </button>
+              </div>
+            </div>
+          ) : roster.length === 0 ? (
+            <div className="px-3 py-4 text-sm text-center text-slate-500">
+              Add your teammates with where they are and when they work to see who&apos;s online at a glance.
+            </div>
+          ) : (
+            <ul className="max-h-72 overflow-y-auto py-1">
+              {roster.map((t) => (
+                <li key={t.id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                  <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-sky-500/20 text-[10px] font-semibold dark:text-sky-300 text-sky-700">
+                    {initials(t.name)}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate dark:text-slate-200 text-slate-700">{t.name}</div>
+                    <div className="text-[11px] dark:text-slate-500 text-slate-400 truncate">
+                      {teammatePlace(t)} · {String(t.hours.start).padStart(2, "0")}–{String(t.hours.end).padStart(2, "0")}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => startEdit(t)}
+                    className="p-1 rounded dark:text-slate-500 text-slate-400 dark:hover:text-white hover:text-slate-700"
+                    aria-label={`Edit ${t.name}`}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(t.id)}
+                    className="p-1 rounded dark:text-slate-500 text-slate-400 dark:hover:text-red-400 hover:text-red-500"
+                    aria-label={`Remove ${t.name}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { Users } from "lucide-react";
+import { cn, formatDuration } from "@/lib/utils";
+import {
+  initials,
+  teammatePlace,
+  TEAM_STATUS_LABELS,
+  type TeamStatus,
+  type TeammateState,
+} from "@/lib/roster";
+
+const GROUPS: { title: string; statuses: TeamStatus[] }[] = [
+  { title: "Working now", statuses: ["working"] },
+  { title: "About to start or finish", statuses: ["starting", "finishing"] },
+  { title: "Off", statuses: ["off"] },
+  { title: "Asleep", statuses: ["asleep"] },
+];
+
+const STATUS_DOT: Record<TeamStatus, string> = {
+  working: "bg-emerald-500",
+  starting: "bg-amber-400",
+  finishing: "bg-amber-400",
+  off: "bg-slate-400",
+  asleep: "bg-indigo-500",
+};
+
+type Props = {
+  /** Roster statuses at `instant`, from the explorer's shared tick */
+  states: TeammateState[];
+  instant: number;
+};
+
+function describeState(state: TeammateState, instant: number): string {
+  if (state.changeAt !== null) {
+    const verb = state.status === "starting" ? "Starts" : "Finishes";
+    return `${verb} in ${formatDuration(Math.max(0, state.changeAt - instant))}`;
+  }
+  if (state.dayOff && state.status !== "asleep") return "Day off";
+  return TEAM_STATUS_LABELS[state.status];
+}
+
+// Who on the team is working, about to start or finish, off or asleep
+export function TeamPanel({ states, instant }: Props) {
+  return (
+    <div
+      className={cn(
+        "rounded-2xl border p-4 space-y-3",
+        "dark:border-white/10 border-slate-200",
+        "dark:bg-white/[0.03] bg-white"
+      )}
+    >
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <Users className="h-4 w-4 text-sky-500" />
+        Team · {states.filter((s) => s.status === "working" || s.status === "finishing").length} of{" "}
+        {states.length} working
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        {GROUPS.map((group) => {
+          const members = states.filter((s) => group.statuses.includes(s.status));
+          return (
+            <div key={group.title} className="space-y-1.5">
+              <div className="text-xs uppercase tracking-wide dark:text-slate-500 text-slate-400">
+                {group.title} · {members.length}
+              </div>
+              {members.length === 0 ? (
+                <div className="text-xs dark:text-slate-600 text-slate-300">Nobody</div>
+              ) : (
+                <ul className="space-y-1.5">
+                  {members.map((state) => (
+                    <li key={state.teammate.id} className="flex items-center gap-2">
+                      <span
+                        className={cn(
+                          "flex h-7 w-7 shrink-0 items-center justify-center rounded-full text-[10px] font-semibold text-white",
+                          STATUS_DOT[state.status]
+                        )}
+                        aria-hidden="true"
+                      >
+                        {initials(state.teammate.name)}
+                      </span>
+                      <div className="min-w-0">
+                        <div className="text-sm truncate">{state.teammate.name}</div>
+                        <div className="text-[11px] dark:text-slate-500 text-slate-400 truncate">
+                          <span className="font-mono">{state.local.toFormat("HH:mm")}</span>{" "}
+                          {teammatePlace(state.teammate)} · {describeState(state, instant)}
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
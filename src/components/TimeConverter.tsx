@@ -0,0 +1,165 @@
+"use client";
+
+import { useState, useRef, useEffect, useMemo } from "react";
+import { ArrowRight, Clock, X } from "lucide-react";
+import { DateTime } from "luxon";
+import type { City } from "@/data/cities";
+import { cn, formatDiff } from "@/lib/utils";
+import { parseTimePhrase, type ZoneRef } from "@/lib/timePhrase";
+
+type Props = {
+  homeTz: string;
+  pinnedCities: City[];
+  cities: City[];
+  /** Move the whole explorer to the parsed instant */
+  onJump: (instant: number) => void;
+  /** The field gained focus — the explorer fetches the full city catalogue then */
+  onFocus?: () => void;
+};
+
+export function TimeConverter({ homeTz, pinnedCities, cities, onJump, onFocus }: Props) {
+  const [query, setQuery] = useState("");
+  // When the query last changed — relative readings ("tomorrow", current offsets) use it
+  const [typedAt, setTypedAt] = useState(0);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const parsed = useMemo(
+    () => (query.trim() ? parseTimePhrase(query, cities, homeTz, typedAt) : null),
+    [query, cities, homeTz, typedAt]
+  );
+
+  // Explicit targets first, then home and every pinned city
+  const rows = useMemo((): ZoneRef[] => {
+    if (!parsed || "error" in parsed) return [];
+    return [
+      ...parsed.targets,
+      { tz: homeTz, label: "Home" },
+      ...pinnedCities.map((c) => ({ tz: c.tz, label: c.name })),
+    ];
+  }, [parsed, homeTz, pinnedCities]);
+
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  function handleJump() {
+    if (!parsed || "error" in parsed) return;
+    onJump(parsed.instant);
+    setOpen(false);
+  }
+
+  const sourceTime =
+    parsed && !("error" in parsed) ? DateTime.fromMillis(parsed.instant).setZone(parsed.source.tz) : null;
+  const homeOffset = sourceTime ? sourceTime.setZone(homeTz).offset : 0;
+
+  return (
+    <div ref={containerRef} className="relative flex-1 sm:flex-initial">
+      <div
+        className={cn(
+          "flex items-center gap-2 rounded-xl border px-3 py-2 transition-colors",
+          "dark:border-white/10 border-slate-200",
+          "dark:bg-white/5 bg-white",
+          query ? "dark:border-sky-500/30 border-sky-300" : ""
+        )}
+      >
+        <Clock className="h-4 w-4 text-slate-400 flex-shrink-0" />
+        <input
+          type="text"
+          placeholder="3pm Tokyo in London..."
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setTypedAt(Date.now());
+            setOpen(true);
+          }}
+          onFocus={() => {
+            setOpen(true);
+            onFocus?.();
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleJump();
+            if (e.key === "Escape") setOpen(false);
+          }}
+          className="bg-transparent text-sm outline-none w-full sm:w-44 dark:text-white text-slate-900 placeholder:text-slate-400"
+          aria-label="Convert a time, e.g. 3pm Tokyo in London"
+        />
+        {query && (
+          <button
+            onClick={() => {
+              setQuery("");
+              setOpen(false);
+            }}
+            aria-label="Clear time"
+          >
+            <X className="h-3.5 w-3.5 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" />
+          </button>
+        )}
+      </div>
+
+      {open && parsed && (
+        <div className="absolute top-full mt-1.5 left-0 z-50 w-[calc(100vw-2rem)] sm:w-72 max-h-96 overflow-y-auto rounded-xl border dark:border-white/10 border-slate-200 dark:bg-slate-900 bg-white shadow-xl">
+          {"error" in parsed ? (
+            <div className="px-3 py-4 text-sm text-center text-slate-500">{parsed.error}</div>
+          ) : (
+            <>
+              <div className="px-3 pt-2.5 pb-2 border-b dark:border-white/5 border-slate-100">
+                <div className="text-sm font-medium dark:text-white text-slate-900">
+                  {sourceTime!.toFormat("ccc d LLL · HH:mm")}{" "}
+                  <span className="font-normal dark:text-slate-400 text-slate-500">{parsed.source.label}</span>
+                </div>
+                {parsed.notes.map((note) => (
+                  <div key={note} className="text-[11px] text-amber-500">
+                    {note}
+                  </div>
+                ))}
+              </div>
+              {rows.map((row, i) => {
+                const local = DateTime.fromMillis(parsed.instant).setZone(row.tz);
+                // Highlight the weekday when the conversion lands on a different date
+                const otherDay = local.toISODate() !== sourceTime!.toISODate();
+                return (
+                  <div
+                    key={`${row.label}-${i}`}
+                    className="flex items-center justify-between px-3 py-1.5 text-sm"
+                  >
+                    <span className="truncate dark:text-slate-200 text-slate-700">{row.label}</span>
+                    <span className="flex items-center gap-2 shrink-0">
+                      <span className="text-[11px] dark:text-slate-500 text-slate-400">
+                        {formatDiff(local.offset - homeOffset)}
+                      </span>
+                      <span className="font-mono font-semibold dark:text-white text-slate-900">
+                        {local.toFormat("HH:mm")}
+                      </span>
+                      <span
+                        className={cn(
+                          "w-8 text-[11px]",
+                          otherDay ? "text-amber-500" : "dark:text-slate-500 text-slate-400"
+                        )}
+                      >
+                        {local.toFormat("ccc")}
+                      </span>
+                    </span>
+                  </div>
+                );
+              })}
+              <button
+                onClick={handleJump}
+                className="w-full flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium border-t dark:border-white/5 border-slate-100 dark:text-sky-400 text-sky-600 dark:hover:bg-white/5 hover:bg-slate-50 transition-colors"
+              >
+                Show this time everywhere
+                <ArrowRight className="h-3.5 w-3.5" />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
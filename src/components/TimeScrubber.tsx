@@ -0,0 +1,108 @@
+"use client";
+
+import { useMemo } from "react";
+import { DateTime } from "luxon";
+import { History, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const STEP_MINUTES = 15;
+
+type Props = {
+  now: number;
+  /** Scrubbed instant in epoch millis, or null when following the live clock */
+  at: number | null;
+  homeTz: string;
+  onChange: (at: number | null) => void;
+};
+
+export function TimeScrubber({ now, at, homeTz, onChange }: Props) {
+  const isLive = at === null;
+  const instant = at ?? now;
+
+  // The slider covers one calendar day in the home timezone. Offsets are added in
+  // absolute minutes so 23h / 25h DST days still map 1:1 onto real instants.
+  const { dayStart, dayMinutes, value, dateValue, label } = useMemo(() => {
+    const local = DateTime.fromMillis(instant).setZone(homeTz);
+    const start = local.startOf("day");
+    const end = start.plus({ days: 1 });
+    return {
+      dayStart: start.toMillis(),
+      dayMinutes: Math.round((end.toMillis() - start.toMillis()) / 60000),
+      value: Math.floor((instant - start.toMillis()) / 60000),
+      dateValue: local.toFormat("yyyy-MM-dd"),
+      label: local.toFormat("ccc dd LLL yyyy · HH:mm"),
+    };
+  }, [instant, homeTz]);
+
+  function handleSlider(minutes: number) {
+    onChange(dayStart + minutes * 60000);
+  }
+
+  function handleDate(iso: string) {
+    if (!iso) return;
+    const local = DateTime.fromMillis(instant).setZone(homeTz);
+    const target = DateTime.fromISO(iso, { zone: homeTz }).set({
+      hour: local.hour,
+      minute: local.minute,
+    });
+    if (target.isValid) onChange(target.toMillis());
+  }
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col sm:flex-row items-stretch sm:items-center gap-3 rounded-2xl border px-4 py-3",
+        isLive
+          ? "dark:border-white/10 border-slate-200 dark:bg-white/[0.02] bg-white"
+          : "dark:border-amber-400/30 border-amber-300 dark:bg-amber-400/5 bg-amber-50"
+      )}
+    >
+      <div className="flex items-center gap-2 text-sm shrink-0 sm:w-56">
+        <History className={cn("h-4 w-4", isLive ? "text-slate-400" : "text-amber-500")} />
+        {isLive ? (
+          <span className="dark:text-slate-400 text-slate-500">Live · drag to preview a time</span>
+        ) : (
+          <span className="font-medium dark:text-amber-300 text-amber-700">{label}</span>
+        )}
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={dayMinutes - 1}
+        step={STEP_MINUTES}
+        value={value - (value % STEP_MINUTES)}
+        onChange={(e) => handleSlider(Number(e.target.value))}
+        className="flex-1 accent-sky-500"
+        aria-label="Preview time of day in home timezone"
+      />
+      <div className="flex items-center gap-2 shrink-0">
+        <input
+          type="date"
+          value={dateValue}
+          onChange={(e) => handleDate(e.target.value)}
+          className={cn(
+            "rounded-xl border px-2 py-1 text-sm bg-transparent",
+            "dark:border-white/10 border-slate-200",
+            "dark:text-slate-200 text-slate-700 dark:[color-scheme:dark]"
+          )}
+          aria-label="Preview date in home timezone"
+        />
+        <button
+          onClick={() => onChange(null)}
+          disabled={isLive}
+          className={cn(
+            "flex items-center gap-1.5 rounded-xl border px-3 py-1.5 text-sm font-medium transition-colors",
+            "dark:border-white/10 border-slate-200",
+            isLive
+              ? "dark:text-slate-600 text-slate-300 cursor-default"
+              : "dark:bg-white/5 bg-slate-50 dark:text-slate-200 text-slate-700 dark:hover:bg-white/10 hover:bg-slate-100"
+          )}
+          aria-label="Back to live time"
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+          Live
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,19 +2,88 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { DateTime } from "luxon";
-import { geoEqualEarth } from "d3-geo";
-import { Link, Moon, Sun, X, Trash2, Copy, Check } from "lucide-react";
+import { Link, Moon, Sun, X, Trash2, Copy, Check, LayoutGrid, List, AlertTriangle, Layers, RotateCcw, PartyPopper } from "lucide-react";
 
-import { CITIES, FEATURED_CITY_NAMES, type City } from "@/data/cities";
-import { cn, formatOffset, formatDiff } from "@/lib/utils";
+import { CITIES, FEATURED_CITY_IDS, findCity, type City } from "@/data/cities";
+import { loadWorldCities } from "@/data/worldCities";
+import { cn, formatOffset, formatDiff, formatDuration } from "@/lib/utils";
+import { isSunUp, sunTimes } from "@/lib/solar";
+import { resolveLocation } from "@/lib/locations";
+import {
+  CUSTOM_STORAGE_KEY,
+  createCustomId,
+  customToCity,
+  isCustomLocation,
+  parseCustomLocations,
+  type CustomLocation,
+} from "@/lib/customLocations";
+import {
+  WORKSPACES_STORAGE_KEY,
+  createWorkspaceId,
+  importWorkspaces,
+  parseWorkspaceStore,
+  uniqueWorkspaceName,
+  type Theme,
+  type Workspace,
+  type WorkspaceStore,
+} from "@/lib/workspaces";
+import { decodeShareState, encodeShareState, isShareOf, resolveSharePins } from "@/lib/shareState";
+import {
+  LAST_COMPARISON_STORAGE_KEY,
+  MAP_STORAGE_KEY,
+  parseLastComparison,
+  parseMapPrefs,
+  type LastComparison,
+  type MapPrefs,
+} from "@/lib/savedState";
+import {
+  ROSTER_STORAGE_KEY,
+  initials,
+  parseRoster,
+  rosterStates,
+  teammateCoords,
+  teammatePlace,
+  type Teammate,
+} from "@/lib/roster";
+import { holidayCountry, holidayOn, holidaysBetween } from "@/lib/holidays";
+import { diffChanges, nextOffsetTransition, type OffsetTransition } from "@/lib/dst";
+import {
+  DEFAULT_WORK_HOURS,
+  countryForZone,
+  isWorkingTime,
+  profileForCity,
+  profileForZone,
+  type Participant,
+  type WorkHours,
+} from "@/lib/workingHours";
 import { AnalogClock } from "./AnalogClock";
-import { WorldMap } from "./WorldMap";
+import { WorldMap, type MapAvatar } from "./WorldMap";
 import { CitySearch } from "./CitySearch";
 import { HomeTimezonePicker } from "./HomeTimezonePicker";
+import { TimeConverter } from "./TimeConverter";
+import { TimeScrubber } from "./TimeScrubber";
+import { OverlapGrid } from "./OverlapGrid";
+import { MeetingFinder } from "./MeetingFinder";
+import { CompareTable } from "./CompareTable";
+import { LocationPopover } from "./LocationPopover";
+import { CustomLocations } from "./CustomLocations";
+import { WorkspaceMenu } from "./WorkspaceMenu";
+import { InviteExport } from "./InviteExport";
+import { IcsImport } from "./IcsImport";
+import { HolidayBadge } from "./HolidayBadge";
+import { TeamMenu } from "./TeamMenu";
+import { TeamPanel } from "./TeamPanel";
 
-const MAP_WIDTH = 1000;
-const MAP_HEIGHT = 520;
-const MAP_SCALE = 185;
+// Cards fill one row at this count; beyond it the compare panel switches to a table
+const CARD_COLUMNS = 4;
+
+// Warn about home-relative differences changing within this many weeks
+const DST_WARNING_WEEKS = 4;
+// How far ahead the compare panel lists public holidays
+const HOLIDAY_WARNING_WEEKS = 4;
+
+// Meeting suggestions are recomputed at most once per half hour of live time
+const FINDER_GRANULARITY_MS = 30 * 60000;
 
 type TooltipState = {
   city: City;
@@ -23,38 +92,105 @@ type TooltipState = {
   time: string;
 } | null;
 
-type Theme = "dark" | "light";
+type DraftLocation = { city: City; x: number; y: number; zoneOffset: number | null } | null;
+
+function describeTransition(t: OffsetTransition, tz: string): string {
+  const date = DateTime.fromMillis(t.at).setZone(tz).toFormat("d LLL yyyy");
+  return `${date} · ${formatOffset(t.fromOffset)} → ${formatOffset(t.toOffset)}`;
+}
+
+// Sunrise / sunset for the city's current local calendar day, formatted in its zone
+function describeSun(city: City, zoneTime: DateTime) {
+  const noon = zoneTime.set({ hour: 12, minute: 0, second: 0, millisecond: 0 }).toMillis();
+  const sun = sunTimes(city.lat, city.lon, noon);
+  const fmt = (ms: number | null) =>
+    ms === null ? "—" : DateTime.fromMillis(ms).setZone(city.tz).toFormat("HH:mm");
+  return {
+    sunrise: fmt(sun.sunrise),
+    sunset: fmt(sun.sunset),
+    solarNoon: fmt(sun.solarNoon),
+    dayLength: formatDuration(sun.dayLength),
+    polar: sun.polar,
+  };
+}
+
+type CompareLayout = "cards" | "table";
 
 export function TimezoneExplorer() {
   const [mounted, setMounted] = useState(false);
   const [theme, setTheme] = useState<Theme>("dark");
   const [homeTz, setHomeTz] = useState("Europe/Sarajevo");
   const [pinnedCities, setPinnedCities] = useState<City[]>([]);
+  // Searchable cities — the curated list until search or the converter loads the world dataset
+  const [cities, setCities] = useState<City[]>(CITIES);
+  const [customLocations, setCustomLocations] = useState<CustomLocation[]>([]);
+  const [roster, setRoster] = useState<Teammate[]>([]);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
   const [highlightedCities, setHighlightedCities] = useState<City[]>([]);
   const [hoveredCity, setHoveredCity] = useState<City | null>(null);
   const [tooltip, setTooltip] = useState<TooltipState>(null);
   const [now, setNow] = useState<number | null>(null);
+  const [scrubAt, setScrubAt] = useState<number | null>(null);
   const [copied, setCopied] = useState(false);
   const [hiddenCities, setHiddenCities] = useState<Set<string>>(new Set());
+  // Cities outside the featured set the user chose to keep on the map
+  const [extraCities, setExtraCities] = useState<City[]>([]);
+  const [workHours, setWorkHours] = useState<WorkHours>(DEFAULT_WORK_HOURS);
+  const [compareLayout, setCompareLayout] = useState<CompareLayout | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [draftLocation, setDraftLocation] = useState<DraftLocation>(null);
+  const [showZones, setShowZones] = useState(false);
+  const [hoveredOffset, setHoveredOffset] = useState<number | null>(null);
 
   const hoverDismissTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const projection = useMemo(
-    () => geoEqualEarth().scale(MAP_SCALE).translate([MAP_WIDTH / 2, MAP_HEIGHT / 2]),
-    []
-  );
+  // The instant every derived time is computed from — the scrubbed time if set, else live
+  const instant = scrubAt ?? now;
 
-  // Show only featured + pinned + search-highlighted cities on the map, minus hidden
+  // Cities sharing the UTC offset of the hovered timezone band
+  const offsetHour = instant === null ? null : Math.floor(instant / 3600000);
+  const zoneCities = useMemo(() => {
+    if (hoveredOffset === null || offsetHour === null) return null;
+    const at = DateTime.fromMillis(offsetHour * 3600000);
+    return CITIES.filter((c) => at.setZone(c.tz).offset === hoveredOffset);
+  }, [hoveredOffset, offsetHour]);
+
+  // Hovering a timezone band takes over the map highlight from search results
+  const mapHighlighted = zoneCities ?? highlightedCities;
+
+  const customCities = useMemo(() => customLocations.map(customToCity), [customLocations]);
+
+  // Custom places are searched first so "Client HQ" beats any city of the same name
+  const searchableCities = useMemo(() => [...customCities, ...cities], [customCities, cities]);
+
+  // Show featured cities, kept extras and custom places minus hidden, plus everything pinned
+  // or highlighted — including ad-hoc locations and cities from the world dataset
   const visibleCities = useMemo(() => {
-    const pinnedNames = new Set(pinnedCities.map((c) => c.name));
-    const highlightedNames = new Set(highlightedCities.map((c) => c.name));
-    return CITIES.filter(
-      (c) =>
-        highlightedNames.has(c.name) ||
-        pinnedNames.has(c.name) ||
-        (!hiddenCities.has(c.name) && FEATURED_CITY_NAMES.has(c.name))
-    );
-  }, [pinnedCities, highlightedCities, hiddenCities]);
+    const shown = new Map<string, City>();
+    for (const c of [...CITIES.filter((c) => FEATURED_CITY_IDS.has(c.id)), ...extraCities, ...customCities]) {
+      if (!hiddenCities.has(c.id)) shown.set(c.id, c);
+    }
+    for (const c of [...mapHighlighted, ...pinnedCities]) shown.set(c.id, c);
+    return [...shown.values()];
+  }, [pinnedCities, mapHighlighted, hiddenCities, extraCities, customCities]);
+
+  // The rest of the curated list the user hasn't hidden — revealed on the map as it zooms in
+  const backgroundCities = useMemo(() => {
+    const visibleIds = new Set(visibleCities.map((c) => c.id));
+    return CITIES.filter((c) => !visibleIds.has(c.id) && !hiddenCities.has(c.id));
+  }, [visibleCities, hiddenCities]);
+
+  // The active workspace follows every change to what it holds; the others stay as saved
+  const liveWorkspaces = useMemo(
+    () =>
+      workspaces.map((w) =>
+        w.id === activeWorkspaceId
+          ? { ...w, pinnedCities, homeTz, hiddenCities: [...hiddenCities], theme }
+          : w
+      ),
+    [workspaces, activeWorkspaceId, pinnedCities, homeTz, hiddenCities, theme]
+  );
 
   // Mount: tick, read URL + localStorage
   useEffect(() => {
@@ -68,31 +204,120 @@ export function TimezoneExplorer() {
       setTheme(savedTheme);
     }
 
+    // Working hours from localStorage
+    try {
+      const savedHours = JSON.parse(localStorage.getItem("tz-work-hours") ?? "null");
+      if (
+        typeof savedHours?.start === "number" &&
+        typeof savedHours?.end === "number" &&
+        savedHours.start < savedHours.end
+      ) {
+        setWorkHours({ start: savedHours.start, end: savedHours.end });
+      }
+    } catch {
+      // ignore malformed value
+    }
+
+    // Custom places from localStorage
+    try {
+      setCustomLocations(parseCustomLocations(JSON.parse(localStorage.getItem(CUSTOM_STORAGE_KEY) ?? "[]")));
+    } catch {
+      // ignore malformed value
+    }
+
+    // Team roster from localStorage
+    try {
+      setRoster(parseRoster(JSON.parse(localStorage.getItem(ROSTER_STORAGE_KEY) ?? "[]")));
+    } catch {
+      // ignore malformed value
+    }
+
+    let browserTz: string | null = null;
+    try {
+      browserTz = Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+    } catch {
+      // fall through to default
+    }
+
     // URL params
-    const params = new URLSearchParams(window.location.search);
-    const compareParam = params.get("compare");
-    const homeParam = params.get("home");
-
-    if (compareParam) {
-      const names = compareParam.split(",").map((n) => n.trim());
-      const found = names
-        .map((name) => CITIES.find((c) => c.name === name))
-        .filter((c): c is City => Boolean(c));
-      if (found.length) setPinnedCities(found.slice(0, 4));
+    const share = decodeShareState(window.location.search, browserTz ?? "Europe/Sarajevo");
+
+    // Workspaces from localStorage
+    let store: WorkspaceStore = { activeId: null, workspaces: [] };
+    try {
+      store = parseWorkspaceStore(JSON.parse(localStorage.getItem(WORKSPACES_STORAGE_KEY) ?? "null"));
+    } catch {
+      // ignore malformed value
     }
+    const savedActive = store.workspaces.find((w) => w.id === store.activeId) ?? null;
 
-    if (homeParam) {
-      setHomeTz(homeParam);
-    } else {
-      // Default to browser timezone
-      try {
-        const browserTz = Intl.DateTimeFormat().resolvedOptions().timeZone;
-        if (browserTz) setHomeTz(browserTz);
-      } catch {
-        // fall through to default
+    // Map customisation from localStorage
+    let prefs: MapPrefs = { hidden: [], extra: [] };
+    try {
+      prefs = parseMapPrefs(JSON.parse(localStorage.getItem(MAP_STORAGE_KEY) ?? "null"));
+    } catch {
+      // ignore malformed value
+    }
+
+    // Last comparison from localStorage
+    let savedComparison: LastComparison | null = null;
+    try {
+      savedComparison = parseLastComparison(JSON.parse(localStorage.getItem(LAST_COMPARISON_STORAGE_KEY) ?? "null"));
+    } catch {
+      // ignore malformed value
+    }
+
+    // Restore order is documented in lib/savedState: link, then active workspace, then last
+    // comparison. A shared link opens unsaved so editing it can't overwrite a workspace —
+    // unless it's the URL this browser last wrote itself, as after a reload: the active
+    // workspace's or the last comparison's.
+    const search = window.location.search;
+    const ownUrl =
+      (savedActive !== null && isShareOf(search, savedActive)) ||
+      (savedComparison !== null && isShareOf(search, { ...savedComparison, hiddenCities: prefs.hidden }));
+    const linked = (share.pins.length > 0 || share.homeTz !== null || share.hiddenCities !== null) && !ownUrl;
+    const activeWorkspace = linked ? null : savedActive;
+    setWorkspaces(store.workspaces);
+    setActiveWorkspaceId(activeWorkspace?.id ?? null);
+
+    setHiddenCities(new Set(share.hiddenCities ?? activeWorkspace?.hiddenCities ?? prefs.hidden));
+    setExtraCities(prefs.extra);
+
+    const lastComparison = linked || activeWorkspace ? null : savedComparison;
+    const restored = activeWorkspace ?? lastComparison;
+    if (restored) setPinnedCities(restored.pinnedCities);
+    if (activeWorkspace) setTheme(activeWorkspace.theme);
+
+    // Anything in the link that couldn't be used is reported once its pins are resolved
+    const pinFromLink = (catalogue: City[]) => {
+      const { cities: found, missing } = resolveSharePins(share.pins, catalogue);
+      if (found.length) setPinnedCities(found);
+      const problems = [...share.problems];
+      if (missing.length) {
+        problems.push(`Couldn't find ${missing.map((key) => `“${key}”`).join(", ")} from the link`);
       }
+      if (problems.length) setNotice(problems.join(" · "));
+    };
+
+    // Curated cities resolve straight away; ids from the world dataset wait for it to load
+    const needsWorld = linked && share.pins.some((pin) => "key" in pin && !findCity(pin.key));
+    if (linked && !needsWorld) pinFromLink(CITIES);
+    else if (!linked && share.problems.length) setNotice(share.problems.join(" · "));
+    // Otherwise the world dataset waits until someone starts searching
+    if (needsWorld) {
+      loadWorldCities().then(
+        (all) => {
+          setCities(all);
+          pinFromLink(all);
+        },
+        () => pinFromLink(CITIES)
+      );
     }
 
+    const initialHome = share.homeTz ?? restored?.homeTz ?? browserTz;
+    if (initialHome) setHomeTz(initialHome);
+    if (share.at !== null) setScrubAt(share.at);
+
     return () => clearInterval(id);
   }, []);
 
@@ -103,17 +328,70 @@ export function TimezoneExplorer() {
     localStorage.setItem("tz-theme", theme);
   }, [theme, mounted]);
 
-  // Sync state to URL
+  // Auto-dismiss the notice toast — longer ones, like problems with a link, stay up longer
+  useEffect(() => {
+    if (!notice) return;
+    const id = setTimeout(() => setNotice(null), Math.max(3000, notice.length * 60));
+    return () => clearTimeout(id);
+  }, [notice]);
+
+  // Sync working hours to localStorage
   useEffect(() => {
     if (!mounted) return;
-    const parts: string[] = [];
-    if (pinnedCities.length > 0) {
-      parts.push(`compare=${pinnedCities.map((c) => c.name.replace(/ /g, "%20")).join(",")}`);
-    }
-    parts.push(`home=${homeTz}`);
-    window.history.replaceState(null, "", `${window.location.pathname}?${parts.join("&")}`);
+    localStorage.setItem("tz-work-hours", JSON.stringify(workHours));
+  }, [workHours, mounted]);
+
+  // Sync custom places to localStorage
+  useEffect(() => {
+    if (!mounted) return;
+    localStorage.setItem(CUSTOM_STORAGE_KEY, JSON.stringify(customLocations));
+  }, [customLocations, mounted]);
+
+  // Sync the team roster to localStorage
+  useEffect(() => {
+    if (!mounted) return;
+    localStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(roster));
+  }, [roster, mounted]);
+
+  // Sync map customisation to localStorage
+  useEffect(() => {
+    if (!mounted) return;
+    localStorage.setItem(MAP_STORAGE_KEY, JSON.stringify({ hidden: [...hiddenCities], extra: extraCities }));
+  }, [hiddenCities, extraCities, mounted]);
+
+  // Sync the comparison to localStorage so a plain visit picks up where the last one left off
+  useEffect(() => {
+    if (!mounted) return;
+    localStorage.setItem(LAST_COMPARISON_STORAGE_KEY, JSON.stringify({ pinnedCities, homeTz }));
   }, [pinnedCities, homeTz, mounted]);
 
+  // Sync workspaces to localStorage
+  useEffect(() => {
+    if (!mounted) return;
+    localStorage.setItem(
+      WORKSPACES_STORAGE_KEY,
+      JSON.stringify({ activeId: activeWorkspaceId, workspaces: liveWorkspaces })
+    );
+  }, [liveWorkspaces, activeWorkspaceId, mounted]);
+
+  // Sync state to URL
+  useEffect(() => {
+    if (!mounted) return;
+    const search = encodeShareState({ pinnedCities, homeTz, at: scrubAt, hiddenCities: [...hiddenCities] });
+    window.history.replaceState(null, "", `${window.location.pathname}${search}`);
+  }, [pinnedCities, homeTz, scrubAt, hiddenCities, mounted]);
+
+  const shareUrlFor = useCallback(
+    (at: number) =>
+      `${window.location.origin}${window.location.pathname}${encodeShareState({
+        pinnedCities,
+        homeTz,
+        at,
+        hiddenCities: [...hiddenCities],
+      })}`,
+    [pinnedCities, homeTz, hiddenCities]
+  );
+
   // Clear hover/tooltip with a short delay so the user can move the mouse to the tooltip
   const scheduleDismiss = useCallback(() => {
     if (hoverDismissTimer.current) clearTimeout(hoverDismissTimer.current);
@@ -130,10 +408,11 @@ export function TimezoneExplorer() {
     }
   }, []);
 
-  // City hover handler — computes tooltip position in viewport (fixed) coordinates
+  // City hover handler — the map reports the dot's position in viewport (fixed)
+  // coordinates, already accounting for zoom and pan
   const handleCityHover = useCallback(
-    (city: City | null, svgRect: DOMRect | null) => {
-      if (!city || !svgRect || now === null) {
+    (city: City | null, anchor: { x: number; y: number } | null) => {
+      if (!city || !anchor || instant === null) {
         // Leaving a dot — schedule delayed dismiss
         scheduleDismiss();
         return;
@@ -141,33 +420,177 @@ export function TimezoneExplorer() {
       // Entering a dot — cancel any pending dismiss and show immediately
       cancelDismiss();
       setHoveredCity(city);
-      const coords = projection([city.lon, city.lat]);
-      if (!coords) return;
-      const [x, y] = coords;
-      const viewportX = svgRect.left + (x / MAP_WIDTH) * svgRect.width;
-      const viewportY = svgRect.top + (y / MAP_HEIGHT) * svgRect.height;
-      const time = DateTime.fromMillis(now).setZone(city.tz).toFormat("HH:mm");
-      setTooltip({ city, x: viewportX, y: viewportY, time });
+      const time = DateTime.fromMillis(instant).setZone(city.tz).toFormat("HH:mm");
+      setTooltip({ city, x: anchor.x, y: anchor.y, time });
     },
-    [projection, now, scheduleDismiss, cancelDismiss]
+    [instant, scheduleDismiss, cancelDismiss]
   );
 
   const handleCityPin = useCallback((city: City) => {
     setPinnedCities((prev) => {
-      const exists = prev.findIndex((c) => c.name === city.name);
+      const exists = prev.findIndex((c) => c.id === city.id);
       if (exists >= 0) return prev.filter((_, i) => i !== exists);
-      if (prev.length >= 4) return prev; // max 4
       return [...prev, city];
     });
     // Unhide the city if it was previously removed from the map
     setHiddenCities((prev) => {
-      if (!prev.has(city.name)) return prev;
+      if (!prev.has(city.id)) return prev;
       const next = new Set(prev);
-      next.delete(city.name);
+      next.delete(city.id);
       return next;
     });
   }, []);
 
+  // The generated world dataset is only fetched once search or the converter is used;
+  // repeat calls share the first load
+  const loadAllCities = useCallback(() => {
+    loadWorldCities().then(setCities, () => {
+      // keep searching the curated list; the next focus retries
+    });
+  }, []);
+
+  // Add or update a custom place; pinned copies pick up the edit
+  const handleSaveCustom = useCallback((loc: CustomLocation) => {
+    setCustomLocations((prev) =>
+      prev.some((l) => l.id === loc.id) ? prev.map((l) => (l.id === loc.id ? loc : l)) : [...prev, loc]
+    );
+    setPinnedCities((prev) => prev.map((c) => (c.id === loc.id ? customToCity(loc) : c)));
+  }, []);
+
+  const handleDeleteCustom = useCallback((id: string) => {
+    setCustomLocations((prev) => prev.filter((l) => l.id !== id));
+    setPinnedCities((prev) => prev.filter((c) => c.id !== id));
+  }, []);
+
+  const handleSaveTeammate = useCallback((teammate: Teammate) => {
+    setRoster((prev) =>
+      prev.some((t) => t.id === teammate.id)
+        ? prev.map((t) => (t.id === teammate.id ? teammate : t))
+        : [...prev, teammate]
+    );
+  }, []);
+
+  const handleDeleteTeammate = useCallback((id: string) => {
+    setRoster((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  // ── Workspaces ──
+  // Handlers start from liveWorkspaces so the active one keeps its latest edits
+
+  const applyWorkspace = useCallback((w: Workspace) => {
+    setPinnedCities(w.pinnedCities);
+    setHomeTz(w.homeTz);
+    setHiddenCities(new Set(w.hiddenCities));
+    setTheme(w.theme);
+    setHighlightedCities([]);
+  }, []);
+
+  const handleSaveWorkspace = useCallback(
+    (name: string) => {
+      const w: Workspace = {
+        id: createWorkspaceId(),
+        name: uniqueWorkspaceName(name, liveWorkspaces),
+        pinnedCities,
+        homeTz,
+        hiddenCities: [...hiddenCities],
+        theme,
+      };
+      setWorkspaces([...liveWorkspaces, w]);
+      setActiveWorkspaceId(w.id);
+      setNotice(`Saved workspace “${w.name}”`);
+    },
+    [liveWorkspaces, pinnedCities, homeTz, hiddenCities, theme]
+  );
+
+  const handleSwitchWorkspace = useCallback(
+    (id: string) => {
+      const w = liveWorkspaces.find((w) => w.id === id);
+      if (!w) return;
+      setWorkspaces(liveWorkspaces);
+      setActiveWorkspaceId(id);
+      applyWorkspace(w);
+    },
+    [liveWorkspaces, applyWorkspace]
+  );
+
+  const handleRenameWorkspace = useCallback(
+    (id: string, name: string) => {
+      const others = liveWorkspaces.filter((w) => w.id !== id);
+      setWorkspaces(liveWorkspaces.map((w) => (w.id === id ? { ...w, name: uniqueWorkspaceName(name, others) } : w)));
+    },
+    [liveWorkspaces]
+  );
+
+  const handleDuplicateWorkspace = useCallback(
+    (id: string) => {
+      const index = liveWorkspaces.findIndex((w) => w.id === id);
+      if (index === -1) return;
+      const source = liveWorkspaces[index];
+      const copy = {
+        ...source,
+        id: createWorkspaceId(),
+        name: uniqueWorkspaceName(`${source.name} copy`, liveWorkspaces),
+      };
+      setWorkspaces([...liveWorkspaces.slice(0, index + 1), copy, ...liveWorkspaces.slice(index + 1)]);
+    },
+    [liveWorkspaces]
+  );
+
+  // Deleting the active workspace keeps its pins on screen, just unsaved
+  const handleDeleteWorkspace = useCallback(
+    (id: string) => {
+      setWorkspaces(liveWorkspaces.filter((w) => w.id !== id));
+      if (id === activeWorkspaceId) setActiveWorkspaceId(null);
+    },
+    [liveWorkspaces, activeWorkspaceId]
+  );
+
+  const handleImportWorkspaces = useCallback(
+    (text: string) => {
+      const result = importWorkspaces(text, liveWorkspaces);
+      if ("error" in result) {
+        setNotice(result.error);
+        return;
+      }
+      setWorkspaces([...liveWorkspaces, ...result.workspaces]);
+      const count = result.workspaces.length;
+      setNotice(
+        `Imported ${count} workspace${count === 1 ? "" : "s"}` +
+          (result.skipped ? ` (${result.skipped} unreadable skipped)` : "")
+      );
+    },
+    [liveWorkspaces]
+  );
+
+  // Timezone band picked from the location popover — pin a representative city with that offset,
+  // preferring featured cities and skipping ones already pinned
+  const handleZoneClick = useCallback(
+    (offset: number) => {
+      if (instant === null) return;
+      const at = DateTime.fromMillis(instant);
+      const candidates = CITIES.filter(
+        (c) => at.setZone(c.tz).offset === offset && !pinnedCities.some((p) => p.id === c.id)
+      );
+      const city = candidates.find((c) => FEATURED_CITY_IDS.has(c.id)) ?? candidates[0];
+      if (city) handleCityPin(city);
+      else setNotice(`Every city at ${formatOffset(offset)} is already pinned`);
+    },
+    [instant, pinnedCities, handleCityPin]
+  );
+
+  // Click on empty map space — resolve the timezone there and offer to pin it, or a city
+  // sharing the offset band that was clicked
+  const handleMapClick = useCallback(
+    (lat: number, lon: number, x: number, y: number, zoneOffset: number | null) => {
+      const city = resolveLocation(lat, lon);
+      if (!city) return;
+      setTooltip(null);
+      setHoveredCity(null);
+      setDraftLocation({ city, x, y, zoneOffset });
+    },
+    []
+  );
+
   const handleShare = useCallback(async () => {
     try {
       await navigator.clipboard.writeText(window.location.href);
@@ -188,10 +611,10 @@ export function TimezoneExplorer() {
 
   // Derived time for the hovered city panel
   const hoveredDerived = useMemo(() => {
-    if (!now || !hoveredCity) return null;
+    if (!instant || !hoveredCity) return null;
     try {
-      const zoneTime = DateTime.fromMillis(now).setZone(hoveredCity.tz);
-      const homeTime = DateTime.fromMillis(now).setZone(homeTz);
+      const zoneTime = DateTime.fromMillis(instant).setZone(hoveredCity.tz);
+      const homeTime = DateTime.fromMillis(instant).setZone(homeTz);
       const diffMinutes = zoneTime.offset - homeTime.offset;
       return {
         zoneTime,
@@ -204,22 +627,25 @@ export function TimezoneExplorer() {
         displayDate: zoneTime.toFormat("dd LLL yyyy"),
         homeTzAbbrev: homeTime.offsetNameShort ?? "",
         homeDisplayTime: homeTime.toFormat("HH:mm:ss"),
+        isDaytime: isSunUp(hoveredCity.lat, hoveredCity.lon, instant),
+        sun: describeSun(hoveredCity, zoneTime),
+        holiday: holidayOn(holidayCountry(hoveredCity), zoneTime),
       };
     } catch {
       return null;
     }
-  }, [hoveredCity, now, homeTz]);
+  }, [hoveredCity, instant, homeTz]);
 
   // Derived times for all pinned cities
   const pinnedDerived = useMemo(() => {
-    if (!now) return [];
+    if (!instant) return [];
     return pinnedCities.flatMap((city) => {
       try {
-        const zoneTime = DateTime.fromMillis(now).setZone(city.tz);
-        const homeTime = DateTime.fromMillis(now).setZone(homeTz);
+        const zoneTime = DateTime.fromMillis(instant).setZone(city.tz);
+        const homeTime = DateTime.fromMillis(instant).setZone(homeTz);
         const diffMinutes = zoneTime.offset - homeTime.offset;
-        const h = zoneTime.hour;
-        const isDaytime = h >= 6 && h < 20;
+        const isDaytime = isSunUp(city.lat, city.lon, instant);
+        const isWorkingHours = isWorkingTime(zoneTime, profileForCity(city, workHours));
         return [
           {
             city,
@@ -231,19 +657,63 @@ export function TimezoneExplorer() {
             displayTime: zoneTime.toFormat("HH:mm:ss"),
             displayDate: zoneTime.toFormat("dd LLL yyyy"),
             isDaytime,
+            isWorkingHours,
+            sun: describeSun(city, zoneTime),
+            holiday: holidayOn(holidayCountry(city), zoneTime),
           },
         ];
       } catch {
         return [];
       }
     });
-  }, [pinnedCities, now, homeTz]);
+  }, [pinnedCities, instant, homeTz, workHours]);
+
+  // Team statuses on the same tick as the pinned cities, so scrubbing moves them too
+  const teamStates = useMemo(
+    () => (instant ? rosterStates(roster, instant) : []),
+    [roster, instant]
+  );
+
+  const teamAvatars = useMemo<MapAvatar[]>(
+    () =>
+      teamStates.map(({ teammate, local, status }) => ({
+        key: teammate.id,
+        initials: initials(teammate.name),
+        title: `${teammate.name} · ${teammatePlace(teammate)} ${local.toFormat("HH:mm")}`,
+        ...teammateCoords(teammate),
+        status,
+      })),
+    [teamStates]
+  );
+
+  // Home + pinned cities as meeting participants with their working-hour profiles
+  const participants = useMemo<Participant[]>(
+    () => [
+      {
+        key: "__home",
+        label: homeTz.split("/").pop()?.replace(/_/g, " ") ?? homeTz,
+        tz: homeTz,
+        profile: profileForZone(homeTz, workHours),
+        country: countryForZone(homeTz),
+      },
+      ...pinnedCities.map((city) => ({
+        key: city.id,
+        label: city.name,
+        tz: city.tz,
+        profile: profileForCity(city, workHours),
+        country: holidayCountry(city),
+      })),
+    ],
+    [pinnedCities, homeTz, workHours]
+  );
+
+  const finderFrom = now === null ? null : Math.floor(now / FINDER_GRANULARITY_MS) * FINDER_GRANULARITY_MS;
 
   // Home time
   const homeDerived = useMemo(() => {
-    if (!now) return null;
+    if (!instant) return null;
     try {
-      const homeTime = DateTime.fromMillis(now).setZone(homeTz);
+      const homeTime = DateTime.fromMillis(instant).setZone(homeTz);
       return {
         displayTime: homeTime.toFormat("HH:mm:ss"),
         displayDate: homeTime.toFormat("dd LLL yyyy"),
@@ -256,10 +726,72 @@ export function TimezoneExplorer() {
     } catch {
       return null;
     }
-  }, [now, homeTz]);
+  }, [instant, homeTz]);
+
+  const effectiveLayout: CompareLayout =
+    compareLayout ?? (pinnedCities.length > CARD_COLUMNS ? "table" : "cards");
 
   const homeTzLabel = homeTz.split("/").pop()?.replace(/_/g, " ") ?? homeTz;
 
+  // Offset transitions only need recomputing once an hour of (live or scrubbed) time
+  const transitionFrom = instant === null ? null : Math.floor(instant / 3600000) * 3600000;
+
+  // Next offset change per zone, for home and every pinned city
+  const nextTransitions = useMemo(() => {
+    const map = new Map<string, OffsetTransition | null>();
+    if (transitionFrom === null) return map;
+    for (const tz of new Set([homeTz, ...pinnedCities.map((c) => c.tz)])) {
+      map.set(tz, nextOffsetTransition(tz, transitionFrom));
+    }
+    return map;
+  }, [homeTz, pinnedCities, transitionFrom]);
+
+  const hoveredTransition = useMemo(
+    () =>
+      hoveredCity && transitionFrom !== null
+        ? nextOffsetTransition(hoveredCity.tz, transitionFrom)
+        : null,
+    [hoveredCity, transitionFrom]
+  );
+
+  // Pinned cities whose difference from home is about to change
+  const dstWarnings = useMemo(() => {
+    if (transitionFrom === null) return [];
+    const to = transitionFrom + DST_WARNING_WEEKS * 7 * 86400000;
+    return pinnedCities.flatMap((city) =>
+      diffChanges(city.tz, homeTz, transitionFrom, to).map((change) => ({
+        key: `${city.id}-${change.at}`,
+        text: `${city.name} vs ${homeTzLabel} goes from ${formatDiff(change.fromDiff)} to ${formatDiff(change.toDiff)} on ${DateTime.fromMillis(change.at).setZone(homeTz).toFormat("d LLL")}`,
+      }))
+    );
+  }, [pinnedCities, homeTz, homeTzLabel, transitionFrom]);
+
+  // Public holidays coming up where home and the pinned cities are, one line per country
+  const holidayWarnings = useMemo(() => {
+    if (transitionFrom === null) return [];
+    const places = new Map<string, { tz: string; names: string[] }>();
+    const add = (code: string | null, tz: string, name: string) => {
+      if (!code) return;
+      const entry = places.get(code);
+      if (!entry) places.set(code, { tz, names: [name] });
+      else if (!entry.names.includes(name)) entry.names.push(name);
+    };
+    add(countryForZone(homeTz), homeTz, `${homeTzLabel} (home)`);
+    for (const city of pinnedCities) add(holidayCountry(city), city.tz, city.name);
+
+    return Array.from(places, ([code, { tz, names }]) => {
+      const from = DateTime.fromMillis(transitionFrom).setZone(tz);
+      const holidays = holidaysBetween(code, from, from.plus({ weeks: HOLIDAY_WARNING_WEEKS }));
+      const country = CITIES.find((c) => c.countryCode === code)?.country ?? code;
+      return {
+        key: code,
+        place: `${country} (${names.join(", ")})`,
+        text: holidays.map((h) => `${h.name} ${DateTime.fromISO(h.date).toFormat("ccc d LLL")}`).join(", "),
+        count: holidays.length,
+      };
+    }).filter((w) => w.count > 0);
+  }, [pinnedCities, homeTz, homeTzLabel, transitionFrom]);
+
   return (
     <div className="min-h-screen dark:bg-slate-950 bg-slate-100 dark:text-white text-slate-900 transition-colors duration-300">
       <div className="mx-auto max-w-6xl px-4 py-6 space-y-5">
@@ -272,7 +804,7 @@ export function TimezoneExplorer() {
                 WhenWhere
               </h1>
               <p className="text-sm dark:text-slate-400 text-slate-500 mt-0.5">
-                <span className="hidden sm:inline">Hover</span><span className="sm:hidden">Tap</span> to preview · Click to pin · Compare up to 4 cities
+                <span className="hidden sm:inline">Hover</span><span className="sm:hidden">Tap</span> to preview · Click to pin · Click anywhere for its timezone
               </p>
             </div>
             <div className="flex items-center gap-2 sm:hidden">
@@ -321,8 +853,45 @@ export function TimezoneExplorer() {
               onSelect={handleCityPin}
               onHighlight={setHighlightedCities}
               pinnedCities={pinnedCities}
+              cities={searchableCities}
+              homeTz={homeTz}
+              onFocus={loadAllCities}
+            />
+            <TimeConverter
+              homeTz={homeTz}
+              pinnedCities={pinnedCities}
+              cities={searchableCities}
+              onJump={setScrubAt}
+              onFocus={loadAllCities}
             />
             <HomeTimezonePicker value={homeTz} onChange={setHomeTz} />
+            <CustomLocations
+              locations={customLocations}
+              pinnedCities={pinnedCities}
+              homeTz={homeTz}
+              instant={instant}
+              onSave={handleSaveCustom}
+              onDelete={handleDeleteCustom}
+              onPin={handleCityPin}
+            />
+            <TeamMenu
+              roster={roster}
+              cities={searchableCities}
+              homeTz={homeTz}
+              workHours={workHours}
+              onSave={handleSaveTeammate}
+              onDelete={handleDeleteTeammate}
+            />
+            <WorkspaceMenu
+              workspaces={liveWorkspaces}
+              activeId={activeWorkspaceId}
+              onSaveAs={handleSaveWorkspace}
+              onSwitch={handleSwitchWorkspace}
+              onRename={handleRenameWorkspace}
+              onDuplicate={handleDuplicateWorkspace}
+              onDelete={handleDeleteWorkspace}
+              onImport={handleImportWorkspaces}
+            />
             {/* Theme toggle — desktop only, inline with controls */}
             <button
               onClick={() => setTheme((t) => (t === "dark" ? "light" : "dark"))}
@@ -359,21 +928,70 @@ export function TimezoneExplorer() {
         >
           {mounted ? (
             <WorldMap
+              instant={instant}
               cities={visibleCities}
+              backgroundCities={backgroundCities}
               hoveredCity={hoveredCity}
               pinnedCities={pinnedCities}
-              highlightedCities={highlightedCities}
+              highlightedCities={mapHighlighted}
               onCityHover={handleCityHover}
               onCityClick={handleCityPin}
+              onMapClick={handleMapClick}
+              showZones={showZones}
+              activeOffset={hoveredOffset}
+              onZoneHover={setHoveredOffset}
+              avatars={teamAvatars}
             />
           ) : (
             <div className="w-full h-full animate-pulse dark:bg-slate-800/40 bg-slate-200/60 rounded-3xl" />
           )}
+
+          {/* Map layer toggle + hovered band label */}
+          {mounted && (
+            <div className="absolute top-3 right-3 flex items-center gap-2">
+              {showZones && hoveredOffset !== null && zoneCities && (
+                <span className="rounded-lg dark:bg-slate-950/80 bg-white/90 px-2 py-1 text-xs dark:text-slate-200 text-slate-700 backdrop-blur">
+                  {formatOffset(hoveredOffset)} · {zoneCities.length} {zoneCities.length === 1 ? "city" : "cities"}
+                </span>
+              )}
+              <button
+                onClick={() => {
+                  setShowZones((v) => !v);
+                  setHoveredOffset(null);
+                }}
+                className={cn(
+                  "flex items-center gap-1.5 rounded-lg border px-2 py-1 text-xs backdrop-blur transition-colors",
+                  showZones
+                    ? "dark:border-sky-400/40 border-sky-300 dark:bg-sky-400/15 bg-sky-50 dark:text-sky-300 text-sky-700"
+                    : "dark:border-white/10 border-slate-200 dark:bg-slate-950/60 bg-white/80 dark:text-slate-300 text-slate-600"
+                )}
+                aria-pressed={showZones}
+                aria-label="Toggle timezone layer"
+              >
+                <Layers className="h-3.5 w-3.5" />
+                Time zones
+              </button>
+              {(hiddenCities.size > 0 || extraCities.length > 0) && (
+                <button
+                  onClick={() => {
+                    setHiddenCities(new Set());
+                    setExtraCities([]);
+                  }}
+                  className="flex items-center gap-1.5 rounded-lg border px-2 py-1 text-xs backdrop-blur transition-colors dark:border-white/10 border-slate-200 dark:bg-slate-950/60 bg-white/80 dark:text-slate-300 text-slate-600"
+                  aria-label="Reset map to default cities"
+                  title="Show every featured city again and drop the ones you kept"
+                >
+                  <RotateCcw className="h-3.5 w-3.5" />
+                  Reset map
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* ── Map tooltip (fixed so it isn't clipped by overflow-hidden) ── */}
         {tooltip && (() => {
-          const isPinned = pinnedCities.some((c) => c.name === tooltip.city.name);
+          const isPinned = pinnedCities.some((c) => c.id === tooltip.city.id);
           return (
             <div
               className="fixed z-50 rounded-xl border dark:border-white/15 border-slate-200 dark:bg-slate-950/90 bg-white/95 px-3 py-2 text-sm shadow-xl backdrop-blur"
@@ -388,14 +1006,20 @@ export function TimezoneExplorer() {
               onMouseLeave={scheduleDismiss}
             >
               <div className="flex items-center gap-2">
-                <span className="font-semibold dark:text-white text-slate-900">{tooltip.city.name}</span>
+                <span className="font-semibold dark:text-white text-slate-900">
+                  {tooltip.city.name}
+                  {tooltip.city.person && (
+                    <span className="font-normal dark:text-slate-400 text-slate-500"> · {tooltip.city.person}</span>
+                  )}
+                </span>
                 <button
                   onClick={() => {
-                    const name = tooltip.city.name;
+                    const id = tooltip.city.id;
                     // Unpin if pinned
                     if (isPinned) handleCityPin(tooltip.city);
                     // Hide from map
-                    setHiddenCities((prev) => new Set(prev).add(name));
+                    setHiddenCities((prev) => new Set(prev).add(id));
+                    setExtraCities((prev) => prev.filter((c) => c.id !== id));
                     setTooltip(null);
                     setHoveredCity(null);
                   }}
@@ -409,10 +1033,64 @@ export function TimezoneExplorer() {
               {!isPinned && (
                 <div className="text-sky-500 dark:text-sky-400 text-xs mt-0.5">Click to compare</div>
               )}
+              {!FEATURED_CITY_IDS.has(tooltip.city.id) &&
+                !isCustomLocation(tooltip.city) &&
+                !extraCities.some((c) => c.id === tooltip.city.id) && (
+                  <button
+                    onClick={() => {
+                      setExtraCities((prev) => [...prev, tooltip.city]);
+                      setHiddenCities((prev) => {
+                        const next = new Set(prev);
+                        next.delete(tooltip.city.id);
+                        return next;
+                      });
+                    }}
+                    className="text-xs mt-0.5 dark:text-slate-400 text-slate-500 hover:underline"
+                  >
+                    Keep on map
+                  </button>
+                )}
             </div>
           );
         })()}
 
+        {/* ── Time scrubber ── */}
+        {mounted && now !== null && (
+          <TimeScrubber now={now} at={scrubAt} homeTz={homeTz} onChange={setScrubAt} />
+        )}
+
+        {/* ── Team ── */}
+        {mounted && instant !== null && teamStates.length > 0 && (
+          <TeamPanel states={teamStates} instant={instant} />
+        )}
+
+        {/* ── Ad-hoc location popover ── */}
+        {draftLocation && instant !== null && (
+          <LocationPopover
+            key={`${draftLocation.city.lat},${draftLocation.city.lon}`}
+            location={draftLocation.city}
+            x={draftLocation.x}
+            y={draftLocation.y}
+            instant={instant}
+            onPin={(city) => {
+              handleCityPin(city);
+              setDraftLocation(null);
+            }}
+            onSave={(city) => {
+              const loc = { id: createCustomId(), label: city.name, tz: city.tz, lat: city.lat, lon: city.lon };
+              handleSaveCustom(loc);
+              handleCityPin(customToCity(loc));
+              setDraftLocation(null);
+            }}
+            zoneOffset={draftLocation.zoneOffset}
+            onPinOffset={(offset) => {
+              handleZoneClick(offset);
+              setDraftLocation(null);
+            }}
+            onClose={() => setDraftLocation(null)}
+          />
+        )}
+
         {/* ── Hovered city panel ── */}
         {mounted && (
           <div
@@ -430,10 +1108,16 @@ export function TimezoneExplorer() {
                   <div className="text-xs uppercase tracking-widest dark:text-slate-400 text-slate-500">
                     Hovering
                   </div>
-                  <div className="text-xl font-semibold">{hoveredCity.name}</div>
+                  <div className="text-xl font-semibold">
+                    {hoveredCity.name}{" "}
+                    <span className="text-base" aria-label={hoveredDerived.isDaytime ? "Daytime" : "Nighttime"}>
+                      {hoveredDerived.isDaytime ? "☀️" : "🌙"}
+                    </span>
+                  </div>
                   <div className="text-sm dark:text-slate-400 text-slate-500">
                     {hoveredCity.tz} · {hoveredDerived.abbrev} · {hoveredDerived.utcOffset}
                   </div>
+                  {hoveredDerived.holiday && <HolidayBadge holiday={hoveredDerived.holiday} />}
                   <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-6 gap-y-1 mt-3 text-sm">
                     <div>
                       <span className="dark:text-slate-400 text-slate-500">Local time </span>
@@ -458,6 +1142,40 @@ export function TimezoneExplorer() {
                         {hoveredDerived.diff}
                       </span>
                     </div>
+                    {hoveredDerived.sun.polar ? (
+                      <div>
+                        <span className="dark:text-slate-400 text-slate-500">Sun </span>
+                        <span className="font-semibold">
+                          {hoveredDerived.sun.polar === "day" ? "Midnight sun" : "Polar night"}
+                        </span>
+                      </div>
+                    ) : (
+                      <>
+                        <div>
+                          <span className="dark:text-slate-400 text-slate-500">Sunrise </span>
+                          <span className="font-mono font-semibold">{hoveredDerived.sun.sunrise}</span>
+                        </div>
+                        <div>
+                          <span className="dark:text-slate-400 text-slate-500">Sunset </span>
+                          <span className="font-mono font-semibold">{hoveredDerived.sun.sunset}</span>
+                        </div>
+                      </>
+                    )}
+                    <div>
+                      <span className="dark:text-slate-400 text-slate-500">Daylight </span>
+                      <span className="font-semibold">{hoveredDerived.sun.dayLength}</span>
+                      <span className="dark:text-slate-500 text-slate-400 text-xs">
+                        {" "}· noon {hoveredDerived.sun.solarNoon}
+                      </span>
+                    </div>
+                    {hoveredTransition && (
+                      <div className="col-span-2 sm:col-span-3">
+                        <span className="dark:text-slate-400 text-slate-500">Next clock change </span>
+                        <span className="font-semibold">
+                          {describeTransition(hoveredTransition, hoveredCity.tz)}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
                 <AnalogClock
@@ -485,6 +1203,14 @@ export function TimezoneExplorer() {
                       {homeDerived.displayDate}
                     </span>
                   </div>
+                  {nextTransitions.get(homeTz) && (
+                    <div className="text-sm">
+                      <span className="dark:text-slate-400 text-slate-500">Next clock change </span>
+                      <span className="font-semibold">
+                        {describeTransition(nextTransitions.get(homeTz)!, homeTz)}
+                      </span>
+                    </div>
+                  )}
                 </div>
                 <AnalogClock
                   hour={homeDerived.hour}
@@ -504,113 +1230,227 @@ export function TimezoneExplorer() {
           <div className="space-y-3">
             <div className="flex items-center justify-between">
               <h2 className="text-sm font-semibold uppercase tracking-widest dark:text-slate-400 text-slate-500">
-                Comparing {pinnedCities.length} / 4
+                Comparing {pinnedCities.length}
               </h2>
-              <button
-                onClick={() => setPinnedCities([])}
-                className="flex items-center gap-1.5 text-xs dark:text-slate-400 text-slate-500 dark:hover:text-red-400 hover:text-red-500 transition-colors"
-                aria-label="Clear all pinned cities"
-              >
-                <Trash2 className="h-3.5 w-3.5" />
-                Clear all
-              </button>
-            </div>
-
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
-              {pinnedDerived.map((d) => (
-                <div
-                  key={d.city.name}
-                  className={cn(
-                    "relative rounded-2xl border p-4 space-y-3 transition-colors",
-                    "dark:border-white/10 border-slate-200",
-                    "dark:bg-white/[0.03] bg-white",
-                    d.isDaytime
-                      ? "dark:shadow-[inset_0_1px_0_rgba(255,255,255,0.06)]"
-                      : "dark:shadow-[inset_0_1px_0_rgba(0,0,0,0.2)]"
+              <div className="flex items-center gap-3">
+                {instant !== null && now !== null && (
+                  <InviteExport
+                    instant={instant}
+                    homeTz={homeTz}
+                    homeLabel={homeTzLabel}
+                    pinnedCities={pinnedCities}
+                    now={now}
+                  />
+                )}
+                <button
+                  onClick={() => setCompareLayout(effectiveLayout === "cards" ? "table" : "cards")}
+                  className="flex items-center gap-1.5 text-xs dark:text-slate-400 text-slate-500 dark:hover:text-sky-400 hover:text-sky-500 transition-colors"
+                  aria-label={`Switch to ${effectiveLayout === "cards" ? "table" : "card"} layout`}
+                >
+                  {effectiveLayout === "cards" ? (
+                    <List className="h-3.5 w-3.5" />
+                  ) : (
+                    <LayoutGrid className="h-3.5 w-3.5" />
                   )}
+                  {effectiveLayout === "cards" ? "Table" : "Cards"}
+                </button>
+                <button
+                  onClick={() => setPinnedCities([])}
+                  className="flex items-center gap-1.5 text-xs dark:text-slate-400 text-slate-500 dark:hover:text-red-400 hover:text-red-500 transition-colors"
+                  aria-label="Clear all pinned cities"
                 >
-                  {/* Remove button */}
-                  <button
-                    onClick={() => handleCityPin(d.city)}
-                    className="absolute top-3 right-3 p-0.5 rounded-lg dark:text-slate-500 text-slate-400 dark:hover:text-red-400 hover:text-red-500 dark:hover:bg-white/5 hover:bg-slate-100 transition-colors"
-                    aria-label={`Remove ${d.city.name} from comparison`}
-                  >
-                    <X className="h-3.5 w-3.5" />
-                  </button>
+                  <Trash2 className="h-3.5 w-3.5" />
+                  Clear all
+                </button>
+              </div>
+            </div>
 
-                  {/* Day/Night indicator */}
-                  <div className="flex items-center gap-2">
-                    <span
-                      className={cn(
-                        "text-base",
-                        d.isDaytime ? "opacity-100" : "opacity-60"
-                      )}
-                      aria-label={d.isDaytime ? "Daytime" : "Nighttime"}
-                    >
-                      {d.isDaytime ? "☀️" : "🌙"}
-                    </span>
-                    <span className="font-semibold text-sm truncate pr-4">{d.city.name}</span>
-                  </div>
+            {/* Upcoming changes to the home-relative difference */}
+            {dstWarnings.length > 0 && (
+              <div className="flex items-start gap-2 rounded-2xl border px-4 py-3 text-sm dark:border-amber-400/30 border-amber-300 dark:bg-amber-400/5 bg-amber-50 dark:text-amber-200 text-amber-700">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <ul className="space-y-0.5">
+                  {dstWarnings.map((w) => (
+                    <li key={w.key}>{w.text}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
 
-                  {/* Analog clock */}
-                  <div className="flex justify-center">
-                    <AnalogClock
-                      hour={d.zoneTime.hour}
-                      minute={d.zoneTime.minute}
-                      second={d.zoneTime.second}
-                      size={72}
-                    />
-                  </div>
+            {/* Public holidays over the next few weeks */}
+            {holidayWarnings.length > 0 && (
+              <div className="flex items-start gap-2 rounded-2xl border px-4 py-3 text-sm dark:border-fuchsia-400/30 border-fuchsia-300 dark:bg-fuchsia-400/5 bg-fuchsia-50 dark:text-fuchsia-200 text-fuchsia-700">
+                <PartyPopper className="h-4 w-4 mt-0.5 shrink-0" />
+                <ul className="space-y-0.5">
+                  {holidayWarnings.map((w) => (
+                    <li key={w.key}>
+                      <span className="font-medium">{w.place}:</span> {w.text}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
 
-                  {/* Time details */}
-                  <div className="space-y-1.5 text-xs">
-                    <div className="font-mono text-base font-semibold tracking-tight text-center">
-                      {d.displayTime}
-                    </div>
-                    <div className="text-center dark:text-slate-400 text-slate-500 text-[11px]">
-                      {d.displayDate}
-                    </div>
-                    <div className="flex items-center justify-between pt-1 border-t dark:border-white/5 border-slate-100">
-                      <span className="dark:text-slate-400 text-slate-500">{d.utcOffset}</span>
+            {effectiveLayout === "table" ? (
+              <CompareTable rows={pinnedDerived} onRemove={handleCityPin} />
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                {pinnedDerived.map((d) => (
+                  <div
+                    key={d.city.id}
+                    className={cn(
+                      "relative rounded-2xl border p-4 space-y-3 transition-colors",
+                      "dark:border-white/10 border-slate-200",
+                      "dark:bg-white/[0.03] bg-white",
+                      d.isDaytime
+                        ? "dark:shadow-[inset_0_1px_0_rgba(255,255,255,0.06)]"
+                        : "dark:shadow-[inset_0_1px_0_rgba(0,0,0,0.2)]"
+                    )}
+                  >
+                    {/* Remove button */}
+                    <button
+                      onClick={() => handleCityPin(d.city)}
+                      className="absolute top-3 right-3 p-0.5 rounded-lg dark:text-slate-500 text-slate-400 dark:hover:text-red-400 hover:text-red-500 dark:hover:bg-white/5 hover:bg-slate-100 transition-colors"
+                      aria-label={`Remove ${d.city.name} from comparison`}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+
+                    {/* Day/Night indicator */}
+                    <div className="flex items-center gap-2">
                       <span
                         className={cn(
-                          "font-medium",
-                          d.diff === "same time"
-                            ? "text-green-500"
-                            : d.diffMinutes > 0
-                              ? "text-sky-500"
-                              : "text-orange-400"
+                          "text-base",
+                          d.isDaytime ? "opacity-100" : "opacity-60"
                         )}
+                        aria-label={d.isDaytime ? "Daytime" : "Nighttime"}
                       >
-                        {d.diff === "same time" ? "= home" : `${d.diff} vs home`}
+                        {d.isDaytime ? "☀️" : "🌙"}
+                      </span>
+                      <span className="font-semibold text-sm truncate pr-4">
+                        {d.city.name}
+                        {d.city.person && (
+                          <span className="font-normal dark:text-slate-400 text-slate-500"> · {d.city.person}</span>
+                        )}
                       </span>
                     </div>
-                    <div className="text-center dark:text-slate-500 text-slate-400 text-[11px]">
-                      {d.abbrev} · {d.city.tz}
+
+                    {/* Analog clock */}
+                    <div className="flex justify-center">
+                      <AnalogClock
+                        hour={d.zoneTime.hour}
+                        minute={d.zoneTime.minute}
+                        second={d.zoneTime.second}
+                        size={72}
+                      />
                     </div>
-                  </div>
-                </div>
-              ))}
 
-              {/* Empty slot hints */}
-              {pinnedCities.length < 4 &&
-                Array.from({ length: 4 - pinnedCities.length }).map((_, i) => (
-                  <div
-                    key={`empty-${i}`}
-                    className={cn(
-                      "rounded-2xl border-2 border-dashed flex items-center justify-center min-h-[120px] sm:min-h-[200px]",
-                      "dark:border-white/5 border-slate-200",
-                      "dark:text-slate-600 text-slate-300 text-xs text-center px-4",
-                      i > 0 && "hidden sm:flex"
-                    )}
-                  >
-                    Click a city on the map or search to add
+                    {/* Time details */}
+                    <div className="space-y-1.5 text-xs">
+                      <div className="font-mono text-base font-semibold tracking-tight text-center">
+                        {d.displayTime}
+                      </div>
+                      <div className="text-center dark:text-slate-400 text-slate-500 text-[11px]">
+                        {d.displayDate}
+                        <span className={d.isWorkingHours ? "text-green-500" : ""}>
+                          {" · "}{d.isWorkingHours ? "working hours" : "off hours"}
+                        </span>
+                      </div>
+                      {d.holiday && (
+                        <div className="flex justify-center">
+                          <HolidayBadge holiday={d.holiday} />
+                        </div>
+                      )}
+                      <div className="flex items-center justify-between pt-1 border-t dark:border-white/5 border-slate-100">
+                        <span className="dark:text-slate-400 text-slate-500">{d.utcOffset}</span>
+                        <span
+                          className={cn(
+                            "font-medium",
+                            d.diff === "same time"
+                              ? "text-green-500"
+                              : d.diffMinutes > 0
+                                ? "text-sky-500"
+                                : "text-orange-400"
+                          )}
+                        >
+                          {d.diff === "same time" ? "= home" : `${d.diff} vs home`}
+                        </span>
+                      </div>
+                      <div className="text-center dark:text-slate-400 text-slate-500 text-[11px]">
+                        {d.sun.polar === "day"
+                          ? `Midnight sun · ${d.sun.dayLength} daylight`
+                          : d.sun.polar === "night"
+                            ? "Polar night · no sunrise"
+                            : `↑ ${d.sun.sunrise} · ↓ ${d.sun.sunset} · ${d.sun.dayLength}`}
+                      </div>
+                      <div className="text-center dark:text-slate-500 text-slate-400 text-[11px]">
+                        {d.abbrev} · {d.city.tz}
+                      </div>
+                      {nextTransitions.get(d.city.tz) && (
+                        <div className="text-center dark:text-amber-300/80 text-amber-600 text-[11px]">
+                          Clocks change {describeTransition(nextTransitions.get(d.city.tz)!, d.city.tz)}
+                        </div>
+                      )}
+                    </div>
                   </div>
                 ))}
-            </div>
+
+                {/* Empty slot hints */}
+                {pinnedCities.length < CARD_COLUMNS &&
+                  Array.from({ length: CARD_COLUMNS - pinnedCities.length }).map((_, i) => (
+                    <div
+                      key={`empty-${i}`}
+                      className={cn(
+                        "rounded-2xl border-2 border-dashed flex items-center justify-center min-h-[120px] sm:min-h-[200px]",
+                        "dark:border-white/5 border-slate-200",
+                        "dark:text-slate-600 text-slate-300 text-xs text-center px-4",
+                        i > 0 && "hidden sm:flex"
+                      )}
+                    >
+                      Click a city on the map or search to add
+                    </div>
+                  ))}
+              </div>
+            )}
+
+            {/* 24-hour overlap grid */}
+            {instant !== null && (
+              <OverlapGrid
+                instant={instant}
+                homeTz={homeTz}
+                homeLabel={homeTzLabel}
+                pinned={pinnedDerived}
+                participants={participants}
+                onSelect={setScrubAt}
+              />
+            )}
+
+            {/* Meeting time suggestions */}
+            {finderFrom !== null && (
+              <MeetingFinder
+                from={finderFrom}
+                homeTz={homeTz}
+                participants={participants}
+                workHours={workHours}
+                onWorkHoursChange={setWorkHours}
+                onPreview={setScrubAt}
+                shareUrlFor={shareUrlFor}
+              />
+            )}
           </div>
         )}
 
+        {/* ── Imported invites ── */}
+        {finderFrom !== null && (
+          <IcsImport
+            homeTz={homeTz}
+            participants={participants}
+            now={finderFrom}
+            onPreview={setScrubAt}
+            onError={setNotice}
+          />
+        )}
+
         {/* ── Share bar ── */}
         {mounted && (
           <div
@@ -655,9 +1495,19 @@ export function TimezoneExplorer() {
           </div>
         )}
 
+        {/* ── Notice toast ── */}
+        {notice && (
+          <div
+            className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 rounded-xl border dark:border-amber-400/30 border-amber-300 dark:bg-slate-900/95 bg-white/95 px-4 py-2 text-sm dark:text-amber-200 text-amber-700 shadow-xl backdrop-blur"
+            role="status"
+          >
+            {notice}
+          </div>
+        )}
+
         {/* ── Footer ── */}
         <footer className="text-center text-xs dark:text-slate-600 text-slate-400 pb-2">
-          Built with Next.js · {CITIES.length} searchable cities · Click to pin · Share with{" "}
+          Built with Next.js · {cities.length.toLocaleString("en-US")} searchable cities · Click to pin · Share with{" "}
           <kbd className="px-1 py-0.5 rounded dark:bg-white/5 bg-slate-100 font-mono text-[11px]">
             ?compare=
           </kbd>{" "}
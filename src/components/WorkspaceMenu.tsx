@@ -0,0 +1,233 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Check, ChevronDown, Copy, Download, Layers, Pencil, Trash2, Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { exportWorkspaces, type Workspace } from "@/lib/workspaces";
+
+type Props = {
+  workspaces: Workspace[];
+  activeId: string | null;
+  /** Save the current pins, home, hidden cities and theme as a new workspace */
+  onSaveAs: (name: string) => void;
+  onSwitch: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  /** Contents of a file picked for import */
+  onImport: (text: string) => void;
+};
+
+export function WorkspaceMenu({
+  workspaces,
+  activeId,
+  onSaveAs,
+  onSwitch,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onImport,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const active = workspaces.find((w) => w.id === activeId) ?? null;
+
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+        setRenaming(null);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  function handleSaveAs() {
+    const name = newName.trim();
+    if (!name) return;
+    onSaveAs(name);
+    setNewName("");
+  }
+
+  function commitRename() {
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  }
+
+  function handleExport() {
+    const blob = new Blob([exportWorkspaces(workspaces)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "whenwhere-workspaces.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    onImport(await file.text());
+    if (fileRef.current) fileRef.current.value = "";
+  }
+
+  const inputClass =
+    "w-full rounded-lg border px-2 py-1 text-sm bg-transparent outline-none dark:border-white/10 border-slate-200 dark:text-white text-slate-900 placeholder:text-slate-400";
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className={cn(
+          "flex items-center gap-1.5 rounded-xl border px-2.5 py-2 text-sm transition-colors",
+          "dark:border-white/10 border-slate-200",
+          "dark:bg-white/5 bg-white",
+          "dark:hover:bg-white/10 hover:bg-slate-50"
+        )}
+        aria-label="Workspaces"
+        aria-expanded={open}
+        title="Workspaces"
+      >
+        <Layers className="h-4 w-4 text-slate-400" />
+        {active && (
+          <span className="hidden md:inline max-w-[8rem] truncate dark:text-slate-300 text-slate-600">
+            {active.name}
+          </span>
+        )}
+        <ChevronDown className="hidden md:block h-3 w-3 text-slate-400" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full mt-1.5 right-0 z-50 w-72 max-w-[calc(100vw-2rem)] rounded-xl border dark:border-white/10 border-slate-200 dark:bg-slate-900 bg-white shadow-xl">
+          <div className="px-3 py-2 border-b dark:border-white/10 border-slate-100 text-sm font-medium dark:text-white text-slate-900">
+            Workspaces
+          </div>
+
+          {workspaces.length === 0 ? (
+            <div className="px-3 py-4 text-sm text-center text-slate-500">
+              Save sets of pinned cities, like “Sales EMEA” or “Eng APAC”, and switch between them.
+            </div>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto py-1">
+              {workspaces.map((w) => (
+                <li key={w.id} className="flex items-center gap-1 px-3 py-1.5 text-sm">
+                  {renaming?.id === w.id ? (
+                    <input
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ id: w.id, name: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setRenaming(null);
+                      }}
+                      onBlur={commitRename}
+                      className={inputClass}
+                      aria-label="Workspace name"
+                      autoFocus
+                    />
+                  ) : (
+                    <button
+                      onClick={() => {
+                        onSwitch(w.id);
+                        setOpen(false);
+                      }}
+                      className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                    >
+                      <Check
+                        className={cn("h-3.5 w-3.5 shrink-0 text-sky-500", w.id === activeId ? "opacity-100" : "opacity-0")}
+                      />
+                      <span className="min-w-0">
+                        <span
+                          className={cn(
+                            "block truncate",
+                            w.id === activeId ? "dark:text-sky-400 text-sky-600" : "dark:text-slate-200 text-slate-700"
+                          )}
+                        >
+                          {w.name}
+                        </span>
+                        <span className="block text-[11px] dark:text-slate-500 text-slate-400 truncate">
+                          {w.pinnedCities.length} {w.pinnedCities.length === 1 ? "city" : "cities"} · {w.homeTz}
+                        </span>
+                      </span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setRenaming({ id: w.id, name: w.name })}
+                    className="p-1 rounded dark:text-slate-500 text-slate-400 dark:hover:text-white hover:text-slate-700"
+                    aria-label={`Rename ${w.name}`}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={() => onDuplicate(w.id)}
+                    className="p-1 rounded dark:text-slate-500 text-slate-400 dark:hover:text-white hover:text-slate-700"
+                    aria-label={`Duplicate ${w.name}`}
+                  >
+                    <Copy className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(w.id)}
+                    className="p-1 rounded dark:text-slate-500 text-slate-400 dark:hover:text-red-400 hover:text-red-500"
+                    aria-label={`Delete ${w.name}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* ── Save current set-up ── */}
+          <div className="flex gap-2 p-3 border-t dark:border-white/10 border-slate-100">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSaveAs();
+              }}
+              placeholder="Save current as…"
+              className={inputClass}
+              aria-label="New workspace name"
+            />
+            <button
+              onClick={handleSaveAs}
+              disabled={!newName.trim()}
+              className="rounded-lg px-3 py-1 text-sm font-medium bg-sky-500 text-white hover:bg-sky-600 disabled:opacity-50 disabled:hover:bg-sky-500"
+            >
+              Save
+            </button>
+          </div>
+
+          {/* ── Export / import ── */}
+          <div className="flex gap-2 px-3 pb-3">
+            <button
+              onClick={handleExport}
+              disabled={workspaces.length === 0}
+              className="flex-1 flex items-center justify-center gap-1.5 rounded-lg px-2 py-1 text-xs dark:bg-white/5 bg-slate-100 dark:text-slate-300 text-slate-600 disabled:opacity-50"
+            >
+              <Download className="h-3.5 w-3.5" />
+              Export JSON
+            </button>
+            <button
+              onClick={() => fileRef.current?.click()}
+              className="flex-1 flex items-center justify-center gap-1.5 rounded-lg px-2 py-1 text-xs dark:bg-white/5 bg-slate-100 dark:text-slate-300 text-slate-600"
+            >
+              <Upload className="h-3.5 w-3.5" />
+              Import JSON
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,69 +1,364 @@
 "use client";
 
-import { useMemo, useRef, useCallback } from "react";
-import { geoEqualEarth } from "d3-geo";
+import { useMemo, useRef, useCallback, useEffect, useState } from "react";
+import { Minus, Plus, RotateCcw } from "lucide-react";
+import { geoCircle, geoEqualEarth, geoPath } from "d3-geo";
+import { DateTime } from "luxon";
 import type { City } from "@/data/cities";
 import { cn } from "@/lib/utils";
+import { antisolarPoint, TWILIGHT_ANGLES } from "@/lib/solar";
+import { loadZoneGrid, type ZoneRun } from "@/lib/zoneGrid";
+import type { TeamStatus } from "@/lib/roster";
 
 const MAP_WIDTH = 1000;
 const MAP_HEIGHT = 520;
 const MAP_SCALE = 185;
 
+// Nested night-side caps around the antisolar point: the whole night side (sun below
+// the horizon) out to full darkness (sun more than 18° below). Each is drawn with a
+// low opacity so overlaps darken progressively through the twilight bands.
+const NIGHT_BANDS = [
+  { radius: 90, label: "civil twilight" },
+  { radius: 90 - TWILIGHT_ANGLES.civil, label: "nautical twilight" },
+  { radius: 90 - TWILIGHT_ANGLES.nautical, label: "astronomical twilight" },
+  { radius: 90 - TWILIGHT_ANGLES.astronomical, label: "night" },
+];
+
+const MAX_ZOOM = 12;
+const ZOOM_STEP = 1.6;
+// Movement (in viewBox units) before a press counts as a drag rather than a click
+const DRAG_THRESHOLD = 4;
+
+// Zoom ranges over which level-of-detail elements fade in
+const LABEL_FADE: [number, number] = [1.6, 2.6];
+const BACKGROUND_FADE: [number, number] = [2.2, 3.2];
+
+type View = { k: number; x: number; y: number };
+
+const IDENTITY_VIEW: View = { k: 1, x: 0, y: 0 };
+
+function fade(k: number, [from, to]: [number, number]): number {
+  return Math.min(1, Math.max(0, (k - from) / (to - from)));
+}
+
+// Keep the map covering the viewport: no zooming out past 1×, no panning off the edge
+function clampView({ k, x, y }: View): View {
+  const z = Math.min(MAX_ZOOM, Math.max(1, k));
+  return {
+    k: z,
+    x: Math.min(0, Math.max(MAP_WIDTH - MAP_WIDTH * z, x)),
+    y: Math.min(0, Math.max(MAP_HEIGHT - MAP_HEIGHT * z, y)),
+  };
+}
+
+type Point = { x: number; y: number };
+
+type CityPoint = City & Point;
+
+// One hue per hour of offset, wrapping round the colour wheel across UTC−12…+14
+function offsetColor(offsetMinutes: number): string {
+  const hue = Math.round(((offsetMinutes / 60 + 12) * 15) % 360);
+  return `hsl(${hue} 70% 55%)`;
+}
+
+/** A teammate's initials, drawn just above where they are */
+export type MapAvatar = {
+  key: string;
+  initials: string;
+  title: string;
+  lat: number;
+  lon: number;
+  status: TeamStatus;
+};
+
+const AVATAR_FILLS: Record<TeamStatus, string> = {
+  working: "fill-emerald-500",
+  starting: "fill-amber-400",
+  finishing: "fill-amber-400",
+  off: "fill-slate-400",
+  asleep: "fill-indigo-500",
+};
+
 type Props = {
+  /** Instant used for the day/night overlay — live or scrubbed */
+  instant: number | null;
   cities: City[];
+  /** Lower-priority cities that only fade in once the map is zoomed in */
+  backgroundCities?: City[];
   hoveredCity: City | null;
   pinnedCities: City[];
   highlightedCities: City[];
-  onCityHover: (city: City | null, svgRect: DOMRect | null) => void;
+  /** `anchor` is the dot's position in viewport (client) coordinates */
+  onCityHover: (city: City | null, anchor: Point | null) => void;
   onCityClick: (city: City) => void;
+  /**
+   * Click on empty map space, with the geographic point and viewport position.
+   * `zoneOffset` is the offset band clicked through, when the timezone layer is on.
+   */
+  onMapClick?: (lat: number, lon: number, clientX: number, clientY: number, zoneOffset: number | null) => void;
+  /** Draw the timezone offset layer */
+  showZones?: boolean;
+  activeOffset?: number | null;
+  onZoneHover?: (offsetMinutes: number | null) => void;
+  /** Teammates from the roster, coloured by whether they're working */
+  avatars?: MapAvatar[];
 };
 
 export function WorldMap({
+  instant,
   cities,
+  backgroundCities = [],
   hoveredCity,
   pinnedCities,
   highlightedCities,
   onCityHover,
   onCityClick,
+  onMapClick,
+  showZones = false,
+  activeOffset = null,
+  onZoneHover,
+  avatars = [],
 }: Props) {
   const svgRef = useRef<SVGSVGElement>(null);
   const lastTappedCity = useRef<string | null>(null);
+  const [view, setView] = useState<View>(IDENTITY_VIEW);
+  const viewRef = useRef(view);
+  useEffect(() => {
+    viewRef.current = view;
+  }, [view]);
+
+  // Active pointers (for drag / pinch) in viewBox coordinates
+  const pointers = useRef(new Map<number, Point>());
+  const dragDistance = useRef(0);
+  const suppressClick = useRef(false);
 
   const projection = useMemo(
     () => geoEqualEarth().scale(MAP_SCALE).translate([MAP_WIDTH / 2, MAP_HEIGHT / 2]),
     []
   );
 
-  const cityPoints = useMemo(
-    () =>
-      cities
+  // The terminator moves ~0.25° per minute, so only recompute once a minute
+  const terminatorMinute = instant === null ? null : Math.floor(instant / 60000);
+  const nightPaths = useMemo(() => {
+    if (terminatorMinute === null) return [];
+    const path = geoPath(projection);
+    const center = antisolarPoint(terminatorMinute * 60000);
+    return NIGHT_BANDS.map((band) => ({
+      ...band,
+      d: path(geoCircle().center(center).radius(band.radius).precision(2)()) ?? "",
+    }));
+  }, [projection, terminatorMinute]);
+
+  // The zone grid is fetched the first time the layer is switched on
+  const [zoneRuns, setZoneRuns] = useState<ZoneRun[]>([]);
+  useEffect(() => {
+    if (!showZones || zoneRuns.length > 0) return;
+    let cancelled = false;
+    loadZoneGrid().then(
+      (runs) => {
+        if (!cancelled) setZoneRuns(runs);
+      },
+      () => {
+        // the layer stays empty; toggling it again retries
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [showZones, zoneRuns.length]);
+
+  // Timezone regions grouped into one path per UTC offset. Offsets depend on DST, so
+  // regroup whenever the hour changes.
+  const zoneHour = instant === null ? null : Math.floor(instant / 3600000);
+  const zoneBands = useMemo(() => {
+    if (!showZones || zoneRuns.length === 0 || zoneHour === null) return [];
+    const at = DateTime.fromMillis(zoneHour * 3600000);
+    const offsets = new Map<string, number>();
+    const parts = new Map<number, string[]>();
+    for (const run of zoneRuns) {
+      let offset = offsets.get(run.tz);
+      if (offset === undefined) {
+        offset = at.setZone(run.tz).offset;
+        offsets.set(run.tz, offset);
+      }
+      const corners = [
+        projection([run.west, run.north]),
+        projection([run.east, run.north]),
+        projection([run.east, run.south]),
+        projection([run.west, run.south]),
+      ];
+      if (corners.some((c) => !c)) continue;
+      const d = `M${corners.map((c) => `${c![0].toFixed(1)},${c![1].toFixed(1)}`).join("L")}Z`;
+      const list = parts.get(offset);
+      if (list) list.push(d);
+      else parts.set(offset, [d]);
+    }
+    return Array.from(parts, ([offset, ds]) => ({ offset, d: ds.join("") })).sort(
+      (a, b) => a.offset - b.offset
+    );
+  }, [showZones, zoneRuns, zoneHour, projection]);
+
+  const toPoints = useCallback(
+    (list: City[]) =>
+      list
         .map((city) => {
           const coords = projection([city.lon, city.lat]);
           if (!coords) return null;
           const [x, y] = coords;
           return { ...city, x, y };
         })
-        .filter((c): c is City & { x: number; y: number } => c !== null),
-    [cities, projection]
+        .filter((c): c is CityPoint => c !== null),
+    [projection]
+  );
+  const cityPoints = useMemo(() => toPoints(cities), [cities, toPoints]);
+  const backgroundPoints = useMemo(
+    () => toPoints(backgroundCities),
+    [backgroundCities, toPoints]
+  );
+
+  // Teammates in the same place line up side by side rather than stacking
+  const avatarGroups = useMemo(() => {
+    const groups = new Map<string, { x: number; y: number; avatars: MapAvatar[] }>();
+    for (const avatar of avatars) {
+      const coords = projection([avatar.lon, avatar.lat]);
+      if (!coords) continue;
+      const key = `${coords[0].toFixed(0)},${coords[1].toFixed(0)}`;
+      const group = groups.get(key);
+      if (group) group.avatars.push(avatar);
+      else groups.set(key, { x: coords[0], y: coords[1], avatars: [avatar] });
+    }
+    return Array.from(groups.values());
+  }, [avatars, projection]);
+
+  // Viewport (client) coords → viewBox coords, before the zoom transform
+  const clientToSvg = useCallback((clientX: number, clientY: number): Point | null => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return null;
+    const pt = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+    return { x: pt.x, y: pt.y };
+  }, []);
+
+  // Map content coords → viewport (client) coords, through the current zoom
+  const contentToClient = useCallback((x: number, y: number): Point | null => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return null;
+    const { k, x: tx, y: ty } = viewRef.current;
+    const pt = new DOMPoint(x * k + tx, y * k + ty).matrixTransform(ctm);
+    return { x: pt.x, y: pt.y };
+  }, []);
+
+  // Zoom by `factor` keeping the viewBox point (cx, cy) fixed under the cursor
+  const zoomAt = useCallback((factor: number, cx: number, cy: number) => {
+    setView((v) => {
+      const k = Math.min(MAX_ZOOM, Math.max(1, v.k * factor));
+      const f = k / v.k;
+      return clampView({ k, x: cx - (cx - v.x) * f, y: cy - (cy - v.y) * f });
+    });
+  }, []);
+
+  // Wheel zoom needs a non-passive listener to stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    function handleWheel(e: WheelEvent) {
+      e.preventDefault();
+      const pt = clientToSvg(e.clientX, e.clientY);
+      if (!pt) return;
+      onCityHover(null, null);
+      zoomAt(Math.exp(-e.deltaY * 0.002), pt.x, pt.y);
+    }
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, [clientToSvg, zoomAt, onCityHover]);
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<SVGSVGElement>) => {
+      const pt = clientToSvg(e.clientX, e.clientY);
+      if (!pt) return;
+      pointers.current.set(e.pointerId, pt);
+      if (pointers.current.size === 1) dragDistance.current = 0;
+    },
+    [clientToSvg]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<SVGSVGElement>) => {
+      const prev = pointers.current.get(e.pointerId);
+      if (!prev) return;
+      const pt = clientToSvg(e.clientX, e.clientY);
+      if (!pt) return;
+
+      if (pointers.current.size === 1) {
+        // Drag to pan
+        dragDistance.current += Math.hypot(pt.x - prev.x, pt.y - prev.y);
+        if (dragDistance.current > DRAG_THRESHOLD) {
+          if (!e.currentTarget.hasPointerCapture(e.pointerId)) {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            onCityHover(null, null);
+          }
+          setView((v) => clampView({ k: v.k, x: v.x + pt.x - prev.x, y: v.y + pt.y - prev.y }));
+        }
+      } else if (pointers.current.size === 2) {
+        // Pinch to zoom around the midpoint, panning with it
+        const other = [...pointers.current].find(([id]) => id !== e.pointerId)?.[1];
+        if (other) {
+          const before = Math.hypot(prev.x - other.x, prev.y - other.y);
+          const after = Math.hypot(pt.x - other.x, pt.y - other.y);
+          if (before > 0) {
+            zoomAt(after / before, (pt.x + other.x) / 2, (pt.y + other.y) / 2);
+            setView((v) =>
+              clampView({ k: v.k, x: v.x + (pt.x - prev.x) / 2, y: v.y + (pt.y - prev.y) / 2 })
+            );
+          }
+        }
+        dragDistance.current = DRAG_THRESHOLD + 1;
+      }
+      pointers.current.set(e.pointerId, pt);
+    },
+    [clientToSvg, zoomAt, onCityHover]
+  );
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<SVGSVGElement>) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size === 0 && dragDistance.current > DRAG_THRESHOLD) {
+      suppressClick.current = true;
+    }
+  }, []);
+
+  // Swallow the click that ends a drag so panning doesn't pin cities or drop locations
+  const handleClickCapture = useCallback((e: React.MouseEvent) => {
+    if (suppressClick.current) {
+      suppressClick.current = false;
+      e.stopPropagation();
+    }
+  }, []);
+
+  const hoverCity = useCallback(
+    (city: CityPoint) => onCityHover(city, contentToClient(city.x, city.y)),
+    [onCityHover, contentToClient]
+  );
+
+  const zoomBy = useCallback(
+    (factor: number) => zoomAt(factor, MAP_WIDTH / 2, MAP_HEIGHT / 2),
+    [zoomAt]
   );
 
   const handleTouchCity = useCallback(
-    (e: React.TouchEvent, city: City) => {
+    (e: React.TouchEvent, city: CityPoint) => {
       e.preventDefault();
       e.stopPropagation();
-      const rect = svgRef.current?.getBoundingClientRect() ?? null;
-      if (lastTappedCity.current === city.name) {
+      if (lastTappedCity.current === city.id) {
         // Second tap on same city — pin it
         onCityClick(city);
         lastTappedCity.current = null;
         onCityHover(null, null);
       } else {
         // First tap — show tooltip
-        lastTappedCity.current = city.name;
-        onCityHover(city, rect);
+        lastTappedCity.current = city.id;
+        hoverCity(city);
       }
     },
-    [onCityClick, onCityHover]
+    [onCityClick, onCityHover, hoverCity]
   );
 
   const handleTouchSvg = useCallback(
@@ -77,6 +372,118 @@ export function WorldMap({
     [onCityHover]
   );
 
+  const handleSvgClick = useCallback(
+    (e: React.MouseEvent<SVGSVGElement>) => {
+      if (!onMapClick) return;
+      // City hit areas handle their own clicks
+      if ((e.target as Element).getAttribute("role") === "button") return;
+      const svgPt = clientToSvg(e.clientX, e.clientY);
+      if (!svgPt) return;
+      const { k, x: tx, y: ty } = viewRef.current;
+      const pt = { x: (svgPt.x - tx) / k, y: (svgPt.y - ty) / k };
+      const lonLat = projection.invert?.([pt.x, pt.y]);
+      if (!lonLat) return;
+      // invert() happily returns points outside the globe outline — round-trip to reject them
+      const back = projection(lonLat);
+      if (!back || Math.hypot(back[0] - pt.x, back[1] - pt.y) > 1) return;
+      // Offset bands don't take the click themselves, so clicking anywhere still works with the layer on
+      const band = (e.target as Element).getAttribute("data-offset");
+      onMapClick(lonLat[1], lonLat[0], e.clientX, e.clientY, band === null ? null : Number(band));
+    },
+    [onMapClick, projection, clientToSvg]
+  );
+
+  const { k } = view;
+  const labelOpacity = fade(k, LABEL_FADE);
+  const backgroundOpacity = fade(k, BACKGROUND_FADE);
+
+  function renderCity(city: CityPoint, background: boolean) {
+    const isPinned = pinnedCities.some((c) => c.id === city.id);
+    const isHovered = hoveredCity?.id === city.id;
+    const isHighlighted = highlightedCities.some((c) => c.id === city.id);
+    const isActive = isPinned || isHovered || isHighlighted;
+    const showLabel = isPinned || isHovered || labelOpacity > 0;
+
+    return (
+      <g
+        key={city.id}
+        opacity={background ? backgroundOpacity : 1}
+        className={cn(background && backgroundOpacity < 0.5 && "pointer-events-none")}
+      >
+        {/* Pulse ring for pinned cities */}
+        {isPinned && (
+          <circle
+            cx={city.x}
+            cy={city.y}
+            r={12 / k}
+            fill="rgba(56,189,248,0.18)"
+            className="pointer-events-none"
+          />
+        )}
+        {/* Highlight ring for search results */}
+        {isHighlighted && !isPinned && (
+          <circle
+            cx={city.x}
+            cy={city.y}
+            r={10 / k}
+            fill="none"
+            stroke="rgba(250,204,21,0.6)"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            className="pointer-events-none"
+          />
+        )}
+        {/* Invisible hit-area circle for easier tapping */}
+        <circle
+          cx={city.x}
+          cy={city.y}
+          r={14 / k}
+          fill="transparent"
+          className="cursor-pointer"
+          tabIndex={background && backgroundOpacity < 0.5 ? -1 : 0}
+          role="button"
+          aria-label={`${city.name} — click to pin for comparison`}
+          onMouseEnter={() => hoverCity(city)}
+          onMouseLeave={() => onCityHover(null, null)}
+          onClick={() => onCityClick(city)}
+          onTouchStart={(e) => handleTouchCity(e, city)}
+          onKeyDown={(e) => e.key === "Enter" && onCityClick(city)}
+        />
+        {/* Visible dot — pointer-events-none so events go through to hit area */}
+        <circle
+          cx={city.x}
+          cy={city.y}
+          r={(isActive ? 6.5 : background ? 3.5 : 4.5) / k}
+          vectorEffect="non-scaling-stroke"
+          className={cn(
+            "pointer-events-none transition-all duration-100",
+            isPinned
+              ? "fill-sky-400 stroke-white stroke-[1.5px]"
+              : isHighlighted
+                ? "fill-yellow-300 stroke-white stroke-[1.5px]"
+                : isHovered
+                  ? "fill-sky-200 stroke-white stroke-[1.25px]"
+                  : "fill-sky-200/80 stroke-white/50 stroke-[1px]"
+          )}
+        />
+        {/* Name label — fades in with zoom; always shown for pinned / hovered */}
+        {showLabel && (
+          <text
+            x={city.x + 8 / k}
+            y={city.y + 3.5 / k}
+            fontSize={11 / k}
+            opacity={isPinned || isHovered ? 1 : labelOpacity}
+            strokeWidth={3 / k}
+            paintOrder="stroke"
+            className="pointer-events-none select-none font-medium fill-slate-800 dark:fill-white stroke-white/80 dark:stroke-slate-900/80"
+          >
+            {city.name}
+          </text>
+        )}
+      </g>
+    );
+  }
+
   return (
     <div className="relative w-full h-full">
       <svg
@@ -84,96 +491,123 @@ export function WorldMap({
         viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
         className="w-full h-full"
         preserveAspectRatio="xMidYMid meet"
+        style={{ touchAction: "none" }}
         onMouseLeave={() => onCityHover(null, null)}
         onTouchStart={handleTouchSvg}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onClickCapture={handleClickCapture}
+        onClick={handleSvgClick}
         role="img"
-        aria-label="Interactive world timezone map — hover or tap city dots"
+        aria-label="Interactive world timezone map — hover or tap city dots, click anywhere to look up its timezone, scroll or pinch to zoom"
       >
         <rect width={MAP_WIDTH} height={MAP_HEIGHT} fill="transparent" />
 
-        {/* World SVG base map */}
-        <image
-          href="/world.svg"
-          x="0"
-          y="0"
-          width={MAP_WIDTH}
-          height={MAP_HEIGHT}
-          style={{ filter: "var(--map-filter)", opacity: "var(--map-opacity)" } as React.CSSProperties}
-        />
+        <g transform={`translate(${view.x} ${view.y}) scale(${k})`}>
+          {/* World SVG base map */}
+          <image
+            href="/world.svg"
+            x="0"
+            y="0"
+            width={MAP_WIDTH}
+            height={MAP_HEIGHT}
+            style={{ filter: "var(--map-filter)", opacity: "var(--map-opacity)" } as React.CSSProperties}
+          />
 
-        {/* City dots */}
-        <g>
-          {cityPoints.map((city) => {
-            const isPinned = pinnedCities.some((c) => c.name === city.name);
-            const isHovered = hoveredCity?.name === city.name;
-            const isHighlighted = highlightedCities.some((c) => c.name === city.name);
-            const isActive = isPinned || isHovered || isHighlighted;
-
-            return (
-              <g key={`${city.name}-${city.tz}`}>
-                {/* Pulse ring for pinned cities */}
-                {isPinned && (
-                  <circle
-                    cx={city.x}
-                    cy={city.y}
-                    r={12}
-                    fill="rgba(56,189,248,0.18)"
-                    className="pointer-events-none"
+          {/* Timezone offset bands */}
+          {zoneBands.length > 0 && (
+            <g onMouseLeave={() => onZoneHover?.(null)}>
+              {zoneBands.map((band) => {
+                const color = offsetColor(band.offset);
+                const isActive = band.offset === activeOffset;
+                return (
+                  <path
+                    key={band.offset}
+                    d={band.d}
+                    fill={color}
+                    stroke={color}
+                    strokeWidth={0.6}
+                    fillOpacity={isActive ? 0.55 : 0.22}
+                    strokeOpacity={isActive ? 0.55 : 0.22}
+                    className="cursor-pointer transition-[fill-opacity] duration-100"
+                    data-offset={band.offset}
+                    onMouseEnter={() => onZoneHover?.(band.offset)}
                   />
-                )}
-                {/* Highlight ring for search results */}
-                {isHighlighted && !isPinned && (
+                );
+              })}
+            </g>
+          )}
+
+          {/* Night hemisphere with twilight bands */}
+          <g className="pointer-events-none" aria-hidden="true">
+            {nightPaths.map((band) => (
+              <path key={band.label} d={band.d} fill="var(--map-night)" />
+            ))}
+          </g>
+
+          {/* Background cities — only once zoomed in */}
+          {backgroundOpacity > 0 && <g>{backgroundPoints.map((city) => renderCity(city, true))}</g>}
+
+          {/* City dots */}
+          <g>{cityPoints.map((city) => renderCity(city, false))}</g>
+
+          {/* Teammate avatars */}
+          {avatarGroups.map((group) =>
+            group.avatars.map((avatar, i) => {
+              const x = group.x + (i - (group.avatars.length - 1) / 2) * (17 / k);
+              const y = group.y - 16 / k;
+              return (
+                <g key={avatar.key}>
+                  <title>{avatar.title}</title>
                   <circle
-                    cx={city.x}
-                    cy={city.y}
-                    r={10}
-                    fill="none"
-                    stroke="rgba(250,204,21,0.6)"
-                    strokeWidth={1.5}
-                    className="pointer-events-none"
+                    cx={x}
+                    cy={y}
+                    r={8 / k}
+                    strokeWidth={1.5 / k}
+                    className={cn(AVATAR_FILLS[avatar.status], "stroke-white dark:stroke-slate-900")}
                   />
-                )}
-                {/* Invisible hit-area circle for easier tapping */}
-                <circle
-                  cx={city.x}
-                  cy={city.y}
-                  r={14}
-                  fill="transparent"
-                  className="cursor-pointer"
-                  tabIndex={0}
-                  role="button"
-                  aria-label={`${city.name} — click to pin for comparison`}
-                  onMouseEnter={() => {
-                    const rect = svgRef.current?.getBoundingClientRect() ?? null;
-                    onCityHover(city, rect);
-                  }}
-                  onMouseLeave={() => onCityHover(null, null)}
-                  onClick={() => onCityClick(city)}
-                  onTouchStart={(e) => handleTouchCity(e, city)}
-                  onKeyDown={(e) => e.key === "Enter" && onCityClick(city)}
-                />
-                {/* Visible dot — pointer-events-none so events go through to hit area */}
-                <circle
-                  cx={city.x}
-                  cy={city.y}
-                  r={isActive ? 6.5 : 4.5}
-                  className={cn(
-                    "pointer-events-none transition-all duration-100",
-                    isPinned
-                      ? "fill-sky-400 stroke-white stroke-[1.5px]"
-                      : isHighlighted
-                        ? "fill-yellow-300 stroke-white stroke-[1.5px]"
-                        : isHovered
-                          ? "fill-sky-200 stroke-white stroke-[1.25px]"
-                          : "fill-sky-200/80 stroke-white/50 stroke-[1px]"
-                  )}
-                />
-              </g>
-            );
-          })}
+                  <text
+                    x={x}
+                    y={y + 2.8 / k}
+                    fontSize={7.5 / k}
+                    textAnchor="middle"
+                    className="pointer-events-none select-none font-semibold fill-white"
+                  >
+                    {avatar.initials}
+                  </text>
+                </g>
+              );
+            })
+          )}
         </g>
       </svg>
 
+      {/* Zoom controls */}
+      <div className="absolute bottom-3 right-3 flex flex-col gap-1">
+        {[
+          { label: "Zoom in", icon: Plus, onClick: () => zoomBy(ZOOM_STEP), disabled: k >= MAX_ZOOM },
+          { label: "Zoom out", icon: Minus, onClick: () => zoomBy(1 / ZOOM_STEP), disabled: k <= 1 },
+          { label: "Reset zoom", icon: RotateCcw, onClick: () => setView(IDENTITY_VIEW), disabled: k === 1 },
+        ].map(({ label, icon: Icon, onClick, disabled }) => (
+          <button
+            key={label}
+            onClick={onClick}
+            disabled={disabled}
+            className={cn(
+              "flex items-center justify-center rounded-lg border p-1.5 backdrop-blur transition-colors",
+              "dark:border-white/10 border-slate-200 dark:bg-slate-950/60 bg-white/80",
+              disabled
+                ? "dark:text-slate-600 text-slate-300"
+                : "dark:text-slate-300 text-slate-600 dark:hover:bg-white/10 hover:bg-slate-100"
+            )}
+            aria-label={label}
+          >
+            <Icon className="h-3.5 w-3.5" />
+          </button>
+        ))}
+      </div>
     </div>
   );
 }
@@ -1,314 +1,339 @@
-export type City = { name: string; country: string; lat: number; lon: number; tz: string };
+export type City = {
+  /** Stable identifier used for pins, hidden cities and share URLs, e.g. "tokyo-jp" */
+  id: string;
+  name: string;
+  country: string;
+  /** ISO 3166-1 alpha-2 code */
+  countryCode: string;
+  /** First-level administrative region (state, province), when known */
+  admin1?: string;
+  lat: number;
+  lon: number;
+  tz: string;
+  population?: number;
+  /** Alternate, historical and local-language names, matched by search */
+  altNames?: string[];
+  /** IATA codes of the airports serving the city */
+  iata?: string[];
+  /** Person a custom place stands for, e.g. "Alice" */
+  person?: string;
+};
 
 export const CITIES: City[] = [
   // Europe
-  { name: "Sarajevo", country: "Bosnia and Herzegovina", lat: 43.8563, lon: 18.4131, tz: "Europe/Sarajevo" },
-  { name: "London", country: "United Kingdom", lat: 51.5074, lon: -0.1278, tz: "Europe/London" },
-  { name: "Paris", country: "France", lat: 48.8566, lon: 2.3522, tz: "Europe/Paris" },
-  { name: "Berlin", country: "Germany", lat: 52.52, lon: 13.405, tz: "Europe/Berlin" },
-  { name: "Madrid", country: "Spain", lat: 40.4168, lon: -3.7038, tz: "Europe/Madrid" },
-  { name: "Rome", country: "Italy", lat: 41.9028, lon: 12.4964, tz: "Europe/Rome" },
-  { name: "Athens", country: "Greece", lat: 37.9838, lon: 23.7275, tz: "Europe/Athens" },
-  { name: "Istanbul", country: "Turkey", lat: 41.0082, lon: 28.9784, tz: "Europe/Istanbul" },
-  { name: "Copenhagen", country: "Denmark", lat: 55.6761, lon: 12.5683, tz: "Europe/Copenhagen" },
-  { name: "Stockholm", country: "Sweden", lat: 59.3293, lon: 18.0686, tz: "Europe/Stockholm" },
-  { name: "Oslo", country: "Norway", lat: 59.9139, lon: 10.7522, tz: "Europe/Oslo" },
-  { name: "Helsinki", country: "Finland", lat: 60.1699, lon: 24.9384, tz: "Europe/Helsinki" },
-  { name: "Dublin", country: "Ireland", lat: 53.3498, lon: -6.2603, tz: "Europe/Dublin" },
-  { name: "Reykjavik", country: "Iceland", lat: 64.1466, lon: -21.9426, tz: "Atlantic/Reykjavik" },
-  { name: "Moscow", country: "Russia", lat: 55.7558, lon: 37.6173, tz: "Europe/Moscow" },
-  { name: "Amsterdam", country: "Netherlands", lat: 52.3676, lon: 4.9041, tz: "Europe/Amsterdam" },
-  { name: "Brussels", country: "Belgium", lat: 50.8503, lon: 4.3517, tz: "Europe/Brussels" },
-  { name: "Vienna", country: "Austria", lat: 48.2082, lon: 16.3738, tz: "Europe/Vienna" },
-  { name: "Warsaw", country: "Poland", lat: 52.2297, lon: 21.0122, tz: "Europe/Warsaw" },
-  { name: "Prague", country: "Czechia", lat: 50.0755, lon: 14.4378, tz: "Europe/Prague" },
-  { name: "Budapest", country: "Hungary", lat: 47.4979, lon: 19.0402, tz: "Europe/Budapest" },
-  { name: "Bucharest", country: "Romania", lat: 44.4268, lon: 26.1025, tz: "Europe/Bucharest" },
-  { name: "Sofia", country: "Bulgaria", lat: 42.6977, lon: 23.3219, tz: "Europe/Sofia" },
-  { name: "Bern", country: "Switzerland", lat: 46.9481, lon: 7.4474, tz: "Europe/Zurich" },
-  { name: "Zurich", country: "Switzerland", lat: 47.3769, lon: 8.5417, tz: "Europe/Zurich" },
-  { name: "Lisbon", country: "Portugal", lat: 38.7223, lon: -9.1393, tz: "Europe/Lisbon" },
-  { name: "Zagreb", country: "Croatia", lat: 45.815, lon: 15.9819, tz: "Europe/Zagreb" },
-  { name: "Belgrade", country: "Serbia", lat: 44.7866, lon: 20.4489, tz: "Europe/Belgrade" },
-  { name: "Ljubljana", country: "Slovenia", lat: 46.0569, lon: 14.5058, tz: "Europe/Ljubljana" },
-  { name: "Bratislava", country: "Slovakia", lat: 48.1486, lon: 17.1077, tz: "Europe/Bratislava" },
-  { name: "Vilnius", country: "Lithuania", lat: 54.6872, lon: 25.2797, tz: "Europe/Vilnius" },
-  { name: "Riga", country: "Latvia", lat: 56.9496, lon: 24.1052, tz: "Europe/Riga" },
-  { name: "Tallinn", country: "Estonia", lat: 59.437, lon: 24.7536, tz: "Europe/Tallinn" },
-  { name: "Minsk", country: "Belarus", lat: 53.9045, lon: 27.5615, tz: "Europe/Minsk" },
-  { name: "Kyiv", country: "Ukraine", lat: 50.4501, lon: 30.5234, tz: "Europe/Kyiv" },
-  { name: "Chisinau", country: "Moldova", lat: 47.0105, lon: 28.8638, tz: "Europe/Chisinau" },
-  { name: "Skopje", country: "North Macedonia", lat: 41.9981, lon: 21.4254, tz: "Europe/Skopje" },
-  { name: "Tirana", country: "Albania", lat: 41.3275, lon: 19.8187, tz: "Europe/Tirane" },
-  { name: "Podgorica", country: "Montenegro", lat: 42.4304, lon: 19.2594, tz: "Europe/Podgorica" },
-  { name: "Pristina", country: "Kosovo", lat: 42.6629, lon: 21.1655, tz: "Europe/Belgrade" },
-  { name: "Valletta", country: "Malta", lat: 35.8989, lon: 14.5146, tz: "Europe/Malta" },
-  { name: "Nicosia", country: "Cyprus", lat: 35.1856, lon: 33.3823, tz: "Asia/Nicosia" },
-  { name: "Luxembourg City", country: "Luxembourg", lat: 49.6116, lon: 6.1319, tz: "Europe/Luxembourg" },
-  { name: "Monaco", country: "Monaco", lat: 43.7384, lon: 7.4246, tz: "Europe/Monaco" },
-  { name: "Andorra la Vella", country: "Andorra", lat: 42.5063, lon: 1.5218, tz: "Europe/Andorra" },
-  { name: "San Marino", country: "San Marino", lat: 43.9424, lon: 12.4578, tz: "Europe/San_Marino" },
-  { name: "Vaduz", country: "Liechtenstein", lat: 47.1410, lon: 9.5209, tz: "Europe/Vaduz" },
-  { name: "Yerevan", country: "Armenia", lat: 40.1872, lon: 44.5152, tz: "Asia/Yerevan" },
-  { name: "Tbilisi", country: "Georgia", lat: 41.6938, lon: 44.8015, tz: "Asia/Tbilisi" },
-  { name: "Baku", country: "Azerbaijan", lat: 40.4093, lon: 49.8671, tz: "Asia/Baku" },
+  { id: "sarajevo-ba", name: "Sarajevo", country: "Bosnia and Herzegovina", countryCode: "BA", admin1: "Sarajevo", lat: 43.8563, lon: 18.4131, tz: "Europe/Sarajevo", population: 420_000, iata: ["SJJ"] },
+  { id: "london-gb", name: "London", country: "United Kingdom", countryCode: "GB", admin1: "England", lat: 51.5074, lon: -0.1278, tz: "Europe/London", population: 9_600_000, iata: ["LHR", "LGW", "STN", "LTN", "LCY"] },
+  { id: "paris-fr", name: "Paris", country: "France", countryCode: "FR", admin1: "Île-de-France", lat: 48.8566, lon: 2.3522, tz: "Europe/Paris", population: 11_200_000, iata: ["CDG", "ORY"] },
+  { id: "berlin-de", name: "Berlin", country: "Germany", countryCode: "DE", admin1: "Berlin", lat: 52.52, lon: 13.405, tz: "Europe/Berlin", population: 3_800_000, iata: ["BER"] },
+  { id: "madrid-es", name: "Madrid", country: "Spain", countryCode: "ES", admin1: "Comunidad de Madrid", lat: 40.4168, lon: -3.7038, tz: "Europe/Madrid", population: 6_700_000, iata: ["MAD"] },
+  { id: "rome-it", name: "Rome", country: "Italy", countryCode: "IT", admin1: "Lazio", lat: 41.9028, lon: 12.4964, tz: "Europe/Rome", population: 4_300_000, altNames: ["Roma"], iata: ["FCO", "CIA"] },
+  { id: "athens-gr", name: "Athens", country: "Greece", countryCode: "GR", admin1: "Attiki", lat: 37.9838, lon: 23.7275, tz: "Europe/Athens", population: 3_100_000, altNames: ["Athina"], iata: ["ATH"] },
+  { id: "istanbul-tr", name: "Istanbul", country: "Turkey", countryCode: "TR", admin1: "Istanbul", lat: 41.0082, lon: 28.9784, tz: "Europe/Istanbul", population: 15_800_000, altNames: ["Constantinople"], iata: ["IST", "SAW"] },
+  { id: "copenhagen-dk", name: "Copenhagen", country: "Denmark", countryCode: "DK", admin1: "Hovedstaden", lat: 55.6761, lon: 12.5683, tz: "Europe/Copenhagen", population: 1_400_000, altNames: ["København"], iata: ["CPH"] },
+  { id: "stockholm-se", name: "Stockholm", country: "Sweden", countryCode: "SE", admin1: "Stockholm", lat: 59.3293, lon: 18.0686, tz: "Europe/Stockholm", population: 1_700_000, iata: ["ARN"] },
+  { id: "oslo-no", name: "Oslo", country: "Norway", countryCode: "NO", admin1: "Oslo", lat: 59.9139, lon: 10.7522, tz: "Europe/Oslo", population: 1_100_000, iata: ["OSL"] },
+  { id: "helsinki-fi", name: "Helsinki", country: "Finland", countryCode: "FI", admin1: "Southern Finland", lat: 60.1699, lon: 24.9384, tz: "Europe/Helsinki", population: 1_300_000, iata: ["HEL"] },
+  { id: "dublin-ie", name: "Dublin", country: "Ireland", countryCode: "IE", admin1: "Dublin", lat: 53.3498, lon: -6.2603, tz: "Europe/Dublin", population: 1_300_000, altNames: ["Baile Átha Cliath"], iata: ["DUB"] },
+  { id: "reykjavik-is", name: "Reykjavik", country: "Iceland", countryCode: "IS", admin1: "Höfuðborgarsvæðið", lat: 64.1466, lon: -21.9426, tz: "Atlantic/Reykjavik", population: 240_000, altNames: ["Reykjavík"], iata: ["KEF", "RKV"] },
+  { id: "moscow-ru", name: "Moscow", country: "Russia", countryCode: "RU", admin1: "Moskva", lat: 55.7558, lon: 37.6173, tz: "Europe/Moscow", population: 12_600_000, altNames: ["Moskva"], iata: ["SVO", "DME", "VKO"] },
+  { id: "amsterdam-nl", name: "Amsterdam", country: "Netherlands", countryCode: "NL", admin1: "Noord-Holland", lat: 52.3676, lon: 4.9041, tz: "Europe/Amsterdam", population: 1_200_000, iata: ["AMS"] },
+  { id: "brussels-be", name: "Brussels", country: "Belgium", countryCode: "BE", admin1: "Brussels", lat: 50.8503, lon: 4.3517, tz: "Europe/Brussels", population: 2_100_000, altNames: ["Bruxelles", "Brussel"], iata: ["BRU"] },
+  { id: "vienna-at", name: "Vienna", country: "Austria", countryCode: "AT", admin1: "Wien", lat: 48.2082, lon: 16.3738, tz: "Europe/Vienna", population: 2_000_000, altNames: ["Wien"], iata: ["VIE"] },
+  { id: "warsaw-pl", name: "Warsaw", country: "Poland", countryCode: "PL", admin1: "Masovian", lat: 52.2297, lon: 21.0122, tz: "Europe/Warsaw", population: 1_800_000, altNames: ["Warszawa"], iata: ["WAW"] },
+  { id: "prague-cz", name: "Prague", country: "Czechia", countryCode: "CZ", admin1: "Prague", lat: 50.0755, lon: 14.4378, tz: "Europe/Prague", population: 1_300_000, altNames: ["Praha"], iata: ["PRG"] },
+  { id: "budapest-hu", name: "Budapest", country: "Hungary", countryCode: "HU", admin1: "Budapest", lat: 47.4979, lon: 19.0402, tz: "Europe/Budapest", population: 1_750_000, iata: ["BUD"] },
+  { id: "bucharest-ro", name: "Bucharest", country: "Romania", countryCode: "RO", admin1: "Bucharest", lat: 44.4268, lon: 26.1025, tz: "Europe/Bucharest", population: 1_800_000, altNames: ["București"], iata: ["OTP"] },
+  { id: "sofia-bg", name: "Sofia", country: "Bulgaria", countryCode: "BG", admin1: "Grad Sofiya", lat: 42.6977, lon: 23.3219, tz: "Europe/Sofia", population: 1_300_000, iata: ["SOF"] },
+  { id: "bern-ch", name: "Bern", country: "Switzerland", countryCode: "CH", admin1: "Bern", lat: 46.9481, lon: 7.4474, tz: "Europe/Zurich", population: 140_000, altNames: ["Berne"] },
+  { id: "zurich-ch", name: "Zurich", country: "Switzerland", countryCode: "CH", admin1: "Zürich", lat: 47.3769, lon: 8.5417, tz: "Europe/Zurich", population: 1_400_000, altNames: ["Zürich"], iata: ["ZRH"] },
+  { id: "lisbon-pt", name: "Lisbon", country: "Portugal", countryCode: "PT", admin1: "Lisboa", lat: 38.7223, lon: -9.1393, tz: "Europe/Lisbon", population: 2_900_000, altNames: ["Lisboa"], iata: ["LIS"] },
+  { id: "zagreb-hr", name: "Zagreb", country: "Croatia", countryCode: "HR", admin1: "Grad Zagreb", lat: 45.815, lon: 15.9819, tz: "Europe/Zagreb", population: 800_000, iata: ["ZAG"] },
+  { id: "belgrade-rs", name: "Belgrade", country: "Serbia", countryCode: "RS", admin1: "Grad Beograd", lat: 44.7866, lon: 20.4489, tz: "Europe/Belgrade", population: 1_400_000, altNames: ["Beograd"], iata: ["BEG"] },
+  { id: "ljubljana-si", name: "Ljubljana", country: "Slovenia", countryCode: "SI", admin1: "Osrednjeslovenska", lat: 46.0569, lon: 14.5058, tz: "Europe/Ljubljana", population: 290_000, iata: ["LJU"] },
+  { id: "bratislava-sk", name: "Bratislava", country: "Slovakia", countryCode: "SK", admin1: "Bratislavský", lat: 48.1486, lon: 17.1077, tz: "Europe/Bratislava", population: 480_000, iata: ["BTS"] },
+  { id: "vilnius-lt", name: "Vilnius", country: "Lithuania", countryCode: "LT", admin1: "Vilniaus", lat: 54.6872, lon: 25.2797, tz: "Europe/Vilnius", population: 590_000, iata: ["VNO"] },
+  { id: "riga-lv", name: "Riga", country: "Latvia", countryCode: "LV", admin1: "Riga", lat: 56.9496, lon: 24.1052, tz: "Europe/Riga", population: 610_000, iata: ["RIX"] },
+  { id: "tallinn-ee", name: "Tallinn", country: "Estonia", countryCode: "EE", admin1: "Harju", lat: 59.437, lon: 24.7536, tz: "Europe/Tallinn", population: 450_000, iata: ["TLL"] },
+  { id: "minsk-by", name: "Minsk", country: "Belarus", countryCode: "BY", admin1: "Minsk", lat: 53.9045, lon: 27.5615, tz: "Europe/Minsk", population: 2_000_000, iata: ["MSQ"] },
+  { id: "kyiv-ua", name: "Kyiv", country: "Ukraine", countryCode: "UA", admin1: "Kyiv", lat: 50.4501, lon: 30.5234, tz: "Europe/Kyiv", population: 3_000_000, altNames: ["Kiev"], iata: ["KBP", "IEV"] },
+  { id: "chisinau-md", name: "Chisinau", country: "Moldova", countryCode: "MD", admin1: "Chisinau", lat: 47.0105, lon: 28.8638, tz: "Europe/Chisinau", population: 640_000, altNames: ["Chișinău", "Kishinev"], iata: ["RMO"] },
+  { id: "skopje-mk", name: "Skopje", country: "North Macedonia", countryCode: "MK", admin1: "Skopje", lat: 41.9981, lon: 21.4254, tz: "Europe/Skopje", population: 530_000, iata: ["SKP"] },
+  { id: "tirana-al", name: "Tirana", country: "Albania", countryCode: "AL", admin1: "Tiranë", lat: 41.3275, lon: 19.8187, tz: "Europe/Tirane", population: 600_000, iata: ["TIA"] },
+  { id: "podgorica-me", name: "Podgorica", country: "Montenegro", countryCode: "ME", admin1: "Podgorica", lat: 42.4304, lon: 19.2594, tz: "Europe/Podgorica", population: 190_000, iata: ["TGD"] },
+  { id: "pristina-xk", name: "Pristina", country: "Kosovo", countryCode: "XK", admin1: "Pristina", lat: 42.6629, lon: 21.1655, tz: "Europe/Belgrade", population: 220_000, altNames: ["Prishtina"], iata: ["PRN"] },
+  { id: "valletta-mt", name: "Valletta", country: "Malta", countryCode: "MT", lat: 35.8989, lon: 14.5146, tz: "Europe/Malta", population: 400_000, iata: ["MLA"] },
+  { id: "nicosia-cy", name: "Nicosia", country: "Cyprus", countryCode: "CY", admin1: "Nicosia", lat: 35.1856, lon: 33.3823, tz: "Asia/Nicosia", population: 330_000, altNames: ["Lefkosia"], iata: ["LCA"] },
+  { id: "luxembourg-city-lu", name: "Luxembourg City", country: "Luxembourg", countryCode: "LU", admin1: "Luxembourg", lat: 49.6116, lon: 6.1319, tz: "Europe/Luxembourg", population: 130_000, iata: ["LUX"] },
+  { id: "monaco-mc", name: "Monaco", country: "Monaco", countryCode: "MC", lat: 43.7384, lon: 7.4246, tz: "Europe/Monaco", population: 39_000, altNames: ["Monte Carlo"] },
+  { id: "andorra-la-vella-ad", name: "Andorra la Vella", country: "Andorra", countryCode: "AD", lat: 42.5063, lon: 1.5218, tz: "Europe/Andorra", population: 23_000 },
+  { id: "san-marino-sm", name: "San Marino", country: "San Marino", countryCode: "SM", lat: 43.9424, lon: 12.4578, tz: "Europe/San_Marino", population: 4_000 },
+  { id: "vaduz-li", name: "Vaduz", country: "Liechtenstein", countryCode: "LI", lat: 47.1410, lon: 9.5209, tz: "Europe/Vaduz", population: 6_000 },
+  { id: "yerevan-am", name: "Yerevan", country: "Armenia", countryCode: "AM", admin1: "Erevan", lat: 40.1872, lon: 44.5152, tz: "Asia/Yerevan", population: 1_100_000, iata: ["EVN"] },
+  { id: "tbilisi-ge", name: "Tbilisi", country: "Georgia", countryCode: "GE", admin1: "Tbilisi", lat: 41.6938, lon: 44.8015, tz: "Asia/Tbilisi", population: 1_200_000, altNames: ["Tiflis"], iata: ["TBS"] },
+  { id: "baku-az", name: "Baku", country: "Azerbaijan", countryCode: "AZ", admin1: "Baki", lat: 40.4093, lon: 49.8671, tz: "Asia/Baku", population: 2_300_000, iata: ["GYD"] },
 
   // Middle East & Central Asia
-  { name: "Dubai", country: "UAE", lat: 25.2048, lon: 55.2708, tz: "Asia/Dubai" },
-  { name: "Tel Aviv", country: "Israel", lat: 32.0853, lon: 34.7818, tz: "Asia/Jerusalem" },
-  { name: "Jerusalem", country: "Israel", lat: 31.7683, lon: 35.2137, tz: "Asia/Jerusalem" },
-  { name: "Riyadh", country: "Saudi Arabia", lat: 24.7136, lon: 46.6753, tz: "Asia/Riyadh" },
-  { name: "Abu Dhabi", country: "UAE", lat: 24.4539, lon: 54.3773, tz: "Asia/Dubai" },
-  { name: "Doha", country: "Qatar", lat: 25.2854, lon: 51.531, tz: "Asia/Qatar" },
-  { name: "Kuwait City", country: "Kuwait", lat: 29.3759, lon: 47.9774, tz: "Asia/Kuwait" },
-  { name: "Muscat", country: "Oman", lat: 23.5859, lon: 58.4059, tz: "Asia/Muscat" },
-  { name: "Manama", country: "Bahrain", lat: 26.225, lon: 50.5862, tz: "Asia/Bahrain" },
-  { name: "Amman", country: "Jordan", lat: 31.9454, lon: 35.9284, tz: "Asia/Amman" },
-  { name: "Beirut", country: "Lebanon", lat: 33.8938, lon: 35.5018, tz: "Asia/Beirut" },
-  { name: "Damascus", country: "Syria", lat: 33.5138, lon: 36.2765, tz: "Asia/Damascus" },
-  { name: "Baghdad", country: "Iraq", lat: 33.3152, lon: 44.3661, tz: "Asia/Baghdad" },
-  { name: "Tehran", country: "Iran", lat: 35.6892, lon: 51.389, tz: "Asia/Tehran" },
-  { name: "Kabul", country: "Afghanistan", lat: 34.5553, lon: 69.2075, tz: "Asia/Kabul" },
-  { name: "Islamabad", country: "Pakistan", lat: 33.6844, lon: 73.0479, tz: "Asia/Karachi" },
-  { name: "Ashgabat", country: "Turkmenistan", lat: 37.9601, lon: 58.3261, tz: "Asia/Ashgabat" },
-  { name: "Tashkent", country: "Uzbekistan", lat: 41.2995, lon: 69.2401, tz: "Asia/Tashkent" },
-  { name: "Almaty", country: "Kazakhstan", lat: 43.2551, lon: 76.9126, tz: "Asia/Almaty" },
-  { name: "Nur-Sultan", country: "Kazakhstan", lat: 51.1801, lon: 71.446, tz: "Asia/Almaty" },
-  { name: "Bishkek", country: "Kyrgyzstan", lat: 42.8746, lon: 74.5698, tz: "Asia/Bishkek" },
-  { name: "Dushanbe", country: "Tajikistan", lat: 38.5598, lon: 68.7733, tz: "Asia/Dushanbe" },
+  { id: "dubai-ae", name: "Dubai", country: "UAE", countryCode: "AE", admin1: "Dubay", lat: 25.2048, lon: 55.2708, tz: "Asia/Dubai", population: 3_600_000, iata: ["DXB", "DWC"] },
+  { id: "tel-aviv-il", name: "Tel Aviv", country: "Israel", countryCode: "IL", admin1: "Tel Aviv", lat: 32.0853, lon: 34.7818, tz: "Asia/Jerusalem", population: 4_200_000, altNames: ["Tel Aviv-Yafo"], iata: ["TLV"] },
+  { id: "jerusalem-il", name: "Jerusalem", country: "Israel", countryCode: "IL", admin1: "Jerusalem", lat: 31.7683, lon: 35.2137, tz: "Asia/Jerusalem", population: 970_000, altNames: ["Al-Quds"] },
+  { id: "riyadh-sa", name: "Riyadh", country: "Saudi Arabia", countryCode: "SA", admin1: "Ar Riyad", lat: 24.7136, lon: 46.6753, tz: "Asia/Riyadh", population: 7_600_000, iata: ["RUH"] },
+  { id: "abu-dhabi-ae", name: "Abu Dhabi", country: "UAE", countryCode: "AE", admin1: "Abu Dhabi", lat: 24.4539, lon: 54.3773, tz: "Asia/Dubai", population: 1_500_000, iata: ["AUH"] },
+  { id: "doha-qa", name: "Doha", country: "Qatar", countryCode: "QA", admin1: "Ad Dawhah", lat: 25.2854, lon: 51.531, tz: "Asia/Qatar", population: 2_400_000, iata: ["DOH"] },
+  { id: "kuwait-city-kw", name: "Kuwait City", country: "Kuwait", countryCode: "KW", admin1: "Al Kuwayt", lat: 29.3759, lon: 47.9774, tz: "Asia/Kuwait", population: 3_100_000, iata: ["KWI"] },
+  { id: "muscat-om", name: "Muscat", country: "Oman", countryCode: "OM", admin1: "Muscat", lat: 23.5859, lon: 58.4059, tz: "Asia/Muscat", population: 1_500_000, iata: ["MCT"] },
+  { id: "manama-bh", name: "Manama", country: "Bahrain", countryCode: "BH", lat: 26.225, lon: 50.5862, tz: "Asia/Bahrain", population: 600_000, iata: ["BAH"] },
+  { id: "amman-jo", name: "Amman", country: "Jordan", countryCode: "JO", admin1: "Amman", lat: 31.9454, lon: 35.9284, tz: "Asia/Amman", population: 4_000_000, iata: ["AMM"] },
+  { id: "beirut-lb", name: "Beirut", country: "Lebanon", countryCode: "LB", admin1: "Beirut", lat: 33.8938, lon: 35.5018, tz: "Asia/Beirut", population: 2_400_000, iata: ["BEY"] },
+  { id: "damascus-sy", name: "Damascus", country: "Syria", countryCode: "SY", admin1: "Damascus", lat: 33.5138, lon: 36.2765, tz: "Asia/Damascus", population: 2_500_000, iata: ["DAM"] },
+  { id: "baghdad-iq", name: "Baghdad", country: "Iraq", countryCode: "IQ", admin1: "Baghdad", lat: 33.3152, lon: 44.3661, tz: "Asia/Baghdad", population: 7_700_000, iata: ["BGW"] },
+  { id: "tehran-ir", name: "Tehran", country: "Iran", countryCode: "IR", admin1: "Tehran", lat: 35.6892, lon: 51.389, tz: "Asia/Tehran", population: 9_400_000, altNames: ["Teheran"], iata: ["IKA", "THR"] },
+  { id: "kabul-af", name: "Kabul", country: "Afghanistan", countryCode: "AF", admin1: "Kabul", lat: 34.5553, lon: 69.2075, tz: "Asia/Kabul", population: 4_600_000, iata: ["KBL"] },
+  { id: "islamabad-pk", name: "Islamabad", country: "Pakistan", countryCode: "PK", admin1: "Islamabad Capital Territory", lat: 33.6844, lon: 73.0479, tz: "Asia/Karachi", population: 1_200_000, iata: ["ISB"] },
+  { id: "ashgabat-tm", name: "Ashgabat", country: "Turkmenistan", countryCode: "TM", admin1: "Ahal", lat: 37.9601, lon: 58.3261, tz: "Asia/Ashgabat", population: 1_000_000, altNames: ["Ashkhabad"], iata: ["ASB"] },
+  { id: "tashkent-uz", name: "Tashkent", country: "Uzbekistan", countryCode: "UZ", admin1: "Tashkent", lat: 41.2995, lon: 69.2401, tz: "Asia/Tashkent", population: 2_900_000, altNames: ["Toshkent"], iata: ["TAS"] },
+  { id: "almaty-kz", name: "Almaty", country: "Kazakhstan", countryCode: "KZ", admin1: "Almaty", lat: 43.2551, lon: 76.9126, tz: "Asia/Almaty", population: 2_200_000, altNames: ["Alma-Ata"], iata: ["ALA"] },
+  { id: "nur-sultan-kz", name: "Nur-Sultan", country: "Kazakhstan", countryCode: "KZ", admin1: "Aqmola", lat: 51.1801, lon: 71.446, tz: "Asia/Almaty", population: 1_400_000, altNames: ["Astana", "Akmola", "Tselinograd"], iata: ["NQZ"] },
+  { id: "bishkek-kg", name: "Bishkek", country: "Kyrgyzstan", countryCode: "KG", admin1: "Bishkek", lat: 42.8746, lon: 74.5698, tz: "Asia/Bishkek", population: 1_100_000, altNames: ["Frunze"], iata: ["FRU"] },
+  { id: "dushanbe-tj", name: "Dushanbe", country: "Tajikistan", countryCode: "TJ", admin1: "Dushanbe", lat: 38.5598, lon: 68.7733, tz: "Asia/Dushanbe", population: 900_000, iata: ["DYU"] },
 
   // South & Southeast Asia
-  { name: "Delhi", country: "India", lat: 28.6139, lon: 77.209, tz: "Asia/Kolkata" },
-  { name: "Mumbai", country: "India", lat: 19.076, lon: 72.8777, tz: "Asia/Kolkata" },
-  { name: "Kolkata", country: "India", lat: 22.5726, lon: 88.3639, tz: "Asia/Kolkata" },
-  { name: "Dhaka", country: "Bangladesh", lat: 23.8103, lon: 90.4125, tz: "Asia/Dhaka" },
-  { name: "Kathmandu", country: "Nepal", lat: 27.7172, lon: 85.324, tz: "Asia/Kathmandu" },
-  { name: "Colombo", country: "Sri Lanka", lat: 6.9271, lon: 79.8612, tz: "Asia/Colombo" },
-  { name: "Karachi", country: "Pakistan", lat: 24.8607, lon: 67.0011, tz: "Asia/Karachi" },
-  { name: "Yangon", country: "Myanmar", lat: 16.8661, lon: 96.1951, tz: "Asia/Rangoon" },
-  { name: "Bangkok", country: "Thailand", lat: 13.7563, lon: 100.5018, tz: "Asia/Bangkok" },
-  { name: "Phnom Penh", country: "Cambodia", lat: 11.5564, lon: 104.9282, tz: "Asia/Phnom_Penh" },
-  { name: "Vientiane", country: "Laos", lat: 17.9757, lon: 102.6331, tz: "Asia/Vientiane" },
-  { name: "Hanoi", country: "Vietnam", lat: 21.0285, lon: 105.8542, tz: "Asia/Ho_Chi_Minh" },
-  { name: "Ho Chi Minh City", country: "Vietnam", lat: 10.8231, lon: 106.6297, tz: "Asia/Ho_Chi_Minh" },
-  { name: "Kuala Lumpur", country: "Malaysia", lat: 3.1390, lon: 101.6869, tz: "Asia/Kuala_Lumpur" },
-  { name: "Singapore", country: "Singapore", lat: 1.3521, lon: 103.8198, tz: "Asia/Singapore" },
-  { name: "Jakarta", country: "Indonesia", lat: -6.2088, lon: 106.8456, tz: "Asia/Jakarta" },
-  { name: "Manila", country: "Philippines", lat: 14.5995, lon: 120.9842, tz: "Asia/Manila" },
-  { name: "Dili", country: "Timor-Leste", lat: -8.5569, lon: 125.5786, tz: "Asia/Dili" },
-  { name: "Bandar Seri Begawan", country: "Brunei", lat: 4.9031, lon: 114.9398, tz: "Asia/Brunei" },
-  { name: "Naypyidaw", country: "Myanmar", lat: 19.7633, lon: 96.0785, tz: "Asia/Rangoon" },
+  { id: "delhi-in", name: "Delhi", country: "India", countryCode: "IN", admin1: "Delhi", lat: 28.6139, lon: 77.209, tz: "Asia/Kolkata", population: 32_900_000, altNames: ["New Delhi"], iata: ["DEL"] },
+  { id: "mumbai-in", name: "Mumbai", country: "India", countryCode: "IN", admin1: "Maharashtra", lat: 19.076, lon: 72.8777, tz: "Asia/Kolkata", population: 21_300_000, altNames: ["Bombay"], iata: ["BOM"] },
+  { id: "kolkata-in", name: "Kolkata", country: "India", countryCode: "IN", admin1: "West Bengal", lat: 22.5726, lon: 88.3639, tz: "Asia/Kolkata", population: 15_300_000, altNames: ["Calcutta"], iata: ["CCU"] },
+  { id: "dhaka-bd", name: "Dhaka", country: "Bangladesh", countryCode: "BD", admin1: "Dhaka", lat: 23.8103, lon: 90.4125, tz: "Asia/Dhaka", population: 23_200_000, altNames: ["Dacca"], iata: ["DAC"] },
+  { id: "kathmandu-np", name: "Kathmandu", country: "Nepal", countryCode: "NP", admin1: "Bagmati", lat: 27.7172, lon: 85.324, tz: "Asia/Kathmandu", population: 1_500_000, iata: ["KTM"] },
+  { id: "colombo-lk", name: "Colombo", country: "Sri Lanka", countryCode: "LK", admin1: "Colombo", lat: 6.9271, lon: 79.8612, tz: "Asia/Colombo", population: 5_600_000, iata: ["CMB"] },
+  { id: "karachi-pk", name: "Karachi", country: "Pakistan", countryCode: "PK", admin1: "Sindh", lat: 24.8607, lon: 67.0011, tz: "Asia/Karachi", population: 17_200_000, iata: ["KHI"] },
+  { id: "yangon-mm", name: "Yangon", country: "Myanmar", countryCode: "MM", admin1: "Yangon", lat: 16.8661, lon: 96.1951, tz: "Asia/Rangoon", population: 5_600_000, altNames: ["Rangoon"], iata: ["RGN"] },
+  { id: "bangkok-th", name: "Bangkok", country: "Thailand", countryCode: "TH", admin1: "Bangkok Metropolis", lat: 13.7563, lon: 100.5018, tz: "Asia/Bangkok", population: 11_200_000, altNames: ["Krung Thep"], iata: ["BKK", "DMK"] },
+  { id: "phnom-penh-kh", name: "Phnom Penh", country: "Cambodia", countryCode: "KH", admin1: "Phnom Penh", lat: 11.5564, lon: 104.9282, tz: "Asia/Phnom_Penh", population: 2_300_000, iata: ["PNH"] },
+  { id: "vientiane-la", name: "Vientiane", country: "Laos", countryCode: "LA", admin1: "Vientiane [prefecture]", lat: 17.9757, lon: 102.6331, tz: "Asia/Vientiane", population: 950_000, iata: ["VTE"] },
+  { id: "hanoi-vn", name: "Hanoi", country: "Vietnam", countryCode: "VN", admin1: "Hà Nội", lat: 21.0285, lon: 105.8542, tz: "Asia/Ho_Chi_Minh", population: 8_400_000, altNames: ["Hà Nội"], iata: ["HAN"] },
+  { id: "ho-chi-minh-city-vn", name: "Ho Chi Minh City", country: "Vietnam", countryCode: "VN", admin1: "Ho Chi Minh City", lat: 10.8231, lon: 106.6297, tz: "Asia/Ho_Chi_Minh", population: 9_400_000, altNames: ["Saigon", "HCMC"], iata: ["SGN"] },
+  { id: "kuala-lumpur-my", name: "Kuala Lumpur", country: "Malaysia", countryCode: "MY", admin1: "Selangor", lat: 3.1390, lon: 101.6869, tz: "Asia/Kuala_Lumpur", population: 8_600_000, altNames: ["KL"], iata: ["KUL"] },
+  { id: "singapore-sg", name: "Singapore", country: "Singapore", countryCode: "SG", lat: 1.3521, lon: 103.8198, tz: "Asia/Singapore", population: 5_900_000, iata: ["SIN"] },
+  { id: "jakarta-id", name: "Jakarta", country: "Indonesia", countryCode: "ID", admin1: "Jakarta Raya", lat: -6.2088, lon: 106.8456, tz: "Asia/Jakarta", population: 11_200_000, altNames: ["Batavia"], iata: ["CGK"] },
+  { id: "manila-ph", name: "Manila", country: "Philippines", countryCode: "PH", admin1: "Metropolitan Manila", lat: 14.5995, lon: 120.9842, tz: "Asia/Manila", population: 14_900_000, iata: ["MNL"] },
+  { id: "dili-tl", name: "Dili", country: "Timor-Leste", countryCode: "TL", admin1: "Dili", lat: -8.5569, lon: 125.5786, tz: "Asia/Dili", population: 280_000, iata: ["DIL"] },
+  { id: "bandar-seri-begawan-bn", name: "Bandar Seri Begawan", country: "Brunei", countryCode: "BN", admin1: "Brunei and Muara", lat: 4.9031, lon: 114.9398, tz: "Asia/Brunei", population: 100_000, iata: ["BWN"] },
+  { id: "naypyidaw-mm", name: "Naypyidaw", country: "Myanmar", countryCode: "MM", admin1: "Naypyidaw Union Territory", lat: 19.7633, lon: 96.0785, tz: "Asia/Rangoon", population: 920_000, altNames: ["Nay Pyi Taw"], iata: ["NYT"] },
 
   // East Asia
-  { name: "Tokyo", country: "Japan", lat: 35.6762, lon: 139.6503, tz: "Asia/Tokyo" },
-  { name: "Seoul", country: "South Korea", lat: 37.5665, lon: 126.978, tz: "Asia/Seoul" },
-  { name: "Pyongyang", country: "North Korea", lat: 39.0392, lon: 125.7625, tz: "Asia/Pyongyang" },
-  { name: "Beijing", country: "China", lat: 39.9042, lon: 116.4074, tz: "Asia/Shanghai" },
-  { name: "Shanghai", country: "China", lat: 31.2304, lon: 121.4737, tz: "Asia/Shanghai" },
-  { name: "Hong Kong", country: "Hong Kong", lat: 22.3193, lon: 114.1694, tz: "Asia/Hong_Kong" },
-  { name: "Taipei", country: "Taiwan", lat: 25.032, lon: 121.5654, tz: "Asia/Taipei" },
-  { name: "Ulaanbaatar", country: "Mongolia", lat: 47.8864, lon: 106.9057, tz: "Asia/Ulaanbaatar" },
+  { id: "tokyo-jp", name: "Tokyo", country: "Japan", countryCode: "JP", admin1: "Tokyo", lat: 35.6762, lon: 139.6503, tz: "Asia/Tokyo", population: 37_100_000, altNames: ["Edo"], iata: ["HND", "NRT"] },
+  { id: "seoul-kr", name: "Seoul", country: "South Korea", countryCode: "KR", admin1: "Seoul", lat: 37.5665, lon: 126.978, tz: "Asia/Seoul", population: 9_900_000, iata: ["ICN", "GMP"] },
+  { id: "pyongyang-kp", name: "Pyongyang", country: "North Korea", countryCode: "KP", admin1: "P'yongyang", lat: 39.0392, lon: 125.7625, tz: "Asia/Pyongyang", population: 3_100_000, iata: ["FNJ"] },
+  { id: "beijing-cn", name: "Beijing", country: "China", countryCode: "CN", admin1: "Beijing", lat: 39.9042, lon: 116.4074, tz: "Asia/Shanghai", population: 21_800_000, altNames: ["Peking", "Peiping"], iata: ["PEK", "PKX"] },
+  { id: "shanghai-cn", name: "Shanghai", country: "China", countryCode: "CN", admin1: "Shanghai", lat: 31.2304, lon: 121.4737, tz: "Asia/Shanghai", population: 29_200_000, iata: ["PVG", "SHA"] },
+  { id: "hong-kong-hk", name: "Hong Kong", country: "Hong Kong", countryCode: "HK", lat: 22.3193, lon: 114.1694, tz: "Asia/Hong_Kong", population: 7_500_000, altNames: ["HK"], iata: ["HKG"] },
+  { id: "taipei-tw", name: "Taipei", country: "Taiwan", countryCode: "TW", admin1: "Taipei City", lat: 25.032, lon: 121.5654, tz: "Asia/Taipei", population: 7_000_000, altNames: ["Taipeh"], iata: ["TPE", "TSA"] },
+  { id: "ulaanbaatar-mn", name: "Ulaanbaatar", country: "Mongolia", countryCode: "MN", admin1: "Ulaanbaatar", lat: 47.8864, lon: 106.9057, tz: "Asia/Ulaanbaatar", population: 1_700_000, altNames: ["Ulan Bator"], iata: ["UBN"] },
 
   // Russia & Far East
-  { name: "St. Petersburg", country: "Russia", lat: 59.9343, lon: 30.3351, tz: "Europe/Moscow" },
-  { name: "Novosibirsk", country: "Russia", lat: 55.0084, lon: 82.9357, tz: "Asia/Novosibirsk" },
-  { name: "Yekaterinburg", country: "Russia", lat: 56.8389, lon: 60.6057, tz: "Asia/Yekaterinburg" },
-  { name: "Omsk", country: "Russia", lat: 54.9885, lon: 73.3242, tz: "Asia/Omsk" },
-  { name: "Krasnoyarsk", country: "Russia", lat: 56.0153, lon: 92.8932, tz: "Asia/Krasnoyarsk" },
-  { name: "Irkutsk", country: "Russia", lat: 52.2978, lon: 104.2964, tz: "Asia/Irkutsk" },
-  { name: "Yakutsk", country: "Russia", lat: 62.0355, lon: 129.6755, tz: "Asia/Yakutsk" },
-  { name: "Vladivostok", country: "Russia", lat: 43.1155, lon: 131.8855, tz: "Asia/Vladivostok" },
-  { name: "Magadan", country: "Russia", lat: 59.5681, lon: 150.8085, tz: "Asia/Magadan" },
-  { name: "Petropavlovsk-Kamchatsky", country: "Russia", lat: 53.0452, lon: 158.6601, tz: "Asia/Kamchatka" },
+  { id: "st-petersburg-ru", name: "St. Petersburg", country: "Russia", countryCode: "RU", admin1: "City of St. Petersburg", lat: 59.9343, lon: 30.3351, tz: "Europe/Moscow", population: 5_400_000, altNames: ["Saint Petersburg", "Leningrad", "Petrograd"], iata: ["LED"] },
+  { id: "novosibirsk-ru", name: "Novosibirsk", country: "Russia", countryCode: "RU", admin1: "Novosibirsk", lat: 55.0084, lon: 82.9357, tz: "Asia/Novosibirsk", population: 1_600_000, iata: ["OVB"] },
+  { id: "yekaterinburg-ru", name: "Yekaterinburg", country: "Russia", countryCode: "RU", admin1: "Sverdlovsk", lat: 56.8389, lon: 60.6057, tz: "Asia/Yekaterinburg", population: 1_500_000, altNames: ["Ekaterinburg", "Sverdlovsk"], iata: ["SVX"] },
+  { id: "omsk-ru", name: "Omsk", country: "Russia", countryCode: "RU", admin1: "Omsk", lat: 54.9885, lon: 73.3242, tz: "Asia/Omsk", population: 1_100_000, iata: ["OMS"] },
+  { id: "krasnoyarsk-ru", name: "Krasnoyarsk", country: "Russia", countryCode: "RU", admin1: "Krasnoyarsk", lat: 56.0153, lon: 92.8932, tz: "Asia/Krasnoyarsk", population: 1_200_000, iata: ["KJA"] },
+  { id: "irkutsk-ru", name: "Irkutsk", country: "Russia", countryCode: "RU", admin1: "Irkutsk", lat: 52.2978, lon: 104.2964, tz: "Asia/Irkutsk", population: 620_000, iata: ["IKT"] },
+  { id: "yakutsk-ru", name: "Yakutsk", country: "Russia", countryCode: "RU", admin1: "Sakha (Yakutia)", lat: 62.0355, lon: 129.6755, tz: "Asia/Yakutsk", population: 360_000, iata: ["YKS"] },
+  { id: "vladivostok-ru", name: "Vladivostok", country: "Russia", countryCode: "RU", admin1: "Primor'ye", lat: 43.1155, lon: 131.8855, tz: "Asia/Vladivostok", population: 600_000, iata: ["VVO"] },
+  { id: "magadan-ru", name: "Magadan", country: "Russia", countryCode: "RU", admin1: "Magadan", lat: 59.5681, lon: 150.8085, tz: "Asia/Magadan", population: 90_000, iata: ["GDX"] },
+  { id: "petropavlovsk-kamchatsky-ru", name: "Petropavlovsk-Kamchatsky", country: "Russia", countryCode: "RU", admin1: "Kamchatka", lat: 53.0452, lon: 158.6601, tz: "Asia/Kamchatka", population: 165_000, iata: ["PKC"] },
 
   // Africa
-  { name: "Cairo", country: "Egypt", lat: 30.0444, lon: 31.2357, tz: "Africa/Cairo" },
-  { name: "Lagos", country: "Nigeria", lat: 6.5244, lon: 3.3792, tz: "Africa/Lagos" },
-  { name: "Johannesburg", country: "South Africa", lat: -26.2041, lon: 28.0473, tz: "Africa/Johannesburg" },
-  { name: "Cape Town", country: "South Africa", lat: -33.9249, lon: 18.4241, tz: "Africa/Johannesburg" },
-  { name: "Nairobi", country: "Kenya", lat: -1.2921, lon: 36.8219, tz: "Africa/Nairobi" },
-  { name: "Addis Ababa", country: "Ethiopia", lat: 9.03, lon: 38.7469, tz: "Africa/Addis_Ababa" },
-  { name: "Khartoum", country: "Sudan", lat: 15.5007, lon: 32.5599, tz: "Africa/Khartoum" },
-  { name: "Accra", country: "Ghana", lat: 5.6037, lon: -0.187, tz: "Africa/Accra" },
-  { name: "Abuja", country: "Nigeria", lat: 9.0765, lon: 7.3986, tz: "Africa/Lagos" },
-  { name: "Kinshasa", country: "DR Congo", lat: -4.4419, lon: 15.2663, tz: "Africa/Kinshasa" },
-  { name: "Luanda", country: "Angola", lat: -8.8368, lon: 13.2343, tz: "Africa/Luanda" },
-  { name: "Dar es Salaam", country: "Tanzania", lat: -6.7924, lon: 39.2083, tz: "Africa/Dar_es_Salaam" },
-  { name: "Dodoma", country: "Tanzania", lat: -6.1722, lon: 35.7395, tz: "Africa/Dar_es_Salaam" },
-  { name: "Kampala", country: "Uganda", lat: 0.3163, lon: 32.5822, tz: "Africa/Kampala" },
-  { name: "Kigali", country: "Rwanda", lat: -1.9441, lon: 30.0619, tz: "Africa/Kigali" },
-  { name: "Lusaka", country: "Zambia", lat: -15.4167, lon: 28.2833, tz: "Africa/Lusaka" },
-  { name: "Harare", country: "Zimbabwe", lat: -17.8292, lon: 31.0522, tz: "Africa/Harare" },
-  { name: "Maputo", country: "Mozambique", lat: -25.9692, lon: 32.5732, tz: "Africa/Maputo" },
-  { name: "Antananarivo", country: "Madagascar", lat: -18.9137, lon: 47.5361, tz: "Indian/Antananarivo" },
-  { name: "Windhoek", country: "Namibia", lat: -22.5597, lon: 17.0832, tz: "Africa/Windhoek" },
-  { name: "Gaborone", country: "Botswana", lat: -24.6541, lon: 25.9087, tz: "Africa/Gaborone" },
-  { name: "Mbabane", country: "Eswatini", lat: -26.3054, lon: 31.1367, tz: "Africa/Mbabane" },
-  { name: "Maseru", country: "Lesotho", lat: -29.3167, lon: 27.4833, tz: "Africa/Maseru" },
-  { name: "Lilongwe", country: "Malawi", lat: -13.9626, lon: 33.7741, tz: "Africa/Blantyre" },
-  { name: "Moroni", country: "Comoros", lat: -11.7022, lon: 43.2551, tz: "Indian/Comoro" },
-  { name: "Port Louis", country: "Mauritius", lat: -20.1609, lon: 57.4989, tz: "Indian/Mauritius" },
-  { name: "Victoria", country: "Seychelles", lat: -4.6236, lon: 55.4513, tz: "Indian/Mahe" },
-  { name: "Djibouti", country: "Djibouti", lat: 11.8251, lon: 42.5903, tz: "Africa/Djibouti" },
-  { name: "Mogadishu", country: "Somalia", lat: 2.0469, lon: 45.3182, tz: "Africa/Mogadishu" },
-  { name: "Asmara", country: "Eritrea", lat: 15.3229, lon: 38.9251, tz: "Africa/Asmara" },
-  { name: "Juba", country: "South Sudan", lat: 4.8594, lon: 31.5713, tz: "Africa/Juba" },
-  { name: "N'Djamena", country: "Chad", lat: 12.1048, lon: 15.0445, tz: "Africa/Ndjamena" },
-  { name: "Niamey", country: "Niger", lat: 13.5137, lon: 2.1098, tz: "Africa/Niamey" },
-  { name: "Bamako", country: "Mali", lat: 12.6392, lon: -8.0029, tz: "Africa/Bamako" },
-  { name: "Ouagadougou", country: "Burkina Faso", lat: 12.3714, lon: -1.5197, tz: "Africa/Ouagadougou" },
-  { name: "Dakar", country: "Senegal", lat: 14.7167, lon: -17.4677, tz: "Africa/Dakar" },
-  { name: "Conakry", country: "Guinea", lat: 9.537, lon: -13.6773, tz: "Africa/Conakry" },
-  { name: "Freetown", country: "Sierra Leone", lat: 8.4697, lon: -13.2659, tz: "Africa/Freetown" },
-  { name: "Monrovia", country: "Liberia", lat: 6.2907, lon: -10.7607, tz: "Africa/Monrovia" },
-  { name: "Abidjan", country: "Ivory Coast", lat: 5.3599, lon: -4.0083, tz: "Africa/Abidjan" },
-  { name: "Yamoussoukro", country: "Ivory Coast", lat: 6.8276, lon: -5.2893, tz: "Africa/Abidjan" },
-  { name: "Lomé", country: "Togo", lat: 6.1375, lon: 1.2123, tz: "Africa/Lome" },
-  { name: "Cotonou", country: "Benin", lat: 6.3654, lon: 2.4183, tz: "Africa/Porto-Novo" },
-  { name: "Porto-Novo", country: "Benin", lat: 6.4969, lon: 2.6289, tz: "Africa/Porto-Novo" },
-  { name: "Malabo", country: "Equatorial Guinea", lat: 3.75, lon: 8.7833, tz: "Africa/Malabo" },
-  { name: "Libreville", country: "Gabon", lat: 0.3901, lon: 9.4544, tz: "Africa/Libreville" },
-  { name: "Yaoundé", country: "Cameroon", lat: 3.8667, lon: 11.5167, tz: "Africa/Douala" },
-  { name: "Bangui", country: "Central African Republic", lat: 4.3612, lon: 18.5550, tz: "Africa/Bangui" },
-  { name: "Brazzaville", country: "Republic of the Congo", lat: -4.2634, lon: 15.2429, tz: "Africa/Brazzaville" },
-  { name: "São Tomé", country: "São Tomé and Príncipe", lat: 0.3365, lon: 6.7273, tz: "Africa/Sao_Tome" },
-  { name: "Bujumbura", country: "Burundi", lat: -3.3822, lon: 29.3644, tz: "Africa/Bujumbura" },
-  { name: "Tripoli", country: "Libya", lat: 32.9025, lon: 13.1800, tz: "Africa/Tripoli" },
-  { name: "Tunis", country: "Tunisia", lat: 36.8065, lon: 10.1815, tz: "Africa/Tunis" },
-  { name: "Algiers", country: "Algeria", lat: 36.7538, lon: 3.0588, tz: "Africa/Algiers" },
-  { name: "Rabat", country: "Morocco", lat: 34.0209, lon: -6.8416, tz: "Africa/Casablanca" },
-  { name: "Casablanca", country: "Morocco", lat: 33.5731, lon: -7.5898, tz: "Africa/Casablanca" },
-  { name: "Nouakchott", country: "Mauritania", lat: 18.0735, lon: -15.9582, tz: "Africa/Nouakchott" },
-  { name: "Praia", country: "Cape Verde", lat: 14.9315, lon: -23.5134, tz: "Atlantic/Cape_Verde" },
-  { name: "Bissau", country: "Guinea-Bissau", lat: 11.8636, lon: -15.5977, tz: "Africa/Bissau" },
-  { name: "Banjul", country: "Gambia", lat: 13.4531, lon: -16.5775, tz: "Africa/Banjul" },
+  { id: "cairo-eg", name: "Cairo", country: "Egypt", countryCode: "EG", admin1: "Al Qahirah", lat: 30.0444, lon: 31.2357, tz: "Africa/Cairo", population: 22_600_000, altNames: ["Al-Qahirah"], iata: ["CAI"] },
+  { id: "lagos-ng", name: "Lagos", country: "Nigeria", countryCode: "NG", admin1: "Lagos", lat: 6.5244, lon: 3.3792, tz: "Africa/Lagos", population: 15_900_000, iata: ["LOS"] },
+  { id: "johannesburg-za", name: "Johannesburg", country: "South Africa", countryCode: "ZA", admin1: "Gauteng", lat: -26.2041, lon: 28.0473, tz: "Africa/Johannesburg", population: 6_200_000, altNames: ["Joburg", "Jozi"], iata: ["JNB"] },
+  { id: "cape-town-za", name: "Cape Town", country: "South Africa", countryCode: "ZA", admin1: "Western Cape", lat: -33.9249, lon: 18.4241, tz: "Africa/Johannesburg", population: 4_800_000, altNames: ["Kaapstad"], iata: ["CPT"] },
+  { id: "nairobi-ke", name: "Nairobi", country: "Kenya", countryCode: "KE", admin1: "Nairobi", lat: -1.2921, lon: 36.8219, tz: "Africa/Nairobi", population: 5_300_000, iata: ["NBO"] },
+  { id: "addis-ababa-et", name: "Addis Ababa", country: "Ethiopia", countryCode: "ET", admin1: "Addis Ababa", lat: 9.03, lon: 38.7469, tz: "Africa/Addis_Ababa", population: 5_500_000, altNames: ["Addis Abeba"], iata: ["ADD"] },
+  { id: "khartoum-sd", name: "Khartoum", country: "Sudan", countryCode: "SD", admin1: "Khartoum", lat: 15.5007, lon: 32.5599, tz: "Africa/Khartoum", population: 6_300_000, iata: ["KRT"] },
+  { id: "accra-gh", name: "Accra", country: "Ghana", countryCode: "GH", admin1: "Greater Accra", lat: 5.6037, lon: -0.187, tz: "Africa/Accra", population: 2_700_000, iata: ["ACC"] },
+  { id: "abuja-ng", name: "Abuja", country: "Nigeria", countryCode: "NG", admin1: "Federal Capital Territory", lat: 9.0765, lon: 7.3986, tz: "Africa/Lagos", population: 3_800_000, iata: ["ABV"] },
+  { id: "kinshasa-cd", name: "Kinshasa", country: "DR Congo", countryCode: "CD", admin1: "Kinshasa City", lat: -4.4419, lon: 15.2663, tz: "Africa/Kinshasa", population: 17_000_000, altNames: ["Léopoldville"], iata: ["FIH"] },
+  { id: "luanda-ao", name: "Luanda", country: "Angola", countryCode: "AO", admin1: "Luanda", lat: -8.8368, lon: 13.2343, tz: "Africa/Luanda", population: 9_300_000, iata: ["LAD"] },
+  { id: "dar-es-salaam-tz", name: "Dar es Salaam", country: "Tanzania", countryCode: "TZ", admin1: "Dar-Es-Salaam", lat: -6.7924, lon: 39.2083, tz: "Africa/Dar_es_Salaam", population: 7_800_000, iata: ["DAR"] },
+  { id: "dodoma-tz", name: "Dodoma", country: "Tanzania", countryCode: "TZ", admin1: "Dodoma", lat: -6.1722, lon: 35.7395, tz: "Africa/Dar_es_Salaam", population: 260_000, iata: ["DOD"] },
+  { id: "kampala-ug", name: "Kampala", country: "Uganda", countryCode: "UG", admin1: "Kampala", lat: 0.3163, lon: 32.5822, tz: "Africa/Kampala", population: 3_800_000, iata: ["EBB"] },
+  { id: "kigali-rw", name: "Kigali", country: "Rwanda", countryCode: "RW", admin1: "Kigali City", lat: -1.9441, lon: 30.0619, tz: "Africa/Kigali", population: 1_300_000, iata: ["KGL"] },
+  { id: "lusaka-zm", name: "Lusaka", country: "Zambia", countryCode: "ZM", admin1: "Lusaka", lat: -15.4167, lon: 28.2833, tz: "Africa/Lusaka", population: 3_200_000, iata: ["LUN"] },
+  { id: "harare-zw", name: "Harare", country: "Zimbabwe", countryCode: "ZW", admin1: "Harare", lat: -17.8292, lon: 31.0522, tz: "Africa/Harare", population: 1_600_000, altNames: ["Salisbury"], iata: ["HRE"] },
+  { id: "maputo-mz", name: "Maputo", country: "Mozambique", countryCode: "MZ", admin1: "Maputo", lat: -25.9692, lon: 32.5732, tz: "Africa/Maputo", population: 1_200_000, altNames: ["Lourenço Marques"], iata: ["MPM"] },
+  { id: "antananarivo-mg", name: "Antananarivo", country: "Madagascar", countryCode: "MG", admin1: "Antananarivo", lat: -18.9137, lon: 47.5361, tz: "Indian/Antananarivo", population: 3_900_000, altNames: ["Tana"], iata: ["TNR"] },
+  { id: "windhoek-na", name: "Windhoek", country: "Namibia", countryCode: "NA", admin1: "Khomas", lat: -22.5597, lon: 17.0832, tz: "Africa/Windhoek", population: 470_000, iata: ["WDH"] },
+  { id: "gaborone-bw", name: "Gaborone", country: "Botswana", countryCode: "BW", admin1: "South-East", lat: -24.6541, lon: 25.9087, tz: "Africa/Gaborone", population: 250_000, iata: ["GBE"] },
+  { id: "mbabane-sz", name: "Mbabane", country: "Eswatini", countryCode: "SZ", admin1: "Hhohho", lat: -26.3054, lon: 31.1367, tz: "Africa/Mbabane", population: 95_000 },
+  { id: "maseru-ls", name: "Maseru", country: "Lesotho", countryCode: "LS", admin1: "Maseru", lat: -29.3167, lon: 27.4833, tz: "Africa/Maseru", population: 330_000, iata: ["MSU"] },
+  { id: "lilongwe-mw", name: "Lilongwe", country: "Malawi", countryCode: "MW", admin1: "Lilongwe", lat: -13.9626, lon: 33.7741, tz: "Africa/Blantyre", population: 1_200_000, iata: ["LLW"] },
+  { id: "moroni-km", name: "Moroni", country: "Comoros", countryCode: "KM", lat: -11.7022, lon: 43.2551, tz: "Indian/Comoro", population: 62_000, iata: ["HAH"] },
+  { id: "port-louis-mu", name: "Port Louis", country: "Mauritius", countryCode: "MU", lat: -20.1609, lon: 57.4989, tz: "Indian/Mauritius", population: 150_000, iata: ["MRU"] },
+  { id: "victoria-sc", name: "Victoria", country: "Seychelles", countryCode: "SC", lat: -4.6236, lon: 55.4513, tz: "Indian/Mahe", population: 27_000, iata: ["SEZ"] },
+  { id: "djibouti-dj", name: "Djibouti", country: "Djibouti", countryCode: "DJ", admin1: "Djibouti", lat: 11.8251, lon: 42.5903, tz: "Africa/Djibouti", population: 620_000, iata: ["JIB"] },
+  { id: "mogadishu-so", name: "Mogadishu", country: "Somalia", countryCode: "SO", admin1: "Banaadir", lat: 2.0469, lon: 45.3182, tz: "Africa/Mogadishu", population: 2_600_000, iata: ["MGQ"] },
+  { id: "asmara-er", name: "Asmara", country: "Eritrea", countryCode: "ER", admin1: "Maekel", lat: 15.3229, lon: 38.9251, tz: "Africa/Asmara", population: 1_000_000, iata: ["ASM"] },
+  { id: "juba-ss", name: "Juba", country: "South Sudan", countryCode: "SS", admin1: "Central Equatoria", lat: 4.8594, lon: 31.5713, tz: "Africa/Juba", population: 530_000, iata: ["JUB"] },
+  { id: "ndjamena-td", name: "N'Djamena", country: "Chad", countryCode: "TD", admin1: "N'Djamena", lat: 12.1048, lon: 15.0445, tz: "Africa/Ndjamena", population: 1_600_000, altNames: ["Ndjamena", "Fort-Lamy"], iata: ["NDJ"] },
+  { id: "niamey-ne", name: "Niamey", country: "Niger", countryCode: "NE", admin1: "Niamey", lat: 13.5137, lon: 2.1098, tz: "Africa/Niamey", population: 1_400_000, iata: ["NIM"] },
+  { id: "bamako-ml", name: "Bamako", country: "Mali", countryCode: "ML", admin1: "Bamako", lat: 12.6392, lon: -8.0029, tz: "Africa/Bamako", population: 3_000_000, iata: ["BKO"] },
+  { id: "ouagadougou-bf", name: "Ouagadougou", country: "Burkina Faso", countryCode: "BF", admin1: "Kadiogo", lat: 12.3714, lon: -1.5197, tz: "Africa/Ouagadougou", population: 3_000_000, altNames: ["Ouaga"], iata: ["OUA"] },
+  { id: "dakar-sn", name: "Dakar", country: "Senegal", countryCode: "SN", admin1: "Dakar", lat: 14.7167, lon: -17.4677, tz: "Africa/Dakar", population: 3_400_000, iata: ["DSS"] },
+  { id: "conakry-gn", name: "Conakry", country: "Guinea", countryCode: "GN", admin1: "Conakry", lat: 9.537, lon: -13.6773, tz: "Africa/Conakry", population: 2_000_000, iata: ["CKY"] },
+  { id: "freetown-sl", name: "Freetown", country: "Sierra Leone", countryCode: "SL", admin1: "Western", lat: 8.4697, lon: -13.2659, tz: "Africa/Freetown", population: 1_300_000, iata: ["FNA"] },
+  { id: "monrovia-lr", name: "Monrovia", country: "Liberia", countryCode: "LR", admin1: "Montserrado", lat: 6.2907, lon: -10.7607, tz: "Africa/Monrovia", population: 1_600_000, iata: ["ROB"] },
+  { id: "abidjan-ci", name: "Abidjan", country: "Ivory Coast", countryCode: "CI", admin1: "Lagunes", lat: 5.3599, lon: -4.0083, tz: "Africa/Abidjan", population: 5_900_000, iata: ["ABJ"] },
+  { id: "yamoussoukro-ci", name: "Yamoussoukro", country: "Ivory Coast", countryCode: "CI", admin1: "Lacs", lat: 6.8276, lon: -5.2893, tz: "Africa/Abidjan", population: 360_000, iata: ["ASK"] },
+  { id: "lome-tg", name: "Lomé", country: "Togo", countryCode: "TG", admin1: "Maritime", lat: 6.1375, lon: 1.2123, tz: "Africa/Lome", population: 2_000_000, iata: ["LFW"] },
+  { id: "cotonou-bj", name: "Cotonou", country: "Benin", countryCode: "BJ", admin1: "Ouémé", lat: 6.3654, lon: 2.4183, tz: "Africa/Porto-Novo", population: 2_400_000, iata: ["COO"] },
+  { id: "porto-novo-bj", name: "Porto-Novo", country: "Benin", countryCode: "BJ", admin1: "Ouémé", lat: 6.4969, lon: 2.6289, tz: "Africa/Porto-Novo", population: 290_000 },
+  { id: "malabo-gq", name: "Malabo", country: "Equatorial Guinea", countryCode: "GQ", admin1: "Bioko Norte", lat: 3.75, lon: 8.7833, tz: "Africa/Malabo", population: 300_000, iata: ["SSG"] },
+  { id: "libreville-ga", name: "Libreville", country: "Gabon", countryCode: "GA", admin1: "Estuaire", lat: 0.3901, lon: 9.4544, tz: "Africa/Libreville", population: 850_000, iata: ["LBV"] },
+  { id: "yaounde-cm", name: "Yaoundé", country: "Cameroon", countryCode: "CM", admin1: "Centre", lat: 3.8667, lon: 11.5167, tz: "Africa/Douala", population: 4_500_000, iata: ["NSI"] },
+  { id: "bangui-cf", name: "Bangui", country: "Central African Republic", countryCode: "CF", admin1: "Bangui", lat: 4.3612, lon: 18.5550, tz: "Africa/Bangui", population: 950_000, iata: ["BGF"] },
+  { id: "brazzaville-cg", name: "Brazzaville", country: "Republic of the Congo", countryCode: "CG", admin1: "Pool", lat: -4.2634, lon: 15.2429, tz: "Africa/Brazzaville", population: 2_500_000, iata: ["BZV"] },
+  { id: "sao-tome-st", name: "São Tomé", country: "São Tomé and Príncipe", countryCode: "ST", lat: 0.3365, lon: 6.7273, tz: "Africa/Sao_Tome", population: 90_000, iata: ["TMS"] },
+  { id: "bujumbura-bi", name: "Bujumbura", country: "Burundi", countryCode: "BI", admin1: "Bujumbura Mairie", lat: -3.3822, lon: 29.3644, tz: "Africa/Bujumbura", population: 1_100_000, iata: ["BJM"] },
+  { id: "tripoli-ly", name: "Tripoli", country: "Libya", countryCode: "LY", admin1: "Tripoli", lat: 32.9025, lon: 13.1800, tz: "Africa/Tripoli", population: 1_200_000, altNames: ["Tarabulus"], iata: ["MJI"] },
+  { id: "tunis-tn", name: "Tunis", country: "Tunisia", countryCode: "TN", admin1: "Tunis", lat: 36.8065, lon: 10.1815, tz: "Africa/Tunis", population: 2_400_000, iata: ["TUN"] },
+  { id: "algiers-dz", name: "Algiers", country: "Algeria", countryCode: "DZ", admin1: "Alger", lat: 36.7538, lon: 3.0588, tz: "Africa/Algiers", population: 3_000_000, altNames: ["Alger", "El Djazair"], iata: ["ALG"] },
+  { id: "rabat-ma", name: "Rabat", country: "Morocco", countryCode: "MA", admin1: "Rabat - Salé - Zemmour - Zaer", lat: 34.0209, lon: -6.8416, tz: "Africa/Casablanca", population: 1_900_000, iata: ["RBA"] },
+  { id: "casablanca-ma", name: "Casablanca", country: "Morocco", countryCode: "MA", admin1: "Grand Casablanca", lat: 33.5731, lon: -7.5898, tz: "Africa/Casablanca", population: 3_900_000, altNames: ["Casa", "Dar el Beida"], iata: ["CMN"] },
+  { id: "nouakchott-mr", name: "Nouakchott", country: "Mauritania", countryCode: "MR", admin1: "Nouakchott", lat: 18.0735, lon: -15.9582, tz: "Africa/Nouakchott", population: 1_400_000, iata: ["NKC"] },
+  { id: "praia-cv", name: "Praia", country: "Cape Verde", countryCode: "CV", lat: 14.9315, lon: -23.5134, tz: "Atlantic/Cape_Verde", population: 160_000, iata: ["RAI"] },
+  { id: "bissau-gw", name: "Bissau", country: "Guinea-Bissau", countryCode: "GW", admin1: "Bissau", lat: 11.8636, lon: -15.5977, tz: "Africa/Bissau", population: 500_000, iata: ["OXB"] },
+  { id: "banjul-gm", name: "Banjul", country: "Gambia", countryCode: "GM", admin1: "Banjul", lat: 13.4531, lon: -16.5775, tz: "Africa/Banjul", population: 400_000, iata: ["BJL"] },
 
   // Americas - North
-  { name: "New York", country: "United States", lat: 40.7128, lon: -74.006, tz: "America/New_York" },
-  { name: "Washington D.C.", country: "United States", lat: 38.9072, lon: -77.0369, tz: "America/New_York" },
-  { name: "Chicago", country: "United States", lat: 41.8781, lon: -87.6298, tz: "America/Chicago" },
-  { name: "Denver", country: "United States", lat: 39.7392, lon: -104.9903, tz: "America/Denver" },
-  { name: "Los Angeles", country: "United States", lat: 34.0522, lon: -118.2437, tz: "America/Los_Angeles" },
-  { name: "San Francisco", country: "United States", lat: 37.7749, lon: -122.4194, tz: "America/Los_Angeles" },
-  { name: "Seattle", country: "United States", lat: 47.6062, lon: -122.3321, tz: "America/Los_Angeles" },
-  { name: "Toronto", country: "Canada", lat: 43.6532, lon: -79.3832, tz: "America/Toronto" },
-  { name: "Vancouver", country: "Canada", lat: 49.2827, lon: -123.1207, tz: "America/Vancouver" },
-  { name: "Ottawa", country: "Canada", lat: 45.4215, lon: -75.6919, tz: "America/Toronto" },
-  { name: "Montreal", country: "Canada", lat: 45.5017, lon: -73.5673, tz: "America/Toronto" },
-  { name: "Calgary", country: "Canada", lat: 51.0447, lon: -114.0719, tz: "America/Edmonton" },
-  { name: "Edmonton", country: "Canada", lat: 53.5461, lon: -113.4938, tz: "America/Edmonton" },
-  { name: "Winnipeg", country: "Canada", lat: 49.8951, lon: -97.1384, tz: "America/Winnipeg" },
-  { name: "Halifax", country: "Canada", lat: 44.6488, lon: -63.5752, tz: "America/Halifax" },
-  { name: "St. John's", country: "Canada", lat: 47.5556, lon: -52.7453, tz: "America/St_Johns" },
-  { name: "Mexico City", country: "Mexico", lat: 19.4326, lon: -99.1332, tz: "America/Mexico_City" },
-  { name: "Guadalajara", country: "Mexico", lat: 20.6597, lon: -103.3496, tz: "America/Mexico_City" },
-  { name: "Monterrey", country: "Mexico", lat: 25.6866, lon: -100.3161, tz: "America/Monterrey" },
-  { name: "Tijuana", country: "Mexico", lat: 32.5149, lon: -117.0382, tz: "America/Tijuana" },
-  { name: "Anchorage", country: "United States", lat: 61.2181, lon: -149.9, tz: "America/Anchorage" },
-  { name: "Honolulu", country: "United States", lat: 21.3069, lon: -157.8583, tz: "Pacific/Honolulu" },
-  { name: "Phoenix", country: "United States", lat: 33.4484, lon: -112.074, tz: "America/Phoenix" },
-  { name: "Dallas", country: "United States", lat: 32.7767, lon: -96.797, tz: "America/Chicago" },
-  { name: "Houston", country: "United States", lat: 29.7604, lon: -95.3698, tz: "America/Chicago" },
-  { name: "Atlanta", country: "United States", lat: 33.749, lon: -84.388, tz: "America/New_York" },
-  { name: "Miami", country: "United States", lat: 25.7617, lon: -80.1918, tz: "America/New_York" },
-  { name: "Boston", country: "United States", lat: 42.3601, lon: -71.0589, tz: "America/New_York" },
-  { name: "Detroit", country: "United States", lat: 42.3314, lon: -83.0458, tz: "America/Detroit" },
-  { name: "Minneapolis", country: "United States", lat: 44.9778, lon: -93.265, tz: "America/Chicago" },
-  { name: "Kansas City", country: "United States", lat: 39.0997, lon: -94.5786, tz: "America/Chicago" },
-  { name: "Las Vegas", country: "United States", lat: 36.1699, lon: -115.1398, tz: "America/Los_Angeles" },
+  { id: "new-york-us", name: "New York", country: "United States", countryCode: "US", admin1: "New York", lat: 40.7128, lon: -74.006, tz: "America/New_York", population: 19_500_000, altNames: ["NYC", "New York City", "Big Apple", "Manhattan"], iata: ["JFK", "LGA", "EWR"] },
+  { id: "washington-dc-us", name: "Washington D.C.", country: "United States", countryCode: "US", admin1: "District of Columbia", lat: 38.9072, lon: -77.0369, tz: "America/New_York", population: 6_300_000, altNames: ["Washington", "DC"], iata: ["IAD", "DCA"] },
+  { id: "chicago-us", name: "Chicago", country: "United States", countryCode: "US", admin1: "Illinois", lat: 41.8781, lon: -87.6298, tz: "America/Chicago", population: 9_400_000, altNames: ["Chi-town"], iata: ["ORD", "MDW"] },
+  { id: "denver-us", name: "Denver", country: "United States", countryCode: "US", admin1: "Colorado", lat: 39.7392, lon: -104.9903, tz: "America/Denver", population: 3_000_000, iata: ["DEN"] },
+  { id: "los-angeles-us", name: "Los Angeles", country: "United States", countryCode: "US", admin1: "California", lat: 34.0522, lon: -118.2437, tz: "America/Los_Angeles", population: 12_800_000, altNames: ["LA"], iata: ["LAX"] },
+  { id: "san-francisco-us", name: "San Francisco", country: "United States", countryCode: "US", admin1: "California", lat: 37.7749, lon: -122.4194, tz: "America/Los_Angeles", population: 4_700_000, altNames: ["SF", "Bay Area", "Frisco"], iata: ["SFO"] },
+  { id: "seattle-us", name: "Seattle", country: "United States", countryCode: "US", admin1: "Washington", lat: 47.6062, lon: -122.3321, tz: "America/Los_Angeles", population: 4_000_000, iata: ["SEA"] },
+  { id: "toronto-ca", name: "Toronto", country: "Canada", countryCode: "CA", admin1: "Ontario", lat: 43.6532, lon: -79.3832, tz: "America/Toronto", population: 6_400_000, iata: ["YYZ"] },
+  { id: "vancouver-ca", name: "Vancouver", country: "Canada", countryCode: "CA", admin1: "British Columbia", lat: 49.2827, lon: -123.1207, tz: "America/Vancouver", population: 2_700_000, iata: ["YVR"] },
+  { id: "ottawa-ca", name: "Ottawa", country: "Canada", countryCode: "CA", admin1: "Ontario", lat: 45.4215, lon: -75.6919, tz: "America/Toronto", population: 1_500_000, iata: ["YOW"] },
+  { id: "montreal-ca", name: "Montreal", country: "Canada", countryCode: "CA", admin1: "Québec", lat: 45.5017, lon: -73.5673, tz: "America/Toronto", population: 4_300_000, altNames: ["Montréal"], iata: ["YUL"] },
+  { id: "calgary-ca", name: "Calgary", country: "Canada", countryCode: "CA", admin1: "Alberta", lat: 51.0447, lon: -114.0719, tz: "America/Edmonton", population: 1_600_000, iata: ["YYC"] },
+  { id: "edmonton-ca", name: "Edmonton", country: "Canada", countryCode: "CA", admin1: "Alberta", lat: 53.5461, lon: -113.4938, tz: "America/Edmonton", population: 1_500_000, iata: ["YEG"] },
+  { id: "winnipeg-ca", name: "Winnipeg", country: "Canada", countryCode: "CA", admin1: "Manitoba", lat: 49.8951, lon: -97.1384, tz: "America/Winnipeg", population: 850_000, iata: ["YWG"] },
+  { id: "halifax-ca", name: "Halifax", country: "Canada", countryCode: "CA", admin1: "Nova Scotia", lat: 44.6488, lon: -63.5752, tz: "America/Halifax", population: 480_000, iata: ["YHZ"] },
+  { id: "st-johns-ca", name: "St. John's", country: "Canada", countryCode: "CA", admin1: "Newfoundland and Labrador", lat: 47.5556, lon: -52.7453, tz: "America/St_Johns", population: 210_000, altNames: ["Saint John's"], iata: ["YYT"] },
+  { id: "mexico-city-mx", name: "Mexico City", country: "Mexico", countryCode: "MX", admin1: "Distrito Federal", lat: 19.4326, lon: -99.1332, tz: "America/Mexico_City", population: 22_000_000, altNames: ["CDMX", "Ciudad de México"], iata: ["MEX", "NLU"] },
+  { id: "guadalajara-mx", name: "Guadalajara", country: "Mexico", countryCode: "MX", admin1: "Jalisco", lat: 20.6597, lon: -103.3496, tz: "America/Mexico_City", population: 5_300_000, iata: ["GDL"] },
+  { id: "monterrey-mx", name: "Monterrey", country: "Mexico", countryCode: "MX", admin1: "Nuevo León", lat: 25.6866, lon: -100.3161, tz: "America/Monterrey", population: 5_300_000, iata: ["MTY"] },
+  { id: "tijuana-mx", name: "Tijuana", country: "Mexico", countryCode: "MX", admin1: "Baja California", lat: 32.5149, lon: -117.0382, tz: "America/Tijuana", population: 2_200_000, iata: ["TIJ"] },
+  { id: "anchorage-us", name: "Anchorage", country: "United States", countryCode: "US", admin1: "Alaska", lat: 61.2181, lon: -149.9, tz: "America/Anchorage", population: 400_000, iata: ["ANC"] },
+  { id: "honolulu-us", name: "Honolulu", country: "United States", countryCode: "US", admin1: "Hawaii", lat: 21.3069, lon: -157.8583, tz: "Pacific/Honolulu", population: 1_000_000, iata: ["HNL"] },
+  { id: "phoenix-us", name: "Phoenix", country: "United States", countryCode: "US", admin1: "Arizona", lat: 33.4484, lon: -112.074, tz: "America/Phoenix", population: 5_000_000, iata: ["PHX"] },
+  { id: "dallas-us", name: "Dallas", country: "United States", countryCode: "US", admin1: "Texas", lat: 32.7767, lon: -96.797, tz: "America/Chicago", population: 7_900_000, altNames: ["Dallas-Fort Worth", "DFW"], iata: ["DFW", "DAL"] },
+  { id: "houston-us", name: "Houston", country: "United States", countryCode: "US", admin1: "Texas", lat: 29.7604, lon: -95.3698, tz: "America/Chicago", population: 7_300_000, iata: ["IAH", "HOU"] },
+  { id: "atlanta-us", name: "Atlanta", country: "United States", countryCode: "US", admin1: "Georgia", lat: 33.749, lon: -84.388, tz: "America/New_York", population: 6_300_000, altNames: ["ATL"], iata: ["ATL"] },
+  { id: "miami-us", name: "Miami", country: "United States", countryCode: "US", admin1: "Florida", lat: 25.7617, lon: -80.1918, tz: "America/New_York", population: 6_200_000, iata: ["MIA"] },
+  { id: "boston-us", name: "Boston", country: "United States", countryCode: "US", admin1: "Massachusetts", lat: 42.3601, lon: -71.0589, tz: "America/New_York", population: 4_900_000, iata: ["BOS"] },
+  { id: "detroit-us", name: "Detroit", country: "United States", countryCode: "US", admin1: "Michigan", lat: 42.3314, lon: -83.0458, tz: "America/Detroit", population: 4_300_000, iata: ["DTW"] },
+  { id: "minneapolis-us", name: "Minneapolis", country: "United States", countryCode: "US", admin1: "Minnesota", lat: 44.9778, lon: -93.265, tz: "America/Chicago", population: 3_700_000, altNames: ["Twin Cities"], iata: ["MSP"] },
+  { id: "kansas-city-us", name: "Kansas City", country: "United States", countryCode: "US", admin1: "Missouri", lat: 39.0997, lon: -94.5786, tz: "America/Chicago", population: 2_200_000, iata: ["MCI"] },
+  { id: "las-vegas-us", name: "Las Vegas", country: "United States", countryCode: "US", admin1: "Nevada", lat: 36.1699, lon: -115.1398, tz: "America/Los_Angeles", population: 2_300_000, altNames: ["Vegas"], iata: ["LAS"] },
 
   // Caribbean & Central America
-  { name: "Havana", country: "Cuba", lat: 23.1136, lon: -82.3666, tz: "America/Havana" },
-  { name: "Nassau", country: "Bahamas", lat: 25.0480, lon: -77.3554, tz: "America/Nassau" },
-  { name: "Kingston", country: "Jamaica", lat: 17.9970, lon: -76.7936, tz: "America/Jamaica" },
-  { name: "Port-au-Prince", country: "Haiti", lat: 18.5944, lon: -72.3074, tz: "America/Port-au-Prince" },
-  { name: "Santo Domingo", country: "Dominican Republic", lat: 18.4861, lon: -69.9312, tz: "America/Santo_Domingo" },
-  { name: "San Juan", country: "Puerto Rico", lat: 18.4655, lon: -66.1057, tz: "America/Puerto_Rico" },
-  { name: "Port of Spain", country: "Trinidad and Tobago", lat: 10.6549, lon: -61.5019, tz: "America/Port_of_Spain" },
-  { name: "Bridgetown", country: "Barbados", lat: 13.1132, lon: -59.5988, tz: "America/Barbados" },
-  { name: "Castries", country: "Saint Lucia", lat: 14.0101, lon: -60.9875, tz: "America/St_Lucia" },
-  { name: "Kingstown", country: "Saint Vincent", lat: 13.1600, lon: -61.2248, tz: "America/St_Vincent" },
-  { name: "St. George's", country: "Grenada", lat: 12.0561, lon: -61.7488, tz: "America/Grenada" },
-  { name: "Roseau", country: "Dominica", lat: 15.3010, lon: -61.3878, tz: "America/Dominica" },
-  { name: "Basseterre", country: "Saint Kitts and Nevis", lat: 17.2948, lon: -62.7261, tz: "America/St_Kitts" },
-  { name: "Saint John's (Antigua)", country: "Antigua and Barbuda", lat: 17.1274, lon: -61.8468, tz: "America/Antigua" },
-  { name: "Guatemala City", country: "Guatemala", lat: 14.6349, lon: -90.5069, tz: "America/Guatemala" },
-  { name: "San Salvador", country: "El Salvador", lat: 13.6929, lon: -89.2182, tz: "America/El_Salvador" },
-  { name: "Tegucigalpa", country: "Honduras", lat: 14.0723, lon: -87.2060, tz: "America/Tegucigalpa" },
-  { name: "Managua", country: "Nicaragua", lat: 12.1149, lon: -86.2362, tz: "America/Managua" },
-  { name: "San José", country: "Costa Rica", lat: 9.9281, lon: -84.0907, tz: "America/Costa_Rica" },
-  { name: "Panama City", country: "Panama", lat: 8.9936, lon: -79.5197, tz: "America/Panama" },
-  { name: "Belmopan", country: "Belize", lat: 17.2514, lon: -88.7590, tz: "America/Belize" },
+  { id: "havana-cu", name: "Havana", country: "Cuba", countryCode: "CU", admin1: "Ciudad de la Habana", lat: 23.1136, lon: -82.3666, tz: "America/Havana", population: 2_100_000, altNames: ["La Habana"], iata: ["HAV"] },
+  { id: "nassau-bs", name: "Nassau", country: "Bahamas", countryCode: "BS", lat: 25.0480, lon: -77.3554, tz: "America/Nassau", population: 280_000, iata: ["NAS"] },
+  { id: "kingston-jm", name: "Kingston", country: "Jamaica", countryCode: "JM", admin1: "Kingston", lat: 17.9970, lon: -76.7936, tz: "America/Jamaica", population: 1_200_000, iata: ["KIN"] },
+  { id: "port-au-prince-ht", name: "Port-au-Prince", country: "Haiti", countryCode: "HT", admin1: "Ouest", lat: 18.5944, lon: -72.3074, tz: "America/Port-au-Prince", population: 2_900_000, iata: ["PAP"] },
+  { id: "santo-domingo-do", name: "Santo Domingo", country: "Dominican Republic", countryCode: "DO", admin1: "Distrito Nacional", lat: 18.4861, lon: -69.9312, tz: "America/Santo_Domingo", population: 3_500_000, iata: ["SDQ"] },
+  { id: "san-juan-pr", name: "San Juan", country: "Puerto Rico", countryCode: "PR", lat: 18.4655, lon: -66.1057, tz: "America/Puerto_Rico", population: 2_000_000, iata: ["SJU"] },
+  { id: "port-of-spain-tt", name: "Port of Spain", country: "Trinidad and Tobago", countryCode: "TT", admin1: "Port of Spain", lat: 10.6549, lon: -61.5019, tz: "America/Port_of_Spain", population: 540_000, iata: ["POS"] },
+  { id: "bridgetown-bb", name: "Bridgetown", country: "Barbados", countryCode: "BB", admin1: "Saint Michael", lat: 13.1132, lon: -59.5988, tz: "America/Barbados", population: 110_000, iata: ["BGI"] },
+  { id: "castries-lc", name: "Castries", country: "Saint Lucia", countryCode: "LC", lat: 14.0101, lon: -60.9875, tz: "America/St_Lucia", population: 70_000, iata: ["UVF", "SLU"] },
+  { id: "kingstown-vc", name: "Kingstown", country: "Saint Vincent", countryCode: "VC", lat: 13.1600, lon: -61.2248, tz: "America/St_Vincent", population: 25_000, iata: ["SVD"] },
+  { id: "st-georges-gd", name: "St. George's", country: "Grenada", countryCode: "GD", lat: 12.0561, lon: -61.7488, tz: "America/Grenada", population: 38_000, altNames: ["Saint George's"], iata: ["GND"] },
+  { id: "roseau-dm", name: "Roseau", country: "Dominica", countryCode: "DM", admin1: "Saint George", lat: 15.3010, lon: -61.3878, tz: "America/Dominica", population: 15_000, iata: ["DOM"] },
+  { id: "basseterre-kn", name: "Basseterre", country: "Saint Kitts and Nevis", countryCode: "KN", lat: 17.2948, lon: -62.7261, tz: "America/St_Kitts", population: 14_000, iata: ["SKB"] },
+  { id: "saint-johns-antigua-ag", name: "Saint John's (Antigua)", country: "Antigua and Barbuda", countryCode: "AG", lat: 17.1274, lon: -61.8468, tz: "America/Antigua", population: 22_000, altNames: ["St. John's Antigua"], iata: ["ANU"] },
+  { id: "guatemala-city-gt", name: "Guatemala City", country: "Guatemala", countryCode: "GT", admin1: "Guatemala", lat: 14.6349, lon: -90.5069, tz: "America/Guatemala", population: 3_000_000, iata: ["GUA"] },
+  { id: "san-salvador-sv", name: "San Salvador", country: "El Salvador", countryCode: "SV", admin1: "San Salvador", lat: 13.6929, lon: -89.2182, tz: "America/El_Salvador", population: 1_100_000, iata: ["SAL"] },
+  { id: "tegucigalpa-hn", name: "Tegucigalpa", country: "Honduras", countryCode: "HN", admin1: "Francisco Morazán", lat: 14.0723, lon: -87.2060, tz: "America/Tegucigalpa", population: 1_400_000, iata: ["TGU", "XPL"] },
+  { id: "managua-ni", name: "Managua", country: "Nicaragua", countryCode: "NI", admin1: "Managua", lat: 12.1149, lon: -86.2362, tz: "America/Managua", population: 1_100_000, iata: ["MGA"] },
+  { id: "san-jose-cr", name: "San José", country: "Costa Rica", countryCode: "CR", admin1: "San José", lat: 9.9281, lon: -84.0907, tz: "America/Costa_Rica", population: 1_400_000, iata: ["SJO"] },
+  { id: "panama-city-pa", name: "Panama City", country: "Panama", countryCode: "PA", admin1: "Panama", lat: 8.9936, lon: -79.5197, tz: "America/Panama", population: 1_900_000, iata: ["PTY"] },
+  { id: "belmopan-bz", name: "Belmopan", country: "Belize", countryCode: "BZ", admin1: "Cayo", lat: 17.2514, lon: -88.7590, tz: "America/Belize", population: 25_000 },
 
   // Americas - South
-  { name: "São Paulo", country: "Brazil", lat: -23.5505, lon: -46.6333, tz: "America/Sao_Paulo" },
-  { name: "Buenos Aires", country: "Argentina", lat: -34.6037, lon: -58.3816, tz: "America/Argentina/Buenos_Aires" },
-  { name: "Lima", country: "Peru", lat: -12.0464, lon: -77.0428, tz: "America/Lima" },
-  { name: "Santiago", country: "Chile", lat: -33.4489, lon: -70.6693, tz: "America/Santiago" },
-  { name: "Bogotá", country: "Colombia", lat: 4.711, lon: -74.0721, tz: "America/Bogota" },
-  { name: "Brasília", country: "Brazil", lat: -15.7801, lon: -47.9292, tz: "America/Sao_Paulo" },
-  { name: "Caracas", country: "Venezuela", lat: 10.4806, lon: -66.9036, tz: "America/Caracas" },
-  { name: "Quito", country: "Ecuador", lat: -0.2295, lon: -78.5243, tz: "America/Guayaquil" },
-  { name: "La Paz", country: "Bolivia", lat: -16.4897, lon: -68.1193, tz: "America/La_Paz" },
-  { name: "Asunción", country: "Paraguay", lat: -25.2867, lon: -57.647, tz: "America/Asuncion" },
-  { name: "Montevideo", country: "Uruguay", lat: -34.9011, lon: -56.1645, tz: "America/Montevideo" },
-  { name: "Georgetown", country: "Guyana", lat: 6.8013, lon: -58.1551, tz: "America/Guyana" },
-  { name: "Paramaribo", country: "Suriname", lat: 5.8664, lon: -55.1667, tz: "America/Paramaribo" },
-  { name: "Cayenne", country: "French Guiana", lat: 4.9333, lon: -52.3333, tz: "America/Cayenne" },
-  { name: "Sucre", country: "Bolivia", lat: -19.0196, lon: -65.2619, tz: "America/La_Paz" },
-  { name: "Rio de Janeiro", country: "Brazil", lat: -22.9068, lon: -43.1729, tz: "America/Sao_Paulo" },
+  { id: "sao-paulo-br", name: "São Paulo", country: "Brazil", countryCode: "BR", admin1: "São Paulo", lat: -23.5505, lon: -46.6333, tz: "America/Sao_Paulo", population: 22_600_000, altNames: ["Sampa"], iata: ["GRU", "CGH"] },
+  { id: "buenos-aires-ar", name: "Buenos Aires", country: "Argentina", countryCode: "AR", admin1: "Ciudad de Buenos Aires", lat: -34.6037, lon: -58.3816, tz: "America/Argentina/Buenos_Aires", population: 15_600_000, iata: ["EZE", "AEP"] },
+  { id: "lima-pe", name: "Lima", country: "Peru", countryCode: "PE", admin1: "Lima", lat: -12.0464, lon: -77.0428, tz: "America/Lima", population: 11_200_000, iata: ["LIM"] },
+  { id: "santiago-cl", name: "Santiago", country: "Chile", countryCode: "CL", admin1: "Región Metropolitana de Santiago", lat: -33.4489, lon: -70.6693, tz: "America/Santiago", population: 6_900_000, altNames: ["Santiago de Chile"], iata: ["SCL"] },
+  { id: "bogota-co", name: "Bogotá", country: "Colombia", countryCode: "CO", admin1: "Bogota", lat: 4.711, lon: -74.0721, tz: "America/Bogota", population: 11_300_000, iata: ["BOG"] },
+  { id: "brasilia-br", name: "Brasília", country: "Brazil", countryCode: "BR", admin1: "Distrito Federal", lat: -15.7801, lon: -47.9292, tz: "America/Sao_Paulo", population: 4_800_000, iata: ["BSB"] },
+  { id: "caracas-ve", name: "Caracas", country: "Venezuela", countryCode: "VE", admin1: "Distrito Capital", lat: 10.4806, lon: -66.9036, tz: "America/Caracas", population: 3_000_000, iata: ["CCS"] },
+  { id: "quito-ec", name: "Quito", country: "Ecuador", countryCode: "EC", admin1: "Pichincha", lat: -0.2295, lon: -78.5243, tz: "America/Guayaquil", population: 2_000_000, iata: ["UIO"] },
+  { id: "la-paz-bo", name: "La Paz", country: "Bolivia", countryCode: "BO", admin1: "La Paz", lat: -16.4897, lon: -68.1193, tz: "America/La_Paz", population: 1_900_000, iata: ["LPB"] },
+  { id: "asuncion-py", name: "Asunción", country: "Paraguay", countryCode: "PY", admin1: "Asunción", lat: -25.2867, lon: -57.647, tz: "America/Asuncion", population: 3_500_000, iata: ["ASU"] },
+  { id: "montevideo-uy", name: "Montevideo", country: "Uruguay", countryCode: "UY", admin1: "Montevideo", lat: -34.9011, lon: -56.1645, tz: "America/Montevideo", population: 1_800_000, iata: ["MVD"] },
+  { id: "georgetown-gy", name: "Georgetown", country: "Guyana", countryCode: "GY", admin1: "Demerara-Mahaica", lat: 6.8013, lon: -58.1551, tz: "America/Guyana", population: 200_000, iata: ["GEO"] },
+  { id: "paramaribo-sr", name: "Paramaribo", country: "Suriname", countryCode: "SR", admin1: "Paramaribo", lat: 5.8664, lon: -55.1667, tz: "America/Paramaribo", population: 240_000, iata: ["PBM"] },
+  { id: "cayenne-gf", name: "Cayenne", country: "French Guiana", countryCode: "GF", lat: 4.9333, lon: -52.3333, tz: "America/Cayenne", population: 150_000, iata: ["CAY"] },
+  { id: "sucre-bo", name: "Sucre", country: "Bolivia", countryCode: "BO", admin1: "Chuquisaca", lat: -19.0196, lon: -65.2619, tz: "America/La_Paz", population: 300_000, iata: ["SRE"] },
+  { id: "rio-de-janeiro-br", name: "Rio de Janeiro", country: "Brazil", countryCode: "BR", admin1: "Rio de Janeiro", lat: -22.9068, lon: -43.1729, tz: "America/Sao_Paulo", population: 13_700_000, altNames: ["Rio"], iata: ["GIG", "SDU"] },
 
   // Pacific & Oceania
-  { name: "Sydney", country: "Australia", lat: -33.8688, lon: 151.2093, tz: "Australia/Sydney" },
-  { name: "Melbourne", country: "Australia", lat: -37.8136, lon: 144.9631, tz: "Australia/Melbourne" },
-  { name: "Brisbane", country: "Australia", lat: -27.4698, lon: 153.0251, tz: "Australia/Brisbane" },
-  { name: "Perth", country: "Australia", lat: -31.9505, lon: 115.8605, tz: "Australia/Perth" },
-  { name: "Adelaide", country: "Australia", lat: -34.9285, lon: 138.6007, tz: "Australia/Adelaide" },
-  { name: "Darwin", country: "Australia", lat: -12.4634, lon: 130.8456, tz: "Australia/Darwin" },
-  { name: "Canberra", country: "Australia", lat: -35.2809, lon: 149.13, tz: "Australia/Sydney" },
-  { name: "Auckland", country: "New Zealand", lat: -36.8485, lon: 174.7633, tz: "Pacific/Auckland" },
-  { name: "Wellington", country: "New Zealand", lat: -41.2866, lon: 174.7756, tz: "Pacific/Auckland" },
-  { name: "Suva", country: "Fiji", lat: -18.1416, lon: 178.4415, tz: "Pacific/Fiji" },
-  { name: "Port Moresby", country: "Papua New Guinea", lat: -9.4438, lon: 147.1803, tz: "Pacific/Port_Moresby" },
-  { name: "Honiara", country: "Solomon Islands", lat: -9.4333, lon: 160.0333, tz: "Pacific/Guadalcanal" },
-  { name: "Port Vila", country: "Vanuatu", lat: -17.7333, lon: 168.3167, tz: "Pacific/Efate" },
-  { name: "Nuku'alofa", country: "Tonga", lat: -21.1333, lon: -175.2, tz: "Pacific/Tongatapu" },
-  { name: "Apia", country: "Samoa", lat: -13.8333, lon: -171.8333, tz: "Pacific/Apia" },
-  { name: "Funafuti", country: "Tuvalu", lat: -8.5167, lon: 179.2167, tz: "Pacific/Funafuti" },
-  { name: "Tarawa", country: "Kiribati", lat: 1.3291, lon: 172.9790, tz: "Pacific/Tarawa" },
-  { name: "Majuro", country: "Marshall Islands", lat: 7.1167, lon: 171.3833, tz: "Pacific/Majuro" },
-  { name: "Palikir", country: "Micronesia", lat: 6.9248, lon: 158.1618, tz: "Pacific/Pohnpei" },
-  { name: "Ngerulmud", country: "Palau", lat: 7.5006, lon: 134.6243, tz: "Pacific/Palau" },
-  { name: "Yaren", country: "Nauru", lat: -0.5477, lon: 166.9209, tz: "Pacific/Nauru" },
-  { name: "Pago Pago", country: "American Samoa", lat: -14.274, lon: -170.7046, tz: "Pacific/Pago_Pago" },
-  { name: "Noumea", country: "New Caledonia", lat: -22.2758, lon: 166.458, tz: "Pacific/Noumea" },
-  { name: "Papeete", country: "French Polynesia", lat: -17.5334, lon: -149.5667, tz: "Pacific/Tahiti" },
+  { id: "sydney-au", name: "Sydney", country: "Australia", countryCode: "AU", admin1: "New South Wales", lat: -33.8688, lon: 151.2093, tz: "Australia/Sydney", population: 5_400_000, iata: ["SYD"] },
+  { id: "melbourne-au", name: "Melbourne", country: "Australia", countryCode: "AU", admin1: "Victoria", lat: -37.8136, lon: 144.9631, tz: "Australia/Melbourne", population: 5_200_000, iata: ["MEL"] },
+  { id: "brisbane-au", name: "Brisbane", country: "Australia", countryCode: "AU", admin1: "Queensland", lat: -27.4698, lon: 153.0251, tz: "Australia/Brisbane", population: 2_700_000, iata: ["BNE"] },
+  { id: "perth-au", name: "Perth", country: "Australia", countryCode: "AU", admin1: "Western Australia", lat: -31.9505, lon: 115.8605, tz: "Australia/Perth", population: 2_300_000, iata: ["PER"] },
+  { id: "adelaide-au", name: "Adelaide", country: "Australia", countryCode: "AU", admin1: "South Australia", lat: -34.9285, lon: 138.6007, tz: "Australia/Adelaide", population: 1_400_000, iata: ["ADL"] },
+  { id: "darwin-au", name: "Darwin", country: "Australia", countryCode: "AU", admin1: "Northern Territory", lat: -12.4634, lon: 130.8456, tz: "Australia/Darwin", population: 150_000, iata: ["DRW"] },
+  { id: "canberra-au", name: "Canberra", country: "Australia", countryCode: "AU", admin1: "Australian Capital Territory", lat: -35.2809, lon: 149.13, tz: "Australia/Sydney", population: 470_000, iata: ["CBR"] },
+  { id: "auckland-nz", name: "Auckland", country: "New Zealand", countryCode: "NZ", admin1: "Auckland", lat: -36.8485, lon: 174.7633, tz: "Pacific/Auckland", population: 1_700_000, altNames: ["Tāmaki Makaurau"], iata: ["AKL"] },
+  { id: "wellington-nz", name: "Wellington", country: "New Zealand", countryCode: "NZ", admin1: "Wellington", lat: -41.2866, lon: 174.7756, tz: "Pacific/Auckland", population: 420_000, altNames: ["Te Whanganui-a-Tara"], iata: ["WLG"] },
+  { id: "suva-fj", name: "Suva", country: "Fiji", countryCode: "FJ", admin1: "Central", lat: -18.1416, lon: 178.4415, tz: "Pacific/Fiji", population: 180_000, iata: ["SUV"] },
+  { id: "port-moresby-pg", name: "Port Moresby", country: "Papua New Guinea", countryCode: "PG", admin1: "Central", lat: -9.4438, lon: 147.1803, tz: "Pacific/Port_Moresby", population: 400_000, iata: ["POM"] },
+  { id: "honiara-sb", name: "Honiara", country: "Solomon Islands", countryCode: "SB", admin1: "Guadalcanal", lat: -9.4333, lon: 160.0333, tz: "Pacific/Guadalcanal", population: 90_000, iata: ["HIR"] },
+  { id: "port-vila-vu", name: "Port Vila", country: "Vanuatu", countryCode: "VU", admin1: "Shefa", lat: -17.7333, lon: 168.3167, tz: "Pacific/Efate", population: 50_000, iata: ["VLI"] },
+  { id: "nukualofa-to", name: "Nuku'alofa", country: "Tonga", countryCode: "TO", lat: -21.1333, lon: -175.2, tz: "Pacific/Tongatapu", population: 25_000, iata: ["TBU"] },
+  { id: "apia-ws", name: "Apia", country: "Samoa", countryCode: "WS", lat: -13.8333, lon: -171.8333, tz: "Pacific/Apia", population: 40_000, iata: ["APW"] },
+  { id: "funafuti-tv", name: "Funafuti", country: "Tuvalu", countryCode: "TV", lat: -8.5167, lon: 179.2167, tz: "Pacific/Funafuti", population: 7_000, iata: ["FUN"] },
+  { id: "tarawa-ki", name: "Tarawa", country: "Kiribati", countryCode: "KI", lat: 1.3291, lon: 172.9790, tz: "Pacific/Tarawa", population: 64_000, iata: ["TRW"] },
+  { id: "majuro-mh", name: "Majuro", country: "Marshall Islands", countryCode: "MH", lat: 7.1167, lon: 171.3833, tz: "Pacific/Majuro", population: 28_000, iata: ["MAJ"] },
+  { id: "palikir-fm", name: "Palikir", country: "Micronesia", countryCode: "FM", lat: 6.9248, lon: 158.1618, tz: "Pacific/Pohnpei", population: 7_000, iata: ["PNI"] },
+  { id: "ngerulmud-pw", name: "Ngerulmud", country: "Palau", countryCode: "PW", lat: 7.5006, lon: 134.6243, tz: "Pacific/Palau", population: 300, iata: ["ROR"] },
+  { id: "yaren-nr", name: "Yaren", country: "Nauru", countryCode: "NR", lat: -0.5477, lon: 166.9209, tz: "Pacific/Nauru", population: 1_000, iata: ["INU"] },
+  { id: "pago-pago-as", name: "Pago Pago", country: "American Samoa", countryCode: "AS", lat: -14.274, lon: -170.7046, tz: "Pacific/Pago_Pago", population: 3_600, iata: ["PPG"] },
+  { id: "noumea-nc", name: "Noumea", country: "New Caledonia", countryCode: "NC", admin1: "Sud", lat: -22.2758, lon: 166.458, tz: "Pacific/Noumea", population: 180_000, altNames: ["Nouméa"], iata: ["NOU"] },
+  { id: "papeete-pf", name: "Papeete", country: "French Polynesia", countryCode: "PF", lat: -17.5334, lon: -149.5667, tz: "Pacific/Tahiti", population: 140_000, altNames: ["Tahiti"], iata: ["PPT"] },
 
   // UTC reference points
-  { name: "Azores", country: "Portugal", lat: 37.7412, lon: -25.6756, tz: "Atlantic/Azores" },
-  { name: "Midway Island", country: "United States", lat: 28.2072, lon: -177.3735, tz: "Pacific/Midway" },
-  { name: "Line Islands (Kiritimati)", country: "Kiribati", lat: 1.8721, lon: -157.4278, tz: "Pacific/Kiritimati" },
+  { id: "azores-pt", name: "Azores", country: "Portugal", countryCode: "PT", admin1: "Azores", lat: 37.7412, lon: -25.6756, tz: "Atlantic/Azores", population: 240_000, altNames: ["Ponta Delgada", "Açores"], iata: ["PDL"] },
+  { id: "midway-island-um", name: "Midway Island", country: "United States", countryCode: "UM", lat: 28.2072, lon: -177.3735, tz: "Pacific/Midway", population: 40, altNames: ["Midway Atoll"] },
+  { id: "line-islands-kiritimati-ki", name: "Line Islands (Kiritimati)", country: "Kiribati", countryCode: "KI", lat: 1.8721, lon: -157.4278, tz: "Pacific/Kiritimati", population: 7_000, altNames: ["Kiritimati", "Christmas Island"], iata: ["CXI"] },
 ];
 
-export const FEATURED_CITY_NAMES = new Set([
+/** Look a city up by id, falling back to its name so older `compare=Tokyo,London` links keep working */
+export function findCity(key: string, cities: City[] = CITIES): City | undefined {
+  const lower = key.toLowerCase();
+  return cities.find((c) => c.id === key) ?? cities.find((c) => c.name.toLowerCase() === lower);
+}
+
+export const FEATURED_CITY_IDS = new Set([
   // Europe
-  "Sarajevo", "London", "Paris", "Moscow", "Istanbul", "Reykjavik",
+  "sarajevo-ba", "london-gb", "paris-fr", "moscow-ru", "istanbul-tr", "reykjavik-is",
   // Africa
-  "Cairo", "Lagos", "Nairobi", "Johannesburg", "Casablanca",
+  "cairo-eg", "lagos-ng", "nairobi-ke", "johannesburg-za", "casablanca-ma",
   // Middle East
-  "Dubai", "Riyadh", "Tehran",
+  "dubai-ae", "riyadh-sa", "tehran-ir",
   // Central / South Asia
-  "Delhi", "Karachi", "Kathmandu", "Dhaka", "Tashkent",
+  "delhi-in", "karachi-pk", "kathmandu-np", "dhaka-bd", "tashkent-uz",
   // Southeast Asia
-  "Bangkok", "Singapore",
+  "bangkok-th", "singapore-sg",
   // East Asia
-  "Tokyo", "Seoul", "Beijing", "Hong Kong",
+  "tokyo-jp", "seoul-kr", "beijing-cn", "hong-kong-hk",
   // Oceania
-  "Sydney", "Auckland",
+  "sydney-au", "auckland-nz",
   // North America
-  "New York", "Los Angeles", "Chicago", "Denver", "Toronto", "Mexico City", "Anchorage", "Honolulu",
+  "new-york-us", "los-angeles-us", "chicago-us", "denver-us", "toronto-ca", "mexico-city-mx", "anchorage-us", "honolulu-us",
   // South America
-  "São Paulo", "Buenos Aires", "Lima", "Santiago",
+  "sao-paulo-br", "buenos-aires-ar", "lima-pe", "santiago-cl",
   // UTC refs
-  "Azores",
+  "azores-pt",
 ]);
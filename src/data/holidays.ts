@@ -0,0 +1,739 @@
+// Main nationwide public holidays, keyed by ISO 3166-1 alpha-2 code (City.countryCode).
+// Fixed-date, weekday and Easter rules hold for any year. Holidays that follow lunar or
+// religious calendars are listed per year for 2025–2028; the Islamic ones are estimates
+// and can move by a day once the moon is sighted. Regional holidays are left out.
+
+/** How a holiday that falls on a weekend is made up */
+export type Observed =
+  | "weekday" // Saturday → Friday, Sunday → Monday (US)
+  | "monday" // Saturday or Sunday → the next free weekday (UK, Australia, …)
+  | "sunday"; // Sunday → Monday only (South Africa, Japan)
+
+export type HolidayRule =
+  /** Same day every year, "MM-dd" */
+  | { name: string; date: string }
+  /** nth weekday of a month (1 = Mon … 7 = Sun); nth −1 is the last one */
+  | { name: string; month: number; weekday: number; nth: number }
+  /** First given weekday on or after a day of the month, e.g. Midsummer Eve */
+  | { name: string; month: number; weekday: number; onOrAfter: number }
+  /** Days from Western Easter Sunday */
+  | { name: string; easter: number }
+  /** Days from Orthodox Easter Sunday */
+  | { name: string; orthodoxEaster: number }
+  /** Explicit "yyyy-MM-dd" dates */
+  | { name: string; dates: string[] };
+
+export type CountryHolidays = { observed?: Observed; rules: HolidayRule[] };
+
+// ── Lunar and religious calendars, 2025–2028 ──
+
+const LUNAR_NEW_YEAR_EVE = ["2025-01-28", "2026-02-16", "2027-02-05", "2028-01-25"];
+const LUNAR_NEW_YEAR = ["2025-01-29", "2026-02-17", "2027-02-06", "2028-01-26"];
+const LUNAR_NEW_YEAR_2 = ["2025-01-30", "2026-02-18", "2027-02-07", "2028-01-27"];
+const LUNAR_NEW_YEAR_3 = ["2025-01-31", "2026-02-19", "2027-02-08", "2028-01-28"];
+const QINGMING = ["2025-04-04", "2026-04-05", "2027-04-05", "2028-04-04"];
+const DRAGON_BOAT = ["2025-05-31", "2026-06-19", "2027-06-09", "2028-05-28"];
+const MID_AUTUMN = ["2025-10-06", "2026-09-25", "2027-09-15", "2028-10-03"];
+const BUDDHAS_BIRTHDAY = ["2025-05-05", "2026-05-24", "2027-05-13", "2028-05-02"];
+
+const EID_AL_FITR = ["2025-03-30", "2026-03-20", "2027-03-09", "2028-02-26"];
+const EID_AL_FITR_2 = ["2025-03-31", "2026-03-21", "2027-03-10", "2028-02-27"];
+const ARAFAT_DAY = ["2025-06-05", "2026-05-26", "2027-05-15", "2028-05-04"];
+const EID_AL_ADHA = ["2025-06-06", "2026-05-27", "2027-05-16", "2028-05-05"];
+const EID_AL_ADHA_2 = ["2025-06-07", "2026-05-28", "2027-05-17", "2028-05-06"];
+const ISLAMIC_NEW_YEAR = ["2025-06-26", "2026-06-16", "2027-06-06", "2028-05-25"];
+const MAWLID = ["2025-09-04", "2026-08-25", "2027-08-14", "2028-08-03"];
+
+const DIWALI = ["2025-10-20", "2026-11-08", "2027-10-29", "2028-10-17"];
+const HOLI = ["2025-03-14", "2026-03-04", "2027-03-22", "2028-03-11"];
+
+const NEW_YEARS_DAY: HolidayRule = { name: "New Year's Day", date: "01-01" };
+const GOOD_FRIDAY: HolidayRule = { name: "Good Friday", easter: -2 };
+const EASTER_MONDAY: HolidayRule = { name: "Easter Monday", easter: 1 };
+const ASCENSION: HolidayRule = { name: "Ascension Day", easter: 39 };
+const WHIT_MONDAY: HolidayRule = { name: "Whit Monday", easter: 50 };
+const CORPUS_CHRISTI: HolidayRule = { name: "Corpus Christi", easter: 60 };
+const LABOUR_DAY: HolidayRule = { name: "Labour Day", date: "05-01" };
+const ASSUMPTION: HolidayRule = { name: "Assumption Day", date: "08-15" };
+const ALL_SAINTS: HolidayRule = { name: "All Saints' Day", date: "11-01" };
+const CHRISTMAS: HolidayRule = { name: "Christmas Day", date: "12-25" };
+const BOXING_DAY: HolidayRule = { name: "Boxing Day", date: "12-26" };
+const ST_STEPHENS: HolidayRule = { name: "St Stephen's Day", date: "12-26" };
+
+export const HOLIDAYS: Record<string, CountryHolidays> = {
+  // ── Americas ──
+  US: {
+    observed: "weekday",
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Martin Luther King Jr. Day", month: 1, weekday: 1, nth: 3 },
+      { name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+      { name: "Memorial Day", month: 5, weekday: 1, nth: -1 },
+      { name: "Juneteenth", date: "06-19" },
+      { name: "Independence Day", date: "07-04" },
+      { name: "Labor Day", month: 9, weekday: 1, nth: 1 },
+      { name: "Columbus Day", month: 10, weekday: 1, nth: 2 },
+      { name: "Veterans Day", date: "11-11" },
+      { name: "Thanksgiving", month: 11, weekday: 4, nth: 4 },
+      CHRISTMAS,
+    ],
+  },
+  CA: {
+    observed: "monday",
+    rules: [
+      NEW_YEARS_DAY,
+      GOOD_FRIDAY,
+      { name: "Victoria Day", month: 5, weekday: 1, onOrAfter: 18 },
+      { name: "Canada Day", date: "07-01" },
+      { name: "Labour Day", month: 9, weekday: 1, nth: 1 },
+      { name: "Truth and Reconciliation Day", date: "09-30" },
+      { name: "Thanksgiving", month: 10, weekday: 1, nth: 2 },
+      { name: "Remembrance Day", date: "11-11" },
+      CHRISTMAS,
+      BOXING_DAY,
+    ],
+  },
+  MX: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Constitution Day", month: 2, weekday: 1, nth: 1 },
+      { name: "Benito Juárez's Birthday", month: 3, weekday: 1, nth: 3 },
+      LABOUR_DAY,
+      { name: "Independence Day", date: "09-16" },
+      { name: "Revolution Day", month: 11, weekday: 1, nth: 3 },
+      CHRISTMAS,
+    ],
+  },
+  BR: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Carnival Monday", easter: -48 },
+      { name: "Carnival Tuesday", easter: -47 },
+      GOOD_FRIDAY,
+      { name: "Tiradentes Day", date: "04-21" },
+      LABOUR_DAY,
+      CORPUS_CHRISTI,
+      { name: "Independence Day", date: "09-07" },
+      { name: "Our Lady of Aparecida", date: "10-12" },
+      { name: "All Souls' Day", date: "11-02" },
+      { name: "Republic Day", date: "11-15" },
+      { name: "Black Consciousness Day", date: "11-20" },
+      CHRISTMAS,
+    ],
+  },
+  AR: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Carnival Monday", easter: -48 },
+      { name: "Carnival Tuesday", easter: -47 },
+      { name: "Day of Remembrance", date: "03-24" },
+      { name: "Malvinas Day", date: "04-02" },
+      GOOD_FRIDAY,
+      LABOUR_DAY,
+      { name: "May Revolution", date: "05-25" },
+      { name: "Flag Day", date: "06-20" },
+      { name: "Independence Day", date: "07-09" },
+      { name: "Immaculate Conception", date: "12-08" },
+      CHRISTMAS,
+    ],
+  },
+
+  // ── Europe ──
+  GB: {
+    observed: "monday",
+    rules: [
+      NEW_YEARS_DAY,
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      { name: "Early May bank holiday", month: 5, weekday: 1, nth: 1 },
+      { name: "Spring bank holiday", month: 5, weekday: 1, nth: -1 },
+      { name: "Summer bank holiday", month: 8, weekday: 1, nth: -1 },
+      CHRISTMAS,
+      BOXING_DAY,
+    ],
+  },
+  IE: {
+    observed: "monday",
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "St Brigid's Day", month: 2, weekday: 1, nth: 1 },
+      { name: "St Patrick's Day", date: "03-17" },
+      EASTER_MONDAY,
+      { name: "May bank holiday", month: 5, weekday: 1, nth: 1 },
+      { name: "June bank holiday", month: 6, weekday: 1, nth: 1 },
+      { name: "August bank holiday", month: 8, weekday: 1, nth: 1 },
+      { name: "October bank holiday", month: 10, weekday: 1, nth: -1 },
+      CHRISTMAS,
+      ST_STEPHENS,
+    ],
+  },
+  FR: {
+    rules: [
+      NEW_YEARS_DAY,
+      EASTER_MONDAY,
+      LABOUR_DAY,
+      { name: "Victory in Europe Day", date: "05-08" },
+      ASCENSION,
+      WHIT_MONDAY,
+      { name: "Bastille Day", date: "07-14" },
+      ASSUMPTION,
+      ALL_SAINTS,
+      { name: "Armistice Day", date: "11-11" },
+      CHRISTMAS,
+    ],
+  },
+  DE: {
+    rules: [
+      NEW_YEARS_DAY,
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      LABOUR_DAY,
+      ASCENSION,
+      WHIT_MONDAY,
+      { name: "German Unity Day", date: "10-03" },
+      CHRISTMAS,
+      { name: "Second Day of Christmas", date: "12-26" },
+    ],
+  },
+  ES: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Epiphany", date: "01-06" },
+      GOOD_FRIDAY,
+      LABOUR_DAY,
+      ASSUMPTION,
+      { name: "National Day", date: "10-12" },
+      ALL_SAINTS,
+      { name: "Constitution Day", date: "12-06" },
+      { name: "Immaculate Conception", date: "12-08" },
+      CHRISTMAS,
+    ],
+  },
+  IT: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Epiphany", date: "01-06" },
+      EASTER_MONDAY,
+      { name: "Liberation Day", date: "04-25" },
+      LABOUR_DAY,
+      { name: "Republic Day", date: "06-02" },
+      { name: "Ferragosto", date: "08-15" },
+      ALL_SAINTS,
+      { name: "Immaculate Conception", date: "12-08" },
+      CHRISTMAS,
+      ST_STEPHENS,
+    ],
+  },
+  PT: {
+    rules: [
+      NEW_YEARS_DAY,
+      GOOD_FRIDAY,
+      { name: "Freedom Day", date: "04-25" },
+      LABOUR_DAY,
+      CORPUS_CHRISTI,
+      { name: "Portugal Day", date: "06-10" },
+      ASSUMPTION,
+      { name: "Republic Day", date: "10-05" },
+      ALL_SAINTS,
+      { name: "Restoration of Independence", date: "12-01" },
+      { name: "Immaculate Conception", date: "12-08" },
+      CHRISTMAS,
+    ],
+  },
+  NL: {
+    rules: [
+      NEW_YEARS_DAY,
+      EASTER_MONDAY,
+      { name: "King's Day", date: "04-27" },
+      ASCENSION,
+      WHIT_MONDAY,
+      CHRISTMAS,
+      { name: "Second Day of Christmas", date: "12-26" },
+    ],
+  },
+  BE: {
+    rules: [
+      NEW_YEARS_DAY,
+      EASTER_MONDAY,
+      LABOUR_DAY,
+      ASCENSION,
+      WHIT_MONDAY,
+      { name: "National Day", date: "07-21" },
+      ASSUMPTION,
+      ALL_SAINTS,
+      { name: "Armistice Day", date: "11-11" },
+      CHRISTMAS,
+    ],
+  },
+  CH: {
+    rules: [
+      NEW_YEARS_DAY,
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      ASCENSION,
+      WHIT_MONDAY,
+      { name: "Swiss National Day", date: "08-01" },
+      CHRISTMAS,
+      ST_STEPHENS,
+    ],
+  },
+  AT: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Epiphany", date: "01-06" },
+      EASTER_MONDAY,
+      LABOUR_DAY,
+      ASCENSION,
+      WHIT_MONDAY,
+      CORPUS_CHRISTI,
+      ASSUMPTION,
+      { name: "National Day", date: "10-26" },
+      ALL_SAINTS,
+      { name: "Immaculate Conception", date: "12-08" },
+      CHRISTMAS,
+      ST_STEPHENS,
+    ],
+  },
+  SE: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Epiphany", date: "01-06" },
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      { name: "May Day", date: "05-01" },
+      ASCENSION,
+      { name: "National Day", date: "06-06" },
+      { name: "Midsummer Eve", month: 6, weekday: 5, onOrAfter: 19 },
+      { name: "Christmas Eve", date: "12-24" },
+      CHRISTMAS,
+      { name: "Second Day of Christmas", date: "12-26" },
+      { name: "New Year's Eve", date: "12-31" },
+    ],
+  },
+  NO: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Maundy Thursday", easter: -3 },
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      LABOUR_DAY,
+      { name: "Constitution Day", date: "05-17" },
+      ASCENSION,
+      WHIT_MONDAY,
+      CHRISTMAS,
+      { name: "Second Day of Christmas", date: "12-26" },
+    ],
+  },
+  DK: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Maundy Thursday", easter: -3 },
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      ASCENSION,
+      WHIT_MONDAY,
+      { name: "Constitution Day", date: "06-05" },
+      { name: "Christmas Eve", date: "12-24" },
+      CHRISTMAS,
+      { name: "Second Day of Christmas", date: "12-26" },
+    ],
+  },
+  FI: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Epiphany", date: "01-06" },
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      { name: "May Day", date: "05-01" },
+      ASCENSION,
+      { name: "Midsummer Eve", month: 6, weekday: 5, onOrAfter: 19 },
+      { name: "Independence Day", date: "12-06" },
+      { name: "Christmas Eve", date: "12-24" },
+      CHRISTMAS,
+      ST_STEPHENS,
+    ],
+  },
+  PL: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Epiphany", date: "01-06" },
+      EASTER_MONDAY,
+      LABOUR_DAY,
+      { name: "Constitution Day", date: "05-03" },
+      CORPUS_CHRISTI,
+      ASSUMPTION,
+      ALL_SAINTS,
+      { name: "Independence Day", date: "11-11" },
+      { name: "Christmas Eve", date: "12-24" },
+      CHRISTMAS,
+      { name: "Second Day of Christmas", date: "12-26" },
+    ],
+  },
+  GR: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Epiphany", date: "01-06" },
+      { name: "Clean Monday", orthodoxEaster: -48 },
+      { name: "Independence Day", date: "03-25" },
+      { name: "Orthodox Good Friday", orthodoxEaster: -2 },
+      { name: "Orthodox Easter Monday", orthodoxEaster: 1 },
+      LABOUR_DAY,
+      { name: "Orthodox Whit Monday", orthodoxEaster: 50 },
+      ASSUMPTION,
+      { name: "Ochi Day", date: "10-28" },
+      CHRISTMAS,
+      { name: "Synaxis of the Theotokos", date: "12-26" },
+    ],
+  },
+  RO: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "New Year holiday", date: "01-02" },
+      { name: "Epiphany", date: "01-06" },
+      { name: "St John the Baptist", date: "01-07" },
+      { name: "Union Day", date: "01-24" },
+      { name: "Orthodox Good Friday", orthodoxEaster: -2 },
+      { name: "Orthodox Easter Monday", orthodoxEaster: 1 },
+      LABOUR_DAY,
+      { name: "Children's Day", date: "06-01" },
+      { name: "Orthodox Whit Monday", orthodoxEaster: 50 },
+      ASSUMPTION,
+      { name: "St Andrew's Day", date: "11-30" },
+      { name: "National Day", date: "12-01" },
+      CHRISTMAS,
+      { name: "Second Day of Christmas", date: "12-26" },
+    ],
+  },
+  BA: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "New Year holiday", date: "01-02" },
+      { name: "Independence Day", date: "03-01" },
+      LABOUR_DAY,
+      { name: "Labour Day holiday", date: "05-02" },
+      { name: "Statehood Day", date: "11-25" },
+    ],
+  },
+  RU: {
+    rules: [
+      { name: "New Year holidays", date: "01-01" },
+      { name: "New Year holidays", date: "01-02" },
+      { name: "New Year holidays", date: "01-03" },
+      { name: "New Year holidays", date: "01-04" },
+      { name: "New Year holidays", date: "01-05" },
+      { name: "New Year holidays", date: "01-06" },
+      { name: "Orthodox Christmas", date: "01-07" },
+      { name: "New Year holidays", date: "01-08" },
+      { name: "Defender of the Fatherland Day", date: "02-23" },
+      { name: "International Women's Day", date: "03-08" },
+      { name: "Spring and Labour Day", date: "05-01" },
+      { name: "Victory Day", date: "05-09" },
+      { name: "Russia Day", date: "06-12" },
+      { name: "Unity Day", date: "11-04" },
+    ],
+  },
+  TR: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "National Sovereignty and Children's Day", date: "04-23" },
+      { name: "Labour and Solidarity Day", date: "05-01" },
+      { name: "Youth and Sports Day", date: "05-19" },
+      { name: "Democracy and National Unity Day", date: "07-15" },
+      { name: "Victory Day", date: "08-30" },
+      { name: "Republic Day", date: "10-29" },
+      { name: "Ramazan Bayramı", dates: EID_AL_FITR },
+      { name: "Ramazan Bayramı", dates: EID_AL_FITR_2 },
+      { name: "Kurban Bayramı", dates: EID_AL_ADHA },
+      { name: "Kurban Bayramı", dates: EID_AL_ADHA_2 },
+    ],
+  },
+
+  // ── Middle East and Africa ──
+  IL: {
+    rules: [
+      { name: "Passover", dates: ["2025-04-13", "2026-04-02", "2027-04-22", "2028-04-11"] },
+      { name: "Last day of Passover", dates: ["2025-04-19", "2026-04-08", "2027-04-28", "2028-04-17"] },
+      { name: "Independence Day", dates: ["2025-05-01", "2026-04-22", "2027-05-12", "2028-05-02"] },
+      { name: "Shavuot", dates: ["2025-06-02", "2026-05-22", "2027-06-11", "2028-05-31"] },
+      { name: "Rosh Hashanah", dates: ["2025-09-23", "2026-09-12", "2027-10-02", "2028-09-21"] },
+      { name: "Rosh Hashanah", dates: ["2025-09-24", "2026-09-13", "2027-10-03", "2028-09-22"] },
+      { name: "Yom Kippur", dates: ["2025-10-02", "2026-09-21", "2027-10-11", "2028-09-30"] },
+      { name: "Sukkot", dates: ["2025-10-07", "2026-09-26", "2027-10-16", "2028-10-05"] },
+      { name: "Simchat Torah", dates: ["2025-10-14", "2026-10-03", "2027-10-23", "2028-10-12"] },
+    ],
+  },
+  AE: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Eid al-Fitr", dates: EID_AL_FITR },
+      { name: "Eid al-Fitr", dates: EID_AL_FITR_2 },
+      { name: "Arafat Day", dates: ARAFAT_DAY },
+      { name: "Eid al-Adha", dates: EID_AL_ADHA },
+      { name: "Eid al-Adha", dates: EID_AL_ADHA_2 },
+      { name: "Islamic New Year", dates: ISLAMIC_NEW_YEAR },
+      { name: "Prophet's Birthday", dates: MAWLID },
+      { name: "National Day", date: "12-02" },
+      { name: "National Day", date: "12-03" },
+    ],
+  },
+  SA: {
+    rules: [
+      { name: "Founding Day", date: "02-22" },
+      { name: "Eid al-Fitr", dates: EID_AL_FITR },
+      { name: "Eid al-Fitr", dates: EID_AL_FITR_2 },
+      { name: "Arafat Day", dates: ARAFAT_DAY },
+      { name: "Eid al-Adha", dates: EID_AL_ADHA },
+      { name: "Eid al-Adha", dates: EID_AL_ADHA_2 },
+      { name: "National Day", date: "09-23" },
+    ],
+  },
+  EG: {
+    rules: [
+      { name: "Coptic Christmas", date: "01-07" },
+      { name: "Revolution Day", date: "01-25" },
+      { name: "Sinai Liberation Day", date: "04-25" },
+      LABOUR_DAY,
+      { name: "June 30 Revolution", date: "06-30" },
+      { name: "Revolution Day", date: "07-23" },
+      { name: "Armed Forces Day", date: "10-06" },
+      { name: "Eid al-Fitr", dates: EID_AL_FITR },
+      { name: "Eid al-Fitr", dates: EID_AL_FITR_2 },
+      { name: "Arafat Day", dates: ARAFAT_DAY },
+      { name: "Eid al-Adha", dates: EID_AL_ADHA },
+      { name: "Islamic New Year", dates: ISLAMIC_NEW_YEAR },
+      { name: "Prophet's Birthday", dates: MAWLID },
+    ],
+  },
+  ZA: {
+    observed: "sunday",
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Human Rights Day", date: "03-21" },
+      GOOD_FRIDAY,
+      { name: "Family Day", easter: 1 },
+      { name: "Freedom Day", date: "04-27" },
+      { name: "Workers' Day", date: "05-01" },
+      { name: "Youth Day", date: "06-16" },
+      { name: "National Women's Day", date: "08-09" },
+      { name: "Heritage Day", date: "09-24" },
+      { name: "Day of Reconciliation", date: "12-16" },
+      CHRISTMAS,
+      { name: "Day of Goodwill", date: "12-26" },
+    ],
+  },
+  NG: {
+    rules: [
+      NEW_YEARS_DAY,
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      { name: "Workers' Day", date: "05-01" },
+      { name: "Democracy Day", date: "06-12" },
+      { name: "Independence Day", date: "10-01" },
+      { name: "Eid al-Fitr", dates: EID_AL_FITR },
+      { name: "Eid al-Adha", dates: EID_AL_ADHA },
+      { name: "Prophet's Birthday", dates: MAWLID },
+      CHRISTMAS,
+      BOXING_DAY,
+    ],
+  },
+  KE: {
+    observed: "sunday",
+    rules: [
+      NEW_YEARS_DAY,
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      LABOUR_DAY,
+      { name: "Madaraka Day", date: "06-01" },
+      { name: "Eid al-Fitr", dates: EID_AL_FITR },
+      { name: "Mazingira Day", date: "10-10" },
+      { name: "Mashujaa Day", date: "10-20" },
+      { name: "Jamhuri Day", date: "12-12" },
+      CHRISTMAS,
+      BOXING_DAY,
+    ],
+  },
+
+  // ── Asia ──
+  IN: {
+    rules: [
+      { name: "Republic Day", date: "01-26" },
+      { name: "Holi", dates: HOLI },
+      { name: "Eid al-Fitr", dates: EID_AL_FITR },
+      { name: "Independence Day", date: "08-15" },
+      { name: "Gandhi Jayanti", date: "10-02" },
+      { name: "Diwali", dates: DIWALI },
+      CHRISTMAS,
+    ],
+  },
+  PK: {
+    rules: [
+      { name: "Kashmir Solidarity Day", date: "02-05" },
+      { name: "Pakistan Day", date: "03-23" },
+      LABOUR_DAY,
+      { name: "Independence Day", date: "08-14" },
+      { name: "Iqbal Day", date: "11-09" },
+      { name: "Quaid-e-Azam Day", date: "12-25" },
+      { name: "Eid al-Fitr", dates: EID_AL_FITR },
+      { name: "Eid al-Fitr", dates: EID_AL_FITR_2 },
+      { name: "Eid al-Adha", dates: EID_AL_ADHA },
+      { name: "Eid al-Adha", dates: EID_AL_ADHA_2 },
+      { name: "Eid Milad-un-Nabi", dates: MAWLID },
+    ],
+  },
+  CN: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Spring Festival", dates: LUNAR_NEW_YEAR_EVE },
+      { name: "Spring Festival", dates: LUNAR_NEW_YEAR },
+      { name: "Spring Festival", dates: LUNAR_NEW_YEAR_2 },
+      { name: "Spring Festival", dates: LUNAR_NEW_YEAR_3 },
+      { name: "Qingming Festival", dates: QINGMING },
+      LABOUR_DAY,
+      { name: "Labour Day", date: "05-02" },
+      { name: "Dragon Boat Festival", dates: DRAGON_BOAT },
+      { name: "Mid-Autumn Festival", dates: MID_AUTUMN },
+      { name: "National Day", date: "10-01" },
+      { name: "National Day", date: "10-02" },
+      { name: "National Day", date: "10-03" },
+    ],
+  },
+  HK: {
+    observed: "sunday",
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Lunar New Year", dates: LUNAR_NEW_YEAR },
+      { name: "Lunar New Year", dates: LUNAR_NEW_YEAR_2 },
+      { name: "Lunar New Year", dates: LUNAR_NEW_YEAR_3 },
+      GOOD_FRIDAY,
+      { name: "Day after Good Friday", easter: -1 },
+      EASTER_MONDAY,
+      { name: "Ching Ming Festival", dates: QINGMING },
+      LABOUR_DAY,
+      { name: "Buddha's Birthday", dates: BUDDHAS_BIRTHDAY },
+      { name: "Tuen Ng Festival", dates: DRAGON_BOAT },
+      { name: "HKSAR Establishment Day", date: "07-01" },
+      { name: "Day after Mid-Autumn Festival", dates: ["2025-10-07", "2026-09-26", "2027-09-16", "2028-10-04"] },
+      { name: "National Day", date: "10-01" },
+      { name: "Chung Yeung Festival", dates: ["2025-10-29", "2026-10-18", "2027-10-08", "2028-10-26"] },
+      CHRISTMAS,
+      { name: "First weekday after Christmas", date: "12-26" },
+    ],
+  },
+  TW: {
+    rules: [
+      { name: "Founding Day", date: "01-01" },
+      { name: "Lunar New Year", dates: LUNAR_NEW_YEAR_EVE },
+      { name: "Lunar New Year", dates: LUNAR_NEW_YEAR },
+      { name: "Lunar New Year", dates: LUNAR_NEW_YEAR_2 },
+      { name: "Lunar New Year", dates: LUNAR_NEW_YEAR_3 },
+      { name: "Peace Memorial Day", date: "02-28" },
+      { name: "Children's Day", date: "04-04" },
+      { name: "Tomb Sweeping Day", dates: QINGMING },
+      LABOUR_DAY,
+      { name: "Dragon Boat Festival", dates: DRAGON_BOAT },
+      { name: "Mid-Autumn Festival", dates: MID_AUTUMN },
+      { name: "National Day", date: "10-10" },
+    ],
+  },
+  JP: {
+    observed: "sunday",
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Coming of Age Day", month: 1, weekday: 1, nth: 2 },
+      { name: "National Foundation Day", date: "02-11" },
+      { name: "Emperor's Birthday", date: "02-23" },
+      { name: "Vernal Equinox Day", dates: ["2025-03-20", "2026-03-20", "2027-03-21", "2028-03-20"] },
+      { name: "Shōwa Day", date: "04-29" },
+      { name: "Constitution Memorial Day", date: "05-03" },
+      { name: "Greenery Day", date: "05-04" },
+      { name: "Children's Day", date: "05-05" },
+      { name: "Marine Day", month: 7, weekday: 1, nth: 3 },
+      { name: "Mountain Day", date: "08-11" },
+      { name: "Respect for the Aged Day", month: 9, weekday: 1, nth: 3 },
+      { name: "Autumnal Equinox Day", dates: ["2025-09-23", "2026-09-23", "2027-09-23", "2028-09-22"] },
+      { name: "Sports Day", month: 10, weekday: 1, nth: 2 },
+      { name: "Culture Day", date: "11-03" },
+      { name: "Labour Thanksgiving Day", date: "11-23" },
+    ],
+  },
+  KR: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Seollal", dates: ["2025-01-28", "2026-02-16", "2027-02-06", "2028-01-25"] },
+      { name: "Seollal", dates: ["2025-01-29", "2026-02-17", "2027-02-07", "2028-01-26"] },
+      { name: "Seollal", dates: ["2025-01-30", "2026-02-18", "2027-02-08", "2028-01-27"] },
+      { name: "Independence Movement Day", date: "03-01" },
+      { name: "Children's Day", date: "05-05" },
+      { name: "Buddha's Birthday", dates: BUDDHAS_BIRTHDAY },
+      { name: "Memorial Day", date: "06-06" },
+      { name: "Liberation Day", date: "08-15" },
+      { name: "Chuseok", dates: ["2025-10-05", "2026-09-24", "2027-09-14", "2028-10-02"] },
+      { name: "Chuseok", dates: ["2025-10-06", "2026-09-25", "2027-09-15", "2028-10-03"] },
+      { name: "Chuseok", dates: ["2025-10-07", "2026-09-26", "2027-09-16", "2028-10-04"] },
+      { name: "National Foundation Day", date: "10-03" },
+      { name: "Hangul Day", date: "10-09" },
+      CHRISTMAS,
+    ],
+  },
+  SG: {
+    observed: "sunday",
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Chinese New Year", dates: LUNAR_NEW_YEAR },
+      { name: "Chinese New Year", dates: LUNAR_NEW_YEAR_2 },
+      { name: "Hari Raya Puasa", dates: EID_AL_FITR_2 },
+      GOOD_FRIDAY,
+      LABOUR_DAY,
+      { name: "Vesak Day", dates: ["2025-05-12", "2026-05-31", "2027-05-20", "2028-05-09"] },
+      { name: "Hari Raya Haji", dates: EID_AL_ADHA },
+      { name: "National Day", date: "08-09" },
+      { name: "Deepavali", dates: DIWALI },
+      CHRISTMAS,
+    ],
+  },
+  PH: {
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Maundy Thursday", easter: -3 },
+      GOOD_FRIDAY,
+      { name: "Day of Valour", date: "04-09" },
+      LABOUR_DAY,
+      { name: "Independence Day", date: "06-12" },
+      { name: "National Heroes Day", month: 8, weekday: 1, nth: -1 },
+      { name: "Bonifacio Day", date: "11-30" },
+      CHRISTMAS,
+      { name: "Rizal Day", date: "12-30" },
+    ],
+  },
+
+  // ── Oceania ──
+  AU: {
+    observed: "monday",
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Australia Day", date: "01-26" },
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      { name: "Anzac Day", date: "04-25" },
+      { name: "King's Birthday", month: 6, weekday: 1, nth: 2 },
+      CHRISTMAS,
+      BOXING_DAY,
+    ],
+  },
+  NZ: {
+    observed: "monday",
+    rules: [
+      NEW_YEARS_DAY,
+      { name: "Day after New Year's Day", date: "01-02" },
+      { name: "Waitangi Day", date: "02-06" },
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      { name: "Anzac Day", date: "04-25" },
+      { name: "King's Birthday", month: 6, weekday: 1, nth: 1 },
+      { name: "Matariki", dates: ["2025-06-20", "2026-07-10", "2027-06-25", "2028-07-14"] },
+      { name: "Labour Day", month: 10, weekday: 1, nth: 4 },
+      CHRISTMAS,
+      BOXING_DAY,
+    ],
+  },
+};
@@ -0,0 +1,92 @@
+import { CITIES, type City } from "./cities";
+
+/**
+ * One generated city: [id, name, admin1, countryCode, lat, lon, tz, population, asciiName?].
+ * Produced by scripts/generate-world-cities.mjs — tuples keep the chunk small.
+ */
+export type WorldCityRow = [string, string, string, string, number, number, string, number, string?];
+
+type WorldCityData = { countries: Record<string, string>; cities: WorldCityRow[] };
+
+function isWorldCityRow(row: unknown): row is WorldCityRow {
+  if (!Array.isArray(row) || row.length < 8 || row.length > 9) return false;
+  const [id, name, admin1, countryCode, lat, lon, tz, population, asciiName] = row;
+  return (
+    [id, name, admin1, countryCode, tz].every((field) => typeof field === "string") &&
+    [lat, lon, population].every((field) => typeof field === "number") &&
+    (asciiName === undefined || typeof asciiName === "string")
+  );
+}
+
+function isWorldCityData(value: unknown): value is WorldCityData {
+  const data = value as WorldCityData | null;
+  return (
+    typeof data?.countries === "object" &&
+    data.countries !== null &&
+    Object.values(data.countries).every((name) => typeof name === "string") &&
+    Array.isArray(data.cities) &&
+    data.cities.every(isWorldCityRow)
+  );
+}
+
+// Generated places this close to a curated city are the same place under another name
+// (e.g. "New Delhi" next to Delhi) and are dropped in favour of the curated entry
+const DUPLICATE_KM = 15;
+
+function distanceKm(a: City, lat: number, lon: number): number {
+  const rad = Math.PI / 180;
+  const h =
+    Math.sin(((lat - a.lat) * rad) / 2) ** 2 +
+    Math.cos(a.lat * rad) * Math.cos(lat * rad) * Math.sin(((lon - a.lon) * rad) / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+function mergeWorldCities(data: WorldCityData): City[] {
+  const curatedByCountry = new Map<string, City[]>();
+  const countryNames = new Map<string, string>();
+  for (const city of CITIES) {
+    curatedByCountry.set(city.countryCode, [...(curatedByCountry.get(city.countryCode) ?? []), city]);
+    countryNames.set(city.countryCode, city.country);
+  }
+
+  const extra: City[] = [];
+  for (const [id, name, admin1, countryCode, lat, lon, tz, population, asciiName] of data.cities) {
+    const nearby = curatedByCountry.get(countryCode) ?? [];
+    if (nearby.some((c) => distanceKm(c, lat, lon) < DUPLICATE_KM)) continue;
+    extra.push({
+      id,
+      name,
+      // Prefer the curated spelling ("United States" over "United States of America")
+      country: countryNames.get(countryCode) ?? data.countries[countryCode] ?? countryCode,
+      countryCode,
+      admin1: admin1 || undefined,
+      lat,
+      lon,
+      tz,
+      population,
+      altNames: asciiName ? [asciiName] : undefined,
+    });
+  }
+  return [...CITIES, ...extra];
+}
+
+let loading: Promise<City[]> | null = null;
+
+/**
+ * CITIES followed by several thousand generated places. The data lives in its own chunk
+ * and is fetched on first call; later calls share the same promise.
+ */
+export function loadWorldCities(): Promise<City[]> {
+  loading ??= import("./world-cities.json")
+    .then((mod) => {
+      const data: unknown = mod.default;
+      if (!isWorldCityData(data)) throw new Error("world-cities.json is malformed");
+      return mergeWorldCities(data);
+    })
+    .catch((err) => {
+      // Let the next call retry instead of caching the failure
+      loading = null;
+      throw err;
+    });
+  return loading;
+}
@@ -0,0 +1,99 @@
+// Common timezone abbreviations, keyed by upper-case abbreviation. Abbreviations are not
+// unique (IST is used in India, Israel and Ireland), so each maps to every zone it's
+// commonly used for. `tz` is a representative IANA zone whose clock the abbreviation follows.
+
+export type ZoneAbbreviation = { name: string; tz: string };
+
+export const ZONE_ABBREVIATIONS: Record<string, ZoneAbbreviation[]> = {
+  // North America
+  PT: [{ name: "Pacific Time", tz: "America/Los_Angeles" }],
+  PST: [{ name: "Pacific Standard Time", tz: "America/Los_Angeles" }],
+  PDT: [{ name: "Pacific Daylight Time", tz: "America/Los_Angeles" }],
+  MT: [{ name: "Mountain Time", tz: "America/Denver" }],
+  MST: [
+    { name: "Mountain Standard Time", tz: "America/Denver" },
+    { name: "Mountain Standard Time (Arizona)", tz: "America/Phoenix" },
+  ],
+  MDT: [{ name: "Mountain Daylight Time", tz: "America/Denver" }],
+  CT: [{ name: "Central Time", tz: "America/Chicago" }],
+  CST: [
+    { name: "Central Standard Time", tz: "America/Chicago" },
+    { name: "China Standard Time", tz: "Asia/Shanghai" },
+    { name: "Cuba Standard Time", tz: "America/Havana" },
+  ],
+  CDT: [{ name: "Central Daylight Time", tz: "America/Chicago" }],
+  ET: [{ name: "Eastern Time", tz: "America/New_York" }],
+  EST: [{ name: "Eastern Standard Time", tz: "America/New_York" }],
+  EDT: [{ name: "Eastern Daylight Time", tz: "America/New_York" }],
+  AKST: [{ name: "Alaska Standard Time", tz: "America/Anchorage" }],
+  AKDT: [{ name: "Alaska Daylight Time", tz: "America/Anchorage" }],
+  HST: [{ name: "Hawaii Standard Time", tz: "Pacific/Honolulu" }],
+  AST: [
+    { name: "Atlantic Standard Time", tz: "America/Halifax" },
+    { name: "Arabia Standard Time", tz: "Asia/Riyadh" },
+  ],
+  ADT: [{ name: "Atlantic Daylight Time", tz: "America/Halifax" }],
+  NST: [{ name: "Newfoundland Standard Time", tz: "America/St_Johns" }],
+  NDT: [{ name: "Newfoundland Daylight Time", tz: "America/St_Johns" }],
+
+  // South America
+  BRT: [{ name: "Brasília Time", tz: "America/Sao_Paulo" }],
+  ART: [{ name: "Argentina Time", tz: "America/Argentina/Buenos_Aires" }],
+  CLT: [{ name: "Chile Standard Time", tz: "America/Santiago" }],
+  COT: [{ name: "Colombia Time", tz: "America/Bogota" }],
+  PET: [{ name: "Peru Time", tz: "America/Lima" }],
+
+  // Europe
+  WET: [{ name: "Western European Time", tz: "Europe/Lisbon" }],
+  WEST: [{ name: "Western European Summer Time", tz: "Europe/Lisbon" }],
+  BST: [
+    { name: "British Summer Time", tz: "Europe/London" },
+    { name: "Bangladesh Standard Time", tz: "Asia/Dhaka" },
+  ],
+  IST: [
+    { name: "India Standard Time", tz: "Asia/Kolkata" },
+    { name: "Israel Standard Time", tz: "Asia/Jerusalem" },
+    { name: "Irish Standard Time", tz: "Europe/Dublin" },
+  ],
+  CET: [{ name: "Central European Time", tz: "Europe/Berlin" }],
+  CEST: [{ name: "Central European Summer Time", tz: "Europe/Berlin" }],
+  EET: [{ name: "Eastern European Time", tz: "Europe/Athens" }],
+  EEST: [{ name: "Eastern European Summer Time", tz: "Europe/Athens" }],
+  MSK: [{ name: "Moscow Time", tz: "Europe/Moscow" }],
+  TRT: [{ name: "Turkey Time", tz: "Europe/Istanbul" }],
+
+  // Africa
+  WAT: [{ name: "West Africa Time", tz: "Africa/Lagos" }],
+  CAT: [{ name: "Central Africa Time", tz: "Africa/Maputo" }],
+  EAT: [{ name: "East Africa Time", tz: "Africa/Nairobi" }],
+  SAST: [{ name: "South Africa Standard Time", tz: "Africa/Johannesburg" }],
+
+  // Asia
+  GST: [{ name: "Gulf Standard Time", tz: "Asia/Dubai" }],
+  IRST: [{ name: "Iran Standard Time", tz: "Asia/Tehran" }],
+  PKT: [{ name: "Pakistan Standard Time", tz: "Asia/Karachi" }],
+  NPT: [{ name: "Nepal Time", tz: "Asia/Kathmandu" }],
+  ICT: [{ name: "Indochina Time", tz: "Asia/Bangkok" }],
+  WIB: [{ name: "Western Indonesia Time", tz: "Asia/Jakarta" }],
+  SGT: [{ name: "Singapore Time", tz: "Asia/Singapore" }],
+  MYT: [{ name: "Malaysia Time", tz: "Asia/Kuala_Lumpur" }],
+  HKT: [{ name: "Hong Kong Time", tz: "Asia/Hong_Kong" }],
+  PHT: [{ name: "Philippine Time", tz: "Asia/Manila" }],
+  KST: [{ name: "Korea Standard Time", tz: "Asia/Seoul" }],
+  JST: [{ name: "Japan Standard Time", tz: "Asia/Tokyo" }],
+
+  // Oceania
+  AWST: [{ name: "Australian Western Standard Time", tz: "Australia/Perth" }],
+  ACST: [
+    { name: "Australian Central Standard Time", tz: "Australia/Adelaide" },
+    { name: "Australian Central Standard Time (Northern Territory)", tz: "Australia/Darwin" },
+  ],
+  ACDT: [{ name: "Australian Central Daylight Time", tz: "Australia/Adelaide" }],
+  AEST: [
+    { name: "Australian Eastern Standard Time", tz: "Australia/Sydney" },
+    { name: "Australian Eastern Standard Time (Queensland)", tz: "Australia/Brisbane" },
+  ],
+  AEDT: [{ name: "Australian Eastern Daylight Time", tz: "Australia/Sydney" }],
+  NZST: [{ name: "New Zealand Standard Time", tz: "Pacific/Auckland" }],
+  NZDT: [{ name: "New Zealand Daylight Time", tz: "Pacific/Auckland" }],
+};
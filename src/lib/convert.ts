@@ -0,0 +1,109 @@
+import { DateTime, IANAZone } from "luxon";
+import { CITIES, findCity, type City } from "@/data/cities";
+import { formatDiff, formatOffset } from "./utils";
+import { offsetTransitions } from "./dst";
+import { foldText } from "./search";
+import { getAllTimezones } from "./timezones";
+
+/*
+ * Shapes and helpers behind the JSON API routes (/api/convert, /api/cities), so scripts
+ * and bots get the same zone math as the explorer.
+ */
+
+const DAY = 86400000;
+// How far ahead `dstChanges` looks
+const DST_LOOKAHEAD_DAYS = 365;
+
+/** A `from` / `to` value resolved to a zone: a catalogue city, or a bare IANA zone */
+export type ZoneTarget = { query: string; tz: string; city: City | null };
+
+export type CityJson = Pick<City, "id" | "name" | "country" | "countryCode" | "admin1" | "lat" | "lon" | "tz">;
+
+export type DstChangeJson = {
+  /** UTC ISO instant the new offset applies from */
+  at: string;
+  from: string;
+  to: string;
+  /** Difference from `from`'s zone once the change applies */
+  diffAfter: string;
+};
+
+export type ZoneTimeJson = {
+  query: string;
+  city: CityJson | null;
+  tz: string;
+  /** ISO local time with offset */
+  local: string;
+  time: string;
+  date: string;
+  /** "UTC+09:00", as formatOffset writes it */
+  offset: string;
+  offsetMinutes: number;
+  abbreviation: string;
+  /** Difference from the `from` zone, as formatDiff writes it ("+9h", "same time") */
+  diff: string;
+  diffMinutes: number;
+  /** Offset changes in the next year, soonest first */
+  dstChanges: DstChangeJson[];
+};
+
+export function cityJson(city: City): CityJson {
+  const { id, name, country, countryCode, admin1, lat, lon, tz } = city;
+  return { id, name, country, countryCode, admin1, lat, lon, tz };
+}
+
+/** A city id or name from CITIES ("sao paulo" finds São Paulo), or an IANA zone; null when it's neither */
+export function resolveZone(query: string, cities: City[] = CITIES): ZoneTarget | null {
+  const key = query.trim();
+  if (!key) return null;
+  const folded = foldText(key);
+  const city = findCity(key, cities) ?? cities.find((c) => foldText(c.name) === folded);
+  if (city) return { query: key, tz: city.tz, city };
+  if (IANAZone.isValidZone(key)) {
+    // Zone names match case-insensitively; answer with the usual spelling where we know it
+    const lower = key.toLowerCase();
+    const tz = [...getAllTimezones(), "UTC"].find((z) => z.toLowerCase() === lower) ?? key;
+    return { query: key, tz, city: null };
+  }
+  return null;
+}
+
+// The furthest a Date reaches either side of the epoch, less room for the largest zone
+// offset and for the `dstChanges` lookahead, which both have to stay in range too
+const MAX_EPOCH_MS = 8.64e15 - (DST_LOOKAHEAD_DAYS + 1) * DAY;
+
+/**
+ * Reads `at` as epoch millis or an ISO date-time. Wall-clock times without an offset are
+ * taken in `tz`; returns null for anything else, including instants too near the limits
+ * of a Date to describe.
+ */
+export function parseInstant(at: string, tz: string): number | null {
+  const ms = /^\d+$/.test(at) ? Number(at) : DateTime.fromISO(at, { zone: tz }).toMillis();
+  return Number.isSafeInteger(ms) && Math.abs(ms) <= MAX_EPOCH_MS ? ms : null;
+}
+
+/** `target`'s local time at `instant`, compared with `fromTz` */
+export function describeZoneTime(target: ZoneTarget, fromTz: string, instant: number): ZoneTimeJson {
+  const local = DateTime.fromMillis(instant).setZone(target.tz);
+  const fromOffsetAt = (ms: number) => DateTime.fromMillis(ms).setZone(fromTz).offset;
+  const diffMinutes = local.offset - fromOffsetAt(instant);
+  return {
+    query: target.query,
+    city: target.city && cityJson(target.city),
+    tz: target.tz,
+    local: local.toISO() ?? "",
+    time: local.toFormat("HH:mm"),
+    date: local.toFormat("yyyy-MM-dd"),
+    offset: formatOffset(local.offset),
+    offsetMinutes: local.offset,
+    abbreviation: local.offsetNameShort ?? "",
+    diff: formatDiff(diffMinutes),
+    diffMinutes,
+    dstChanges: offsetTransitions(target.tz, instant, instant + DST_LOOKAHEAD_DAYS * DAY).map((t) => ({
+      at: DateTime.fromMillis(t.at, { zone: "utc" }).toISO() ?? "",
+      from: formatOffset(t.fromOffset),
+      to: formatOffset(t.toOffset),
+      diffAfter: formatDiff(t.toOffset - fromOffsetAt(t.at)),
+    })),
+  };
+}
@@ -0,0 +1,128 @@
+import { DateTime, IANAZone } from "luxon";
+import { CITIES, type City } from "@/data/cities";
+
+/** A user-defined place such as "Client HQ" or "Alice (Lisbon)", stored in localStorage */
+export type CustomLocation = {
+  id: string;
+  label: string;
+  tz: string;
+  lat?: number;
+  lon?: number;
+  person?: string;
+};
+
+export const CUSTOM_COUNTRY = "My places";
+
+export const CUSTOM_STORAGE_KEY = "tz-custom-locations";
+
+const ID_PREFIX = "custom:";
+
+export function isCustomLocation(city: City): boolean {
+  return city.id.startsWith(ID_PREFIX);
+}
+
+export function createCustomId(): string {
+  return `${ID_PREFIX}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function validCoords(lat: unknown, lon: unknown): boolean {
+  return (
+    typeof lat === "number" &&
+    typeof lon === "number" &&
+    Number.isFinite(lat) &&
+    Number.isFinite(lon) &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lon) <= 180
+  );
+}
+
+/** Why a custom location can't be saved, or null if it's fine */
+export function validateCustomLocation(loc: Omit<CustomLocation, "id">): string | null {
+  if (!loc.label.trim()) return "Give the place a label";
+  if (!IANAZone.isValidZone(loc.tz)) return `“${loc.tz}” isn't a known IANA timezone`;
+  if ((loc.lat !== undefined || loc.lon !== undefined) && !validCoords(loc.lat, loc.lon)) {
+    return "Coordinates must be latitude −90…90 and longitude −180…180";
+  }
+  return null;
+}
+
+// Drop anything malformed from storage rather than failing the whole list
+export function parseCustomLocations(raw: unknown): CustomLocation[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (item): item is CustomLocation =>
+      typeof item?.id === "string" &&
+      item.id.startsWith(ID_PREFIX) &&
+      typeof item.label === "string" &&
+      typeof item.tz === "string" &&
+      (item.person === undefined || typeof item.person === "string") &&
+      validateCustomLocation(item) === null
+  );
+}
+
+// Places without coordinates borrow those of a city in the same zone so they still get a
+// map position and sunrise times; failing that, the zone's meridian on the equator.
+export function fallbackCoords(tz: string): { lat: number; lon: number } {
+  const city = CITIES.find((c) => c.tz === tz);
+  if (city) return { lat: city.lat, lon: city.lon };
+  const offsetHours = DateTime.now().setZone(tz).offset / 60;
+  return { lat: 0, lon: Math.max(-180, Math.min(180, offsetHours * 15)) };
+}
+
+export function customToCity(loc: CustomLocation): City {
+  const coords = validCoords(loc.lat, loc.lon) ? { lat: loc.lat!, lon: loc.lon! } : fallbackCoords(loc.tz);
+  return {
+    id: loc.id,
+    name: loc.label,
+    country: CUSTOM_COUNTRY,
+    countryCode: "",
+    ...coords,
+    tz: loc.tz,
+    person: loc.person || undefined,
+    // Lets search find "Client HQ" by the person's name too
+    altNames: loc.person ? [loc.person] : undefined,
+  };
+}
+
+/** How a custom place travels in a share link: short id, label, tz, lat, lon, person */
+export function customShareFields(city: City): string[] {
+  return [
+    city.id.slice(ID_PREFIX.length),
+    city.name,
+    city.tz,
+    city.lat.toFixed(4),
+    city.lon.toFixed(4),
+    city.person ?? "",
+  ];
+}
+
+/** Inverse of customShareFields. Returns why the place can't be used instead of a city. */
+export function customFromShareFields(fields: string[]): City | string {
+  if (fields.length !== 6) return "A saved place in the link is incomplete";
+  const [id, label, tz, lat, lon, person] = fields;
+  if (!/^[a-z0-9]+$/.test(id)) return "A saved place in the link has a malformed id";
+  const loc: CustomLocation = {
+    id: `${ID_PREFIX}${id}`,
+    label,
+    tz,
+    lat: parseFloat(lat),
+    lon: parseFloat(lon),
+    person: person || undefined,
+  };
+  const error = validateCustomLocation(loc);
+  return error ? `${label || "A saved place"}: ${error}` : customToCity(loc);
+}
+
+// Links from before share format v2: "id|label|tz|lat,lon|person", each field percent-encoded
+export function decodeLegacyCustomLocation(value: string): City | null {
+  const fields = value.split("|");
+  if (fields.length !== 5) return null;
+  try {
+    const [id, label, tz, coords, person] = fields.map(decodeURIComponent);
+    const [lat = "", lon = ""] = coords.split(",");
+    const city = customFromShareFields([id, label, tz, lat, lon, person]);
+    return typeof city === "string" ? null : city;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,84 @@
+import { DateTime } from "luxon";
+
+export type OffsetTransition = {
+  /** First instant (epoch millis) at which the new offset applies */
+  at: number;
+  fromOffset: number;
+  toOffset: number;
+};
+
+export type DiffChange = {
+  at: number;
+  fromDiff: number;
+  toDiff: number;
+};
+
+const HOUR = 3600000;
+const DAY = 24 * HOUR;
+
+// Zones change offset at most a couple of times a year, never twice within a few
+// hours, so sampling every 6 hours and bisecting down to the minute is enough.
+const SCAN_STEP = 6 * HOUR;
+
+function offsetAt(tz: string, ms: number): number {
+  return DateTime.fromMillis(ms).setZone(tz).offset;
+}
+
+/** All UTC offset changes for `tz` in the half-open range [from, to) */
+export function offsetTransitions(tz: string, from: number, to: number): OffsetTransition[] {
+  const result: OffsetTransition[] = [];
+  let prevTime = from;
+  let prevOffset = offsetAt(tz, from);
+
+  for (let t = from + SCAN_STEP; t < to + SCAN_STEP; t += SCAN_STEP) {
+    const probe = Math.min(t, to);
+    const offset = offsetAt(tz, probe);
+    // Past the range a Date can hold the offset is NaN, which is no change to report
+    if (Number.isNaN(offset) || Number.isNaN(prevOffset)) {
+      prevTime = probe;
+      prevOffset = offset;
+      continue;
+    }
+    if (offset !== prevOffset) {
+      // Bisect to the minute: lo always has the old offset, hi the new one
+      let lo = prevTime;
+      let hi = probe;
+      while (hi - lo > 60000) {
+        const mid = Math.floor((lo + hi) / 120000) * 60000;
+        if (mid <= lo) break;
+        if (offsetAt(tz, mid) === prevOffset) lo = mid;
+        else hi = mid;
+      }
+      if (hi < to) result.push({ at: hi, fromOffset: prevOffset, toOffset: offset });
+      prevOffset = offset;
+    }
+    prevTime = probe;
+  }
+  return result;
+}
+
+/** The next UTC offset change for `tz` after `from`, looking ahead about a year */
+export function nextOffsetTransition(tz: string, from: number): OffsetTransition | null {
+  return offsetTransitions(tz, from, from + 400 * DAY)[0] ?? null;
+}
+
+/**
+ * Instants in [from, to) at which the difference between `tz` and `homeTz` changes,
+ * i.e. when only one side of the pair shifts its clocks (or both shift differently).
+ */
+export function diffChanges(tz: string, homeTz: string, from: number, to: number): DiffChange[] {
+  const candidates = [
+    ...offsetTransitions(tz, from, to),
+    ...offsetTransitions(homeTz, from, to),
+  ]
+    .map((t) => t.at)
+    .sort((a, b) => a - b);
+
+  const result: DiffChange[] = [];
+  for (const at of new Set(candidates)) {
+    const fromDiff = offsetAt(tz, at - 60000) - offsetAt(homeTz, at - 60000);
+    const toDiff = offsetAt(tz, at) - offsetAt(homeTz, at);
+    if (fromDiff !== toDiff) result.push({ at, fromDiff, toDiff });
+  }
+  return result;
+}
@@ -0,0 +1,65 @@
+/*
+ * Display options for the /embed clocks widget, on top of the usual share params:
+ *
+ *   /embed?v=2&pins=tokyo-jp,london-gb&home=America/New_York&layout=grid&size=lg&theme=light&clock=12h
+ */
+
+export type EmbedLayout = "row" | "grid" | "column";
+export type EmbedTheme = "dark" | "light" | "system";
+export type EmbedClock = "24h" | "12h";
+
+export type EmbedOptions = {
+  layout: EmbedLayout;
+  /** Clock face diameter in px */
+  size: number;
+  theme: EmbedTheme;
+  clock: EmbedClock;
+};
+
+export const EMBED_SIZES: Record<string, number> = { sm: 56, md: 80, lg: 120 };
+const MIN_SIZE = 32;
+const MAX_SIZE = 240;
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  layout: "row",
+  size: EMBED_SIZES.md,
+  theme: "dark",
+  clock: "24h",
+};
+
+function pick<T extends string>(value: string | undefined, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+// "sm" / "md" / "lg", or a pixel size clamped to something that still reads as a clock
+function parseSize(value: string | undefined): number {
+  if (!value) return DEFAULT_EMBED_OPTIONS.size;
+  if (value in EMBED_SIZES) return EMBED_SIZES[value];
+  const px = parseInt(value, 10);
+  if (!Number.isFinite(px)) return DEFAULT_EMBED_OPTIONS.size;
+  return Math.min(MAX_SIZE, Math.max(MIN_SIZE, px));
+}
+
+/** Reads the widget's display params; anything unrecognised falls back to its default */
+export function parseEmbedOptions(params: Record<string, string | string[] | undefined>): EmbedOptions {
+  const get = (key: string) => {
+    const value = params[key];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  return {
+    layout: pick(get("layout"), ["row", "grid", "column"], DEFAULT_EMBED_OPTIONS.layout),
+    size: parseSize(get("size")),
+    theme: pick(get("theme"), ["dark", "light", "system"], DEFAULT_EMBED_OPTIONS.theme),
+    clock: pick(get("clock"), ["24h", "12h"], DEFAULT_EMBED_OPTIONS.clock),
+  };
+}
+
+/**
+ * Inline script that applies the widget's theme before first paint, overriding the
+ * app's stored choice — the page hosting the iframe decides, not the visitor's last visit.
+ */
+export function embedThemeScript(theme: EmbedTheme): string {
+  const dark =
+    theme === "system" ? "window.matchMedia('(prefers-color-scheme: dark)').matches" : String(theme === "dark");
+  return `try{document.documentElement.classList.toggle('dark',${dark})}catch(e){}`;
+}
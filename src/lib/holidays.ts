@@ -0,0 +1,154 @@
+import { DateTime } from "luxon";
+import type { City } from "@/data/cities";
+import { HOLIDAYS, type HolidayRule, type Observed } from "@/data/holidays";
+import { countryForZone } from "./workingHours";
+
+/** A public holiday on a local calendar date, "yyyy-MM-dd" */
+export type Holiday = { date: string; name: string };
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+// Dates are plain calendar days, so all the arithmetic happens in UTC
+function day(year: number, month: number, dayOfMonth: number): DateTime {
+  return DateTime.utc(year, month, dayOfMonth);
+}
+
+// Anonymous Gregorian computus
+function westernEaster(year: number): DateTime {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  return day(year, month, ((h + l - 7 * m + 114) % 31) + 1);
+}
+
+// Julian computus (Meeus), moved onto the Gregorian calendar — 13 days apart until 2100
+function orthodoxEaster(year: number): DateTime {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  return day(year, month, ((d + e + 114) % 31) + 1).plus({ days: 13 });
+}
+
+function ruleDates(rule: HolidayRule, year: number): DateTime[] {
+  if ("dates" in rule) {
+    return rule.dates.filter((d) => d.startsWith(`${year}-`)).map((d) => DateTime.fromISO(d, { zone: "utc" }));
+  }
+  if ("date" in rule) {
+    const [month, dayOfMonth] = rule.date.split("-").map(Number);
+    return [day(year, month, dayOfMonth)];
+  }
+  if ("easter" in rule) return [westernEaster(year).plus({ days: rule.easter })];
+  if ("orthodoxEaster" in rule) return [orthodoxEaster(year).plus({ days: rule.orthodoxEaster })];
+  if ("onOrAfter" in rule) {
+    const start = day(year, rule.month, rule.onOrAfter);
+    return [start.plus({ days: (rule.weekday - start.weekday + 7) % 7 })];
+  }
+  if (rule.nth > 0) {
+    const first = day(year, rule.month, 1);
+    return [first.plus({ days: (rule.weekday - first.weekday + 7) % 7 + (rule.nth - 1) * 7 })];
+  }
+  const last = day(year, rule.month, 1).endOf("month").startOf("day");
+  return [last.minus({ days: (last.weekday - rule.weekday + 7) % 7 })];
+}
+
+const isWeekend = (date: DateTime) => date.weekday >= 6;
+
+// The weekday a weekend holiday moves to, skipping days that are already holidays
+function observedDate(date: DateTime, mode: Observed, taken: Set<string>): DateTime | null {
+  if (mode === "weekday" && date.weekday === 6) return date.minus({ days: 1 });
+  if (mode === "sunday" ? date.weekday !== 7 : !isWeekend(date)) return null;
+  let next = date.plus({ days: 1 });
+  while ((mode !== "sunday" && isWeekend(next)) || taken.has(next.toFormat(DATE_FORMAT))) {
+    next = next.plus({ days: 1 });
+  }
+  return next;
+}
+
+const cache = new Map<string, Holiday[]>();
+
+/** A country's holidays in a year, sorted by date; names are merged when two share a day */
+export function holidaysInYear(countryCode: string, year: number): Holiday[] {
+  const key = `${countryCode}-${year}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const country = HOLIDAYS[countryCode];
+  const byDate = new Map<string, string[]>();
+  const add = (date: DateTime, name: string) => {
+    const iso = date.toFormat(DATE_FORMAT);
+    const names = byDate.get(iso);
+    if (!names) byDate.set(iso, [name]);
+    else if (!names.includes(name)) names.push(name);
+  };
+
+  const actual = (country?.rules ?? [])
+    .flatMap((rule) => ruleDates(rule, year).map((date) => ({ date, name: rule.name })))
+    .sort((a, b) => a.date.toMillis() - b.date.toMillis());
+  for (const { date, name } of actual) add(date, name);
+
+  if (country?.observed) {
+    const taken = new Set(byDate.keys());
+    for (const { date, name } of actual) {
+      const moved = observedDate(date, country.observed, taken);
+      if (!moved) continue;
+      taken.add(moved.toFormat(DATE_FORMAT));
+      add(moved, `${name} (observed)`);
+    }
+  }
+
+  const holidays = Array.from(byDate, ([date, names]) => ({ date, name: names.join(" · ") })).sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+  cache.set(key, holidays);
+  return holidays;
+}
+
+/** ISO code to look holidays up by — dropped pins and custom places go by their zone */
+export function holidayCountry(city: City): string | null {
+  return city.countryCode || countryForZone(city.tz);
+}
+
+export function hasHolidays(countryCode: string | null): boolean {
+  return countryCode !== null && countryCode in HOLIDAYS;
+}
+
+// A New Year's Day observed on the Friday before lands in the previous year's calendar
+function yearsAround(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 2 }, (_, i) => from + i);
+}
+
+/** The holiday on `local`'s calendar date, if any */
+export function holidayOn(countryCode: string | null, local: DateTime): Holiday | null {
+  if (!hasHolidays(countryCode)) return null;
+  const iso = local.toFormat(DATE_FORMAT);
+  for (const year of yearsAround(local.year, local.year)) {
+    const holiday = holidaysInYear(countryCode!, year).find((h) => h.date === iso);
+    if (holiday) return holiday;
+  }
+  return null;
+}
+
+/** Holidays from `from`'s local date through `to`'s, inclusive */
+export function holidaysBetween(countryCode: string | null, from: DateTime, to: DateTime): Holiday[] {
+  if (!hasHolidays(countryCode)) return [];
+  const start = from.toFormat(DATE_FORMAT);
+  const end = to.toFormat(DATE_FORMAT);
+  const holidays: Holiday[] = [];
+  for (const year of yearsAround(from.year, to.year)) {
+    holidays.push(...holidaysInYear(countryCode!, year).filter((h) => h.date >= start && h.date <= end));
+  }
+  return holidays;
+}
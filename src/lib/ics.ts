@@ -0,0 +1,212 @@
+import { DateTime, FixedOffsetZone } from "luxon";
+import type { City } from "@/data/cities";
+import { offsetTransitions, type OffsetTransition } from "./dst";
+
+// iCalendar (RFC 5545) export. Events are written in the home zone with a VTIMEZONE
+// generated from the same offset data the rest of the app uses, so calendar clients
+// that don't know the zone id still place the meeting correctly.
+
+const DAY = 24 * 3600000;
+const YEAR = 366 * DAY;
+// Scanned either side of the event. Two full years guarantee each observance kind at least
+// two transitions to compare, whichever side of a clock change the event falls
+const SCAN_MARGIN = 2 * YEAR;
+const CRLF = "\r\n";
+
+const WEEKDAY_CODES = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+export type Repeat = "none" | "daily" | "weekdays" | "weekly" | "biweekly" | "monthly";
+
+export const REPEAT_LABELS: Record<Repeat, string> = {
+  none: "Doesn't repeat",
+  daily: "Daily",
+  weekdays: "Every weekday",
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+};
+
+const REPEAT_RULES: Record<Exclude<Repeat, "none">, string> = {
+  daily: "FREQ=DAILY",
+  weekdays: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+  weekly: "FREQ=WEEKLY",
+  biweekly: "FREQ=WEEKLY;INTERVAL=2",
+  monthly: "FREQ=MONTHLY",
+};
+
+export type IcsEvent = {
+  title: string;
+  /** Epoch millis of the (first) start */
+  start: number;
+  durationMinutes: number;
+  homeTz: string;
+  homeLabel: string;
+  /** Cities listed in the description with their local times */
+  cities: City[];
+  repeat: Repeat;
+  /** Number of occurrences; undefined repeats forever */
+  count?: number;
+  /** Epoch millis the file is generated at, for DTSTAMP and the UID */
+  now: number;
+};
+
+// TEXT values escape backslash, semicolon, comma and newlines (RFC 5545 §3.3.11)
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are folded at 75 octets without splitting a multi-byte character (§3.1)
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+function formatLocal(dt: DateTime): string {
+  return dt.toFormat("yyyyMMdd'T'HHmmss");
+}
+
+function formatUtc(ms: number): string {
+  return DateTime.fromMillis(ms, { zone: "utc" }).toFormat("yyyyMMdd'T'HHmmss'Z'");
+}
+
+function formatIcsOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+}
+
+// The yearly rule a transition follows, e.g. "last Sunday of March at 02:00" → BYDAY=-1SU
+function yearlyRule(local: DateTime): string {
+  const nth = local.day + 7 > local.daysInMonth! ? -1 : Math.ceil(local.day / 7);
+  return `FREQ=YEARLY;BYMONTH=${local.month};BYDAY=${nth}${WEEKDAY_CODES[local.weekday - 1]}`;
+}
+
+type Observance = { kind: "STANDARD" | "DAYLIGHT"; transition: OffsetTransition; local: DateTime; name: string };
+
+function observanceLines(o: Observance, rrule: string | null): string[] {
+  return [
+    `BEGIN:${o.kind}`,
+    `DTSTART:${formatLocal(o.local)}`,
+    ...(rrule ? [`RRULE:${rrule}`] : []),
+    `TZOFFSETFROM:${formatIcsOffset(o.transition.fromOffset)}`,
+    `TZOFFSETTO:${formatIcsOffset(o.transition.toOffset)}`,
+    `TZNAME:${escapeText(o.name)}`,
+    `END:${o.kind}`,
+  ];
+}
+
+/**
+ * VTIMEZONE for `tz` around [from, to). Transitions that follow a steady yearly pattern
+ * collapse into one observance with an RRULE, so recurring events stay right beyond the
+ * scanned range; irregular ones are written out one by one.
+ */
+export function buildVTimezone(tz: string, from: number, to: number): string[] {
+  const transitions = offsetTransitions(tz, from - SCAN_MARGIN, to + SCAN_MARGIN);
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${tz}`];
+
+  if (transitions.length === 0) {
+    const now = DateTime.fromMillis(from).setZone(tz);
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${formatIcsOffset(now.offset)}`,
+      `TZOFFSETTO:${formatIcsOffset(now.offset)}`,
+      `TZNAME:${escapeText(now.offsetNameShort ?? tz)}`,
+      "END:STANDARD",
+      "END:VTIMEZONE"
+    );
+    return lines;
+  }
+
+  const observances: Observance[] = transitions.map((t) => {
+    const after = DateTime.fromMillis(t.at).setZone(tz);
+    return {
+      kind: after.isInDST ? "DAYLIGHT" : "STANDARD",
+      transition: t,
+      // DTSTART is the wall-clock time of the change in the offset being left
+      local: DateTime.fromMillis(t.at).setZone(FixedOffsetZone.instance(t.fromOffset)),
+      name: after.offsetNameShort ?? formatIcsOffset(t.toOffset),
+    };
+  });
+
+  for (const kind of ["STANDARD", "DAYLIGHT"] as const) {
+    const group = observances.filter((o) => o.kind === kind);
+    if (group.length === 0) continue;
+    const first = group[0];
+    const regular =
+      group.length > 1 &&
+      group.every(
+        (o) =>
+          yearlyRule(o.local) === yearlyRule(first.local) &&
+          o.local.toFormat("HHmmss") === first.local.toFormat("HHmmss") &&
+          o.transition.fromOffset === first.transition.fromOffset &&
+          o.transition.toOffset === first.transition.toOffset
+      );
+    if (regular) lines.push(...observanceLines(first, yearlyRule(first.local)));
+    else for (const o of group) lines.push(...observanceLines(o, null));
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+function describeTimes(event: IcsEvent): string {
+  const start = DateTime.fromMillis(event.start);
+  const end = start.plus({ minutes: event.durationMinutes });
+  const line = (label: string, tz: string) => {
+    const s = start.setZone(tz);
+    const e = end.setZone(tz);
+    const endFormat = e.hasSame(s, "day") ? "HH:mm" : "ccc d LLL HH:mm";
+    return `${label}: ${s.toFormat("ccc d LLL HH:mm")}–${e.toFormat(endFormat)} ${s.offsetNameShort}`;
+  };
+  return [
+    event.repeat === "none" ? "Local times:" : "Local times (first meeting):",
+    line(`${event.homeLabel} (home)`, event.homeTz),
+    ...event.cities.map((c) => line(c.person ? `${c.name} · ${c.person}` : c.name, c.tz)),
+  ].join("\n");
+}
+
+/** A complete VCALENDAR holding one event, with CRLF line endings */
+export function buildIcs(event: IcsEvent): string {
+  const start = DateTime.fromMillis(event.start).setZone(event.homeTz).startOf("minute");
+  const end = start.plus({ minutes: event.durationMinutes });
+  const rrule =
+    event.repeat === "none"
+      ? null
+      : `${REPEAT_RULES[event.repeat]}${event.count ? `;COUNT=${event.count}` : ""}`;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//WhenWhere//Timezone Explorer//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...buildVTimezone(event.homeTz, start.toMillis(), end.toMillis()),
+    "BEGIN:VEVENT",
+    `UID:${start.toMillis()}-${event.now.toString(36)}@whenwhere`,
+    `DTSTAMP:${formatUtc(event.now)}`,
+    `DTSTART;TZID=${event.homeTz}:${formatLocal(start)}`,
+    `DTEND;TZID=${event.homeTz}:${formatLocal(end)}`,
+    ...(rrule ? [`RRULE:${rrule}`] : []),
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(describeTimes(event))}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
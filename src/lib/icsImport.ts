@@ -0,0 +1,656 @@
+import { DateTime, Duration, FixedOffsetZone, IANAZone, Zone, type ZoneOffsetFormat } from "luxon";
+import { WINDOWS_ZONES } from "@/data/windowsZones";
+import { formatDiff } from "./utils";
+import { isWorkingTime, type Participant } from "./workingHours";
+
+// iCalendar (RFC 5545) import: enough of the format to read invites from the common
+// calendar apps — TZID, UTC and floating times, VTIMEZONE definitions for zones that
+// aren't IANA ids, DTEND or DURATION, and RRULE / EXDATE recurrence.
+
+const DAY = 24 * 3600000;
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const WEEKDAY_NAMES = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Recurrences are expanded this far past the import, and no further than this many times
+const HORIZON = 366 * DAY;
+const MAX_OCCURRENCES = 60;
+const MAX_PERIODS = 20000;
+
+export type ImportedOccurrence = { start: number; end: number };
+
+export type ImportedEvent = {
+  key: string;
+  summary: string;
+  location: string | null;
+  /** Zone the invite was written in, for wall-clock display */
+  zone: Zone;
+  zoneLabel: string;
+  allDay: boolean;
+  /** Occurrences ending after the import, or the last one if the event is over */
+  occurrences: ImportedOccurrence[];
+  isPast: boolean;
+  /** Plain-English recurrence, e.g. "Weekly on Tue, Thu · 10 times"; null for one-offs */
+  recurrence: string | null;
+  /** How the invite was interpreted where it wasn't straightforward */
+  notes: string[];
+};
+
+type Property = { name: string; params: Record<string, string>; value: string };
+type Component = { type: string; props: Property[]; children: Component[] };
+
+// ── Content lines ──
+
+function parseLine(line: string): Property | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq !== -1) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseComponents(text: string): Component {
+  const root: Component = { type: "ROOT", props: [], children: [] };
+  const stack = [root];
+  // Unfold continuation lines (CRLF or LF followed by a space or tab)
+  for (const line of text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/)) {
+    const prop = parseLine(line);
+    if (!prop) continue;
+    const current = stack[stack.length - 1];
+    if (prop.name === "BEGIN") {
+      const child: Component = { type: prop.value.toUpperCase(), props: [], children: [] };
+      current.children.push(child);
+      stack.push(child);
+    } else if (prop.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.props.push(prop);
+    }
+  }
+  return root;
+}
+
+function prop(component: Component, name: string): Property | undefined {
+  return component.props.find((p) => p.name === name);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+// ── Date-times ──
+
+type LocalTime = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+function parseLocal(value: string): (LocalTime & { utc: boolean; dateOnly: boolean }) | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!m) return null;
+  return {
+    year: +m[1],
+    month: +m[2],
+    day: +m[3],
+    hour: +(m[4] ?? 0),
+    minute: +(m[5] ?? 0),
+    second: +(m[6] ?? 0),
+    utc: m[7] === "Z",
+    dateOnly: m[4] === undefined,
+  };
+}
+
+function localToUtc(t: LocalTime, offsetMinutes: number): number {
+  return Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute, t.second) - offsetMinutes * 60000;
+}
+
+// ── VTIMEZONE definitions, for TZIDs that aren't IANA ids ──
+
+type Observance = {
+  start: LocalTime;
+  from: number;
+  to: number;
+  name: string;
+  rule: { month: number; nth: number; weekday: number; until: number | null } | null;
+  rdates: LocalTime[];
+};
+
+function parseIcsOffset(value: string | undefined): number | null {
+  const m = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value?.trim() ?? "");
+  if (!m) return null;
+  return (m[1] === "-" ? -1 : 1) * (+m[2] * 60 + +m[3]);
+}
+
+function parseRuleParts(value: string): Record<string, string> {
+  return Object.fromEntries(
+    value.split(";").map((part) => {
+      const [k, v = ""] = part.split("=");
+      return [k.toUpperCase(), v.toUpperCase()];
+    })
+  );
+}
+
+function parseByDay(value: string): { nth: number | null; weekday: number } | null {
+  const m = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(value.trim());
+  if (!m) return null;
+  return { nth: m[1] ? parseInt(m[1], 10) : null, weekday: WEEKDAYS.indexOf(m[2]) + 1 };
+}
+
+// Day of month of the nth (or nth-from-last, if negative) given weekday
+function nthWeekday(year: number, month: number, nth: number, weekday: number): number | null {
+  const first = DateTime.utc(year, month, 1);
+  const days = first.daysInMonth!;
+  const matching: number[] = [];
+  for (let d = 1; d <= days; d++) {
+    if (first.set({ day: d }).weekday === weekday) matching.push(d);
+  }
+  return (nth > 0 ? matching[nth - 1] : matching[matching.length + nth]) ?? null;
+}
+
+function parseObservance(c: Component): Observance | null {
+  const start = parseLocal(prop(c, "DTSTART")?.value ?? "");
+  const from = parseIcsOffset(prop(c, "TZOFFSETFROM")?.value);
+  const to = parseIcsOffset(prop(c, "TZOFFSETTO")?.value);
+  if (!start || from === null || to === null) return null;
+
+  let rule: Observance["rule"] = null;
+  const rrule = prop(c, "RRULE");
+  if (rrule) {
+    const parts = parseRuleParts(rrule.value);
+    const byDay = parseByDay(parts.BYDAY ?? "");
+    const month = parseInt(parts.BYMONTH ?? "", 10);
+    const until = parseLocal(parts.UNTIL ?? "");
+    // Older files write "Sunday on or after the 8th" as BYDAY=SU;BYMONTHDAY=8,9,…,14
+    const monthDays = (parts.BYMONTHDAY ?? "").split(",").map(Number).filter(Boolean);
+    if (byDay && month) {
+      const nth = byDay.nth ?? (monthDays.length ? Math.ceil(monthDays[0] / 7) : 1);
+      rule = { month, nth, weekday: byDay.weekday, until: until ? localToUtc(until, 0) : null };
+    }
+  }
+
+  const rdates = c.props
+    .filter((p) => p.name === "RDATE")
+    .flatMap((p) => p.value.split(","))
+    .map(parseLocal)
+    .filter((t): t is NonNullable<typeof t> => t !== null);
+
+  return { start, from, to, name: prop(c, "TZNAME")?.value ?? "", rule, rdates };
+}
+
+/** A luxon zone driven by the observances in an invite's VTIMEZONE block */
+class VTimezoneZone extends Zone<true> {
+  constructor(
+    private readonly tzid: string,
+    private readonly observances: Observance[]
+  ) {
+    super();
+  }
+
+  get type() {
+    return "vtimezone";
+  }
+
+  get name() {
+    return this.tzid;
+  }
+
+  get isUniversal() {
+    return false;
+  }
+
+  get isValid(): true {
+    return true;
+  }
+
+  // Every onset of an observance, as UTC millis, in the years around `year`
+  private onsets(o: Observance, year: number): number[] {
+    const times = [o.start, ...o.rdates].map((t) => localToUtc(t, o.from));
+    if (o.rule) {
+      for (let y = Math.max(o.start.year, year - 1); y <= year; y++) {
+        const day = nthWeekday(y, o.rule.month, o.rule.nth, o.rule.weekday);
+        if (day === null) continue;
+        const at = localToUtc({ ...o.start, year: y, month: o.rule.month, day }, o.from);
+        if (o.rule.until === null || at <= o.rule.until) times.push(at);
+      }
+    }
+    return times;
+  }
+
+  private observanceAt(ts: number): { observance: Observance; active: boolean } {
+    const year = new Date(ts).getUTCFullYear();
+    let best: { observance: Observance; at: number } | null = null;
+    for (const o of this.observances) {
+      for (const at of this.onsets(o, year)) {
+        if (at <= ts && (!best || at > best.at)) best = { observance: o, at };
+      }
+    }
+    if (best) return { observance: best.observance, active: true };
+    // Before the first onset the earliest observance's "from" offset applies
+    const earliest = [...this.observances].sort((a, b) => localToUtc(a.start, a.from) - localToUtc(b.start, b.from))[0];
+    return { observance: earliest, active: false };
+  }
+
+  offset(ts: number): number {
+    const { observance, active } = this.observanceAt(ts);
+    return active ? observance.to : observance.from;
+  }
+
+  offsetName(ts: number): string {
+    const { observance, active } = this.observanceAt(ts);
+    return (active && observance.name) || FixedOffsetZone.instance(this.offset(ts)).name;
+  }
+
+  formatOffset(ts: number, format: ZoneOffsetFormat): string {
+    return FixedOffsetZone.instance(this.offset(ts)).formatOffset(ts, format);
+  }
+
+  equals(other: Zone): boolean {
+    return other instanceof VTimezoneZone && other.name === this.name;
+  }
+}
+
+type ZoneContext = {
+  vtimezones: Map<string, Component>;
+  home: string;
+  cache: Map<string, { zone: Zone; note: string | null }>;
+};
+
+function resolveZone(tzid: string, ctx: ZoneContext): { zone: Zone; note: string | null } {
+  const cached = ctx.cache.get(tzid);
+  if (cached) return cached;
+
+  let result: { zone: Zone; note: string | null } | null = null;
+  if (IANAZone.isValidZone(tzid)) result = { zone: IANAZone.create(tzid), note: null };
+
+  // Prefixed ids such as "/mozilla.org/20050126_1/Europe/Berlin"
+  const parts = tzid.split("/");
+  for (let i = 1; !result && i < parts.length - 1; i++) {
+    const candidate = parts.slice(i).join("/");
+    if (IANAZone.isValidZone(candidate)) result = { zone: IANAZone.create(candidate), note: null };
+  }
+
+  const windows = WINDOWS_ZONES[tzid];
+  if (!result && windows) result = { zone: IANAZone.create(windows), note: `Read “${tzid}” as ${windows}` };
+
+  const definition = ctx.vtimezones.get(tzid);
+  const observances = definition?.children
+    .filter((c) => c.type === "STANDARD" || c.type === "DAYLIGHT")
+    .map(parseObservance)
+    .filter((o): o is Observance => o !== null);
+  if (!result && observances?.length) {
+    result = { zone: new VTimezoneZone(tzid, observances), note: `Used the invite's own rules for “${tzid}”` };
+  }
+
+  result ??= { zone: IANAZone.create(ctx.home), note: `Unknown timezone “${tzid}” — read as home time` };
+  ctx.cache.set(tzid, result);
+  return result;
+}
+
+type ParsedTime = { time: DateTime; allDay: boolean; floating: boolean; note: string | null };
+
+function parseTime(p: Property | undefined, ctx: ZoneContext): ParsedTime | null {
+  if (!p) return null;
+  const local = parseLocal(p.value);
+  if (!local) return null;
+  const { year, month, day, hour, minute, second } = local;
+  const fields = { year, month, day, hour, minute, second };
+
+  if (local.dateOnly || p.params.VALUE === "DATE") {
+    return { time: DateTime.fromObject(fields, { zone: ctx.home }), allDay: true, floating: true, note: null };
+  }
+  if (local.utc) return { time: DateTime.fromObject(fields, { zone: "utc" }), allDay: false, floating: false, note: null };
+  if (p.params.TZID) {
+    const { zone, note } = resolveZone(p.params.TZID, ctx);
+    return { time: DateTime.fromObject(fields, { zone }), allDay: false, floating: false, note };
+  }
+  return { time: DateTime.fromObject(fields, { zone: ctx.home }), allDay: false, floating: true, note: null };
+}
+
+// ── Recurrence ──
+
+type Rule = {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count: number | null;
+  until: number | null;
+  byDay: { nth: number | null; weekday: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+  unsupported: boolean;
+};
+
+const SUPPORTED_PARTS = new Set(["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "BYMONTHDAY", "BYMONTH", "WKST"]);
+
+function parseRule(value: string, zone: Zone): Rule | null {
+  const parts = parseRuleParts(value);
+  const freq = parts.FREQ;
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") return null;
+  const until = parseLocal(parts.UNTIL ?? "");
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL ?? "1", 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) || null : null,
+    until: until
+      ? until.utc || until.dateOnly
+        ? localToUtc({ ...until, ...(until.dateOnly ? { hour: 23, minute: 59, second: 59 } : {}) }, 0)
+        : DateTime.fromObject(until, { zone }).toMillis()
+      : null,
+    byDay: (parts.BYDAY ?? "").split(",").map(parseByDay).filter((d): d is NonNullable<typeof d> => d !== null),
+    byMonthDay: (parts.BYMONTHDAY ?? "").split(",").map(Number).filter(Boolean),
+    byMonth: (parts.BYMONTH ?? "").split(",").map(Number).filter(Boolean),
+    unsupported: Object.keys(parts).some((k) => !SUPPORTED_PARTS.has(k)),
+  };
+}
+
+// Candidate days in one month for MONTHLY / YEARLY rules
+function daysInMonthFor(rule: Rule, year: number, month: number, defaultDay: number): number[] {
+  const length = DateTime.utc(year, month, 1).daysInMonth!;
+  if (rule.byDay.length) {
+    return rule.byDay.flatMap(({ nth, weekday }) => {
+      if (nth !== null) {
+        const day = nthWeekday(year, month, nth, weekday);
+        return day === null ? [] : [day];
+      }
+      return Array.from({ length }, (_, i) => i + 1).filter(
+        (d) => DateTime.utc(year, month, d).weekday === weekday
+      );
+    });
+  }
+  if (rule.byMonthDay.length) {
+    return rule.byMonthDay.map((d) => (d < 0 ? length + 1 + d : d)).filter((d) => d >= 1 && d <= length);
+  }
+  return defaultDay <= length ? [defaultDay] : [];
+}
+
+// Starts of the occurrences in one period of the rule, in wall-clock time of the event's zone
+function periodStarts(rule: Rule, start: DateTime, k: number): DateTime[] {
+  const at = (d: DateTime) =>
+    DateTime.fromObject(
+      { year: d.year, month: d.month, day: d.day, hour: start.hour, minute: start.minute, second: start.second },
+      { zone: start.zone }
+    );
+  const step = k * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = start.plus({ days: step });
+      const weekdays = rule.byDay.map((d) => d.weekday);
+      if (weekdays.length && !weekdays.includes(day.weekday)) return [];
+      if (rule.byMonth.length && !rule.byMonth.includes(day.month)) return [];
+      return [at(day)];
+    }
+    case "WEEKLY": {
+      const weekStart = start.startOf("week").plus({ weeks: step });
+      const weekdays = rule.byDay.length ? rule.byDay.map((d) => d.weekday) : [start.weekday];
+      return [...new Set(weekdays)].sort((a, b) => a - b).map((wd) => at(weekStart.plus({ days: wd - 1 })));
+    }
+    case "MONTHLY": {
+      const month = start.startOf("month").plus({ months: step });
+      return daysInMonthFor(rule, month.year, month.month, start.day)
+        .sort((a, b) => a - b)
+        .map((day) => at(month.set({ day })));
+    }
+    case "YEARLY": {
+      const year = start.year + step;
+      const months = rule.byMonth.length ? rule.byMonth : [start.month];
+      return months.flatMap((month) =>
+        daysInMonthFor(rule, year, month, start.day)
+          .sort((a, b) => a - b)
+          .map((day) => at(DateTime.fromObject({ year, month, day }, { zone: start.zone })))
+      );
+    }
+  }
+}
+
+// The period holding `at`, less one so an occurrence that began just before it is kept
+function periodBefore(rule: Rule, start: DateTime, at: number): number {
+  const target = DateTime.fromMillis(at, { zone: start.zone });
+  let periods: number;
+  switch (rule.freq) {
+    case "DAILY":
+      periods = target.diff(start, "days").days;
+      break;
+    case "WEEKLY":
+      periods = target.diff(start.startOf("week"), "weeks").weeks;
+      break;
+    case "MONTHLY":
+      periods = target.diff(start.startOf("month"), "months").months;
+      break;
+    case "YEARLY":
+      periods = target.year - start.year;
+      break;
+  }
+  return Math.max(0, Math.floor(periods / rule.interval) - 1);
+}
+
+/**
+ * Occurrences from around `skipTo` up to `stopAt`. Without a COUNT the walk starts at the
+ * period just before `skipTo` (or UNTIL, if that's earlier), so a series running since
+ * 1970 doesn't spend MAX_PERIODS getting to today; COUNT needs every earlier occurrence.
+ */
+function expandRule(rule: Rule, start: DateTime, exdates: Set<number>, skipTo: number, stopAt: number): DateTime[] {
+  const result: DateTime[] = [];
+  let counted = 0;
+  const first = rule.count === null ? periodBefore(rule, start, Math.min(skipTo, rule.until ?? Infinity)) : 0;
+  for (let k = first; k < first + MAX_PERIODS; k++) {
+    for (const occurrence of periodStarts(rule, start, k)) {
+      const ms = occurrence.toMillis();
+      if (ms < start.toMillis()) continue;
+      if (ms > stopAt || (rule.until !== null && ms > rule.until)) return result;
+      // COUNT includes excluded dates (RFC 5545 §3.8.5.1)
+      if (rule.count !== null && ++counted > rule.count) return result;
+      if (!exdates.has(ms)) result.push(occurrence);
+    }
+  }
+  return result;
+}
+
+function describeRule(rule: Rule): string {
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" }[rule.freq];
+  const base =
+    rule.interval === 1
+      ? { DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly", YEARLY: "Yearly" }[rule.freq]
+      : `Every ${rule.interval} ${unit}s`;
+  const days = rule.byDay
+    .map(({ nth, weekday }) => `${nth === null ? "" : nth === -1 ? "last " : `${nth}${["st", "nd", "rd"][nth - 1] ?? "th"} `}${WEEKDAY_NAMES[weekday - 1]}`)
+    .join(", ");
+  const end =
+    rule.count !== null
+      ? ` · ${rule.count} times`
+      : rule.until !== null
+        ? ` · until ${DateTime.fromMillis(rule.until).toFormat("d LLL yyyy")}`
+        : "";
+  return `${base}${days ? ` on ${days}` : ""}${end}`;
+}
+
+// ── Events ──
+
+function parseEvent(c: Component, ctx: ZoneContext, from: number, exdates: Set<number>): ImportedEvent | null {
+  const startProp = prop(c, "DTSTART");
+  const start = parseTime(startProp, ctx);
+  if (!start || !start.time.isValid) return null;
+
+  const notes: string[] = [];
+  if (start.note) notes.push(start.note);
+  if (start.floating && !start.allDay) notes.push("The invite has no timezone — read as home time");
+
+  // DTEND, else DURATION, else the RFC defaults: zero length, or one day for dates
+  const endTime = parseTime(prop(c, "DTEND"), ctx)?.time;
+  const duration = prop(c, "DURATION") ? Duration.fromISO(prop(c, "DURATION")!.value) : null;
+  const length = endTime?.isValid
+    ? endTime.toMillis() - start.time.toMillis()
+    : duration?.isValid
+      ? start.time.plus(duration).toMillis() - start.time.toMillis()
+      : start.allDay
+        ? DAY
+        : 0;
+
+  for (const p of c.props.filter((p) => p.name === "EXDATE")) {
+    for (const value of p.value.split(",")) {
+      const ex = parseTime({ ...p, value }, ctx);
+      if (ex) exdates.add(ex.time.toMillis());
+    }
+  }
+
+  const rruleProp = prop(c, "RRULE");
+  const rule = rruleProp ? parseRule(rruleProp.value, start.time.zone) : null;
+  if (rruleProp && !rule) notes.push("Couldn't read the repeat rule — showing the first meeting only");
+  if (rule?.unsupported) notes.push("Parts of the repeat rule aren't supported — dates may be approximate");
+
+  const starts = rule ? expandRule(rule, start.time, exdates, from - length, from + HORIZON) : [start.time];
+  const all = starts.map((s) => ({ start: s.toMillis(), end: s.toMillis() + length }));
+  const upcoming = all.filter((o) => o.end > from && o.start < from + HORIZON).slice(0, MAX_OCCURRENCES);
+  const isPast = upcoming.length === 0;
+
+  const tzid = startProp?.params.TZID;
+  return {
+    key: `${prop(c, "UID")?.value ?? ""}|${start.time.toMillis()}`,
+    summary: unescapeText(prop(c, "SUMMARY")?.value ?? "") || "Untitled event",
+    location: prop(c, "LOCATION") ? unescapeText(prop(c, "LOCATION")!.value) : null,
+    zone: start.time.zone,
+    zoneLabel: start.allDay
+      ? "all day"
+      : start.floating
+        ? "no timezone"
+        : tzid
+          ? tzid.endsWith(start.time.zone.name) || start.time.zone instanceof VTimezoneZone
+            ? start.time.zone.name
+            : `${tzid} (${start.time.zone.name})`
+          : "UTC",
+    allDay: start.allDay,
+    occurrences: isPast ? all.slice(-1) : upcoming,
+    isPast,
+    recurrence: rule ? describeRule(rule) : null,
+    notes,
+  };
+}
+
+/**
+ * Reads every VEVENT in an .ics file. `from` is the moment occurrences are listed from;
+ * floating times and unknown zones are read in `homeTz`.
+ */
+export function parseIcs(
+  text: string,
+  homeTz: string,
+  from: number
+): { events: ImportedEvent[]; skipped: string[] } | { error: string } {
+  const root = parseComponents(text);
+  const calendars = root.children.filter((c) => c.type === "VCALENDAR");
+  if (calendars.length === 0) return { error: "That file isn't an iCalendar (.ics) file" };
+
+  const events: ImportedEvent[] = [];
+  // Series whose rule yields nothing — UNTIL before DTSTART, or every date excluded
+  const skipped: string[] = [];
+  for (const calendar of calendars) {
+    const ctx: ZoneContext = {
+      vtimezones: new Map(
+        calendar.children
+          .filter((c) => c.type === "VTIMEZONE")
+          .map((c) => [prop(c, "TZID")?.value ?? "", c] as const)
+      ),
+      home: homeTz,
+      cache: new Map(),
+    };
+    const vevents = calendar.children.filter((c) => c.type === "VEVENT");
+
+    // Moved or edited single occurrences (RECURRENCE-ID) replace that date in the series
+    const overridden = new Map<string, Set<number>>();
+    for (const c of vevents) {
+      const uid = prop(c, "UID")?.value ?? "";
+      const recurrenceId = parseTime(prop(c, "RECURRENCE-ID"), ctx);
+      if (recurrenceId) overridden.set(uid, (overridden.get(uid) ?? new Set()).add(recurrenceId.time.toMillis()));
+    }
+
+    for (const c of vevents) {
+      const uid = prop(c, "UID")?.value ?? "";
+      const exdates = prop(c, "RECURRENCE-ID") ? new Set<number>() : new Set(overridden.get(uid));
+      const event = parseEvent(c, ctx, from, exdates);
+      if (event && event.occurrences.length === 0) skipped.push(event.summary);
+      else if (event) events.push(event);
+    }
+  }
+
+  if (events.length === 0 && skipped.length > 0) {
+    return { error: "None of its events ever happen — each repeat rule ends before it starts or excludes every date" };
+  }
+  if (events.length === 0) return { error: "No events with a start time in that file" };
+  const firstStart = (e: ImportedEvent) => e.occurrences[0]?.start ?? Infinity;
+  return { events: events.sort((a, b) => firstStart(a) - firstStart(b)), skipped };
+}
+
+// ── Flags ──
+
+export type EventFlags = {
+  /** Labels of participants for whom some listed occurrence is outside working hours */
+  outsideHours: string[];
+  /** Clock changes that move the meeting for someone, in plain English */
+  dstNotes: string[];
+};
+
+const SAMPLE_STEP = 15 * 60000;
+
+function isInsideHours(p: Participant, o: ImportedOccurrence): boolean {
+  const last = Math.max(o.start, o.end - 60000);
+  for (let t = o.start; t <= last; t += SAMPLE_STEP) {
+    if (!isWorkingTime(DateTime.fromMillis(t).setZone(p.tz), p.profile)) return false;
+  }
+  return isWorkingTime(DateTime.fromMillis(last).setZone(p.tz), p.profile);
+}
+
+/**
+ * Flags an imported event against everyone on screen. `participants` starts with home,
+ * as in the explorer; `now` anchors "today" for the change-since-today check.
+ */
+export function flagEvent(event: ImportedEvent, participants: Participant[], now: number): EventFlags {
+  const first = event.occurrences[0];
+  if (event.allDay || !first) return { outsideHours: [], dstNotes: [] };
+  const [home, ...others] = participants;
+  const offsetAt = (tz: string, ms: number) => DateTime.fromMillis(ms).setZone(tz).offset;
+  const day = (ms: number) => DateTime.fromMillis(ms).setZone(home?.tz ?? "utc").toFormat("d LLL");
+
+  const outsideHours = participants
+    .filter((p) => event.occurrences.some((o) => !isInsideHours(p, o)))
+    .map((p) => p.label);
+
+  const dstNotes: string[] = [];
+
+  // A clock change during a meeting
+  for (const o of event.occurrences) {
+    const changed = participants.find((p) => offsetAt(p.tz, o.start) !== offsetAt(p.tz, o.end - 1));
+    if (changed) {
+      dstNotes.push(`Clocks change in ${changed.label} during the meeting on ${day(o.start)}`);
+      break;
+    }
+  }
+
+  // A recurring meeting that moves on someone's clock partway through the series
+  for (const p of participants) {
+    const times = event.occurrences.map((o) => DateTime.fromMillis(o.start).setZone(p.tz).toFormat("HH:mm"));
+    const shift = times.findIndex((t) => t !== times[0]);
+    if (shift > 0) {
+      dstNotes.push(`${p.label}: ${times[0]} until ${day(event.occurrences[shift - 1].start)}, then ${times[shift]}`);
+    }
+  }
+
+  // Clocks change between today and the meeting, so today's gap to home won't hold
+  if (home && first.start > now) {
+    for (const p of others) {
+      const today = offsetAt(p.tz, now) - offsetAt(home.tz, now);
+      const then = offsetAt(p.tz, first.start) - offsetAt(home.tz, first.start);
+      if (today !== then) {
+        dstNotes.push(`${p.label} vs home is ${formatDiff(today)} today but ${formatDiff(then)} on ${day(first.start)}`);
+      }
+    }
+  }
+
+  return { outsideHours, dstNotes };
+}
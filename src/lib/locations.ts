@@ -0,0 +1,42 @@
+import tzlookup from "tz-lookup";
+import type { City } from "@/data/cities";
+
+// Ad-hoc locations (clicked on the map) are plain City objects with ids under this prefix
+// and no country, so they stay out of country grouping and country-keyed lookups
+const ID_PREFIX = "loc:";
+
+export function isLocation(city: City): boolean {
+  return city.id.startsWith(ID_PREFIX);
+}
+
+export function formatCoords(lat: number, lon: number): string {
+  const ns = lat >= 0 ? "N" : "S";
+  const ew = lon >= 0 ? "E" : "W";
+  return `${Math.abs(lat).toFixed(2)}°${ns} ${Math.abs(lon).toFixed(2)}°${ew}`;
+}
+
+/** Resolve the IANA zone for a point and wrap it as a City. Returns null for invalid coordinates. */
+export function resolveLocation(lat: number, lon: number, name?: string): City | null {
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  try {
+    const tz = tzlookup(lat, lon);
+    return {
+      id: `${ID_PREFIX}${lat.toFixed(4)},${lon.toFixed(4)}`,
+      name: name?.trim() || formatCoords(lat, lon),
+      country: "",
+      countryCode: "",
+      lat,
+      lon,
+      tz,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Links from before share format v2: "lat,lon,name" — name last so it may contain commas
+export function decodeLegacyLocation(value: string): City | null {
+  const [lat, lon, ...rest] = value.split(",");
+  return resolveLocation(parseFloat(lat), parseFloat(lon), rest.join(","));
+}
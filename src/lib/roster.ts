@@ -0,0 +1,133 @@
+import { DateTime, IANAZone } from "luxon";
+import type { City } from "@/data/cities";
+import { fallbackCoords } from "./customLocations";
+import { isStoredCity } from "./savedState";
+import {
+  classifyTime,
+  isWorkingTime,
+  profileForCity,
+  profileForZone,
+  type WorkHours,
+  type WorkProfile,
+} from "./workingHours";
+
+/** A teammate on the roster, stored in localStorage */
+export type Teammate = {
+  id: string;
+  name: string;
+  /** The city they're in, or null when only their timezone is known */
+  city: City | null;
+  tz: string;
+  hours: WorkHours;
+  /** Weekdays they don't work (1 = Mon … 7 = Sun); null means their country's weekend */
+  daysOff: number[] | null;
+};
+
+export const ROSTER_STORAGE_KEY = "tz-roster";
+
+export type TeamStatus = "working" | "starting" | "finishing" | "off" | "asleep";
+
+export const TEAM_STATUS_LABELS: Record<TeamStatus, string> = {
+  working: "Working",
+  starting: "Starting soon",
+  finishing: "Finishing soon",
+  off: "Off",
+  asleep: "Asleep",
+};
+
+// How far ahead "about to start or finish" looks
+const SOON_MINUTES = 60;
+
+export type TeammateState = {
+  teammate: Teammate;
+  local: DateTime;
+  status: TeamStatus;
+  /** Epoch millis their working day starts or ends, for "starting" and "finishing" */
+  changeAt: number | null;
+  /** Today is one of their days off */
+  dayOff: boolean;
+};
+
+export function createTeammateId(): string {
+  return `tm-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Up to two letters for an avatar: "Ana Lima" → "AL", "Kenji" → "KE" */
+export function initials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "?";
+  const letters =
+    words.length === 1
+      ? Array.from(words[0]).slice(0, 2)
+      : [words[0], words[words.length - 1]].map((w) => Array.from(w)[0]);
+  return letters.join("").toUpperCase();
+}
+
+/** Why a teammate can't be saved, or null if they're fine */
+export function validateTeammate(t: Omit<Teammate, "id">): string | null {
+  if (!t.name.trim()) return "Give them a name";
+  if (!IANAZone.isValidZone(t.tz)) return `“${t.tz}” isn't a known city or IANA timezone`;
+  const { start, end } = t.hours;
+  if (!(Number.isInteger(start) && Number.isInteger(end) && start >= 0 && end <= 24 && start < end)) {
+    return "Working hours must start before they end, between 0 and 24";
+  }
+  if (t.daysOff && !t.daysOff.every((d) => Number.isInteger(d) && d >= 1 && d <= 7)) {
+    return "Days off must be weekdays";
+  }
+  return null;
+}
+
+// Drop anything malformed from storage rather than failing the whole roster
+export function parseRoster(raw: unknown): Teammate[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (item): item is Teammate =>
+      typeof item?.id === "string" &&
+      typeof item.name === "string" &&
+      typeof item.tz === "string" &&
+      typeof item.hours?.start === "number" &&
+      typeof item.hours?.end === "number" &&
+      (item.city === null || isStoredCity(item.city)) &&
+      (item.daysOff === null || Array.isArray(item.daysOff)) &&
+      validateTeammate(item) === null
+  );
+}
+
+export function teammateProfile(t: Teammate): WorkProfile {
+  const profile = t.city ? profileForCity(t.city, t.hours) : profileForZone(t.tz, t.hours);
+  return t.daysOff ? { ...profile, weekend: t.daysOff } : profile;
+}
+
+/** Where their avatar goes on the map — zone-only teammates borrow a city in their zone */
+export function teammateCoords(t: Teammate): { lat: number; lon: number } {
+  return t.city ? { lat: t.city.lat, lon: t.city.lon } : fallbackCoords(t.tz);
+}
+
+/** "Lisbon" for a city, the last part of the zone otherwise */
+export function teammatePlace(t: Teammate): string {
+  return t.city?.name ?? t.tz.split("/").pop()?.replace(/_/g, " ") ?? t.tz;
+}
+
+function teammateState(teammate: Teammate, instant: number): TeammateState {
+  const profile = teammateProfile(teammate);
+  const local = DateTime.fromMillis(instant).setZone(teammate.tz);
+  const soon = local.plus({ minutes: SOON_MINUTES });
+  const dayOff = profile.weekend.includes(local.weekday);
+  const at = (day: DateTime, hour: number) => day.startOf("day").plus({ hours: hour }).toMillis();
+
+  if (isWorkingTime(local, profile)) {
+    return isWorkingTime(soon, profile)
+      ? { teammate, local, status: "working", changeAt: null, dayOff }
+      : { teammate, local, status: "finishing", changeAt: at(local, profile.end), dayOff };
+  }
+  if (isWorkingTime(soon, profile)) {
+    return { teammate, local, status: "starting", changeAt: at(soon, profile.start), dayOff };
+  }
+  const status = classifyTime(local, profile) === "sleep" ? "asleep" : "off";
+  return { teammate, local, status, changeAt: null, dayOff };
+}
+
+/** Every teammate's status at `instant`, in roster order */
+export function rosterStates(roster: Teammate[], instant: number): TeammateState[] {
+  return roster.map((t) => teammateState(t, instant));
+}
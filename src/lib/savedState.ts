@@ -0,0 +1,59 @@
+import { IANAZone } from "luxon";
+import type { City } from "@/data/cities";
+
+/*
+ * What the explorer restores on load, and from where. For pins and home timezone the
+ * first source that has them wins:
+ *
+ *   1. Share-link params (compare / loc / place / home)
+ *   2. The active workspace
+ *   3. The last comparison, saved as it changes
+ *   4. Defaults — nothing pinned, the browser's timezone as home
+ *
+ * The explorer keeps its state in the URL, so a link that is exactly what this browser
+ * last wrote — the active workspace's own URL or the last comparison's, as after a
+ * reload — isn't treated as a shared link and restores from 2 and 3 as usual.
+ *
+ * Hidden map cities come from the link's `hide` param, then the active workspace, then
+ * the saved map settings. Extra map cities are always the saved ones.
+ */
+
+export const MAP_STORAGE_KEY = "tz-map";
+export const LAST_COMPARISON_STORAGE_KEY = "tz-last-comparison";
+
+/** Map customisation: featured cities taken off the map and other cities kept on it */
+export type MapPrefs = { hidden: string[]; extra: City[] };
+
+export type LastComparison = { pinnedCities: City[]; homeTz: string };
+
+// Cities are stored as full records, so world-dataset cities, dropped pins and custom
+// places restore without waiting for the catalogue to load
+export function isStoredCity(value: unknown): value is City {
+  const c = value as City | null;
+  return (
+    typeof c?.id === "string" &&
+    typeof c.name === "string" &&
+    typeof c.country === "string" &&
+    typeof c.lat === "number" &&
+    typeof c.lon === "number" &&
+    typeof c.tz === "string" &&
+    IANAZone.isValidZone(c.tz)
+  );
+}
+
+export function parseMapPrefs(raw: unknown): MapPrefs {
+  const prefs = raw as Partial<MapPrefs> | null;
+  return {
+    hidden: Array.isArray(prefs?.hidden) ? prefs.hidden.filter((id) => typeof id === "string") : [],
+    extra: Array.isArray(prefs?.extra) ? prefs.extra.filter(isStoredCity) : [],
+  };
+}
+
+export function parseLastComparison(raw: unknown): LastComparison | null {
+  const last = raw as Partial<LastComparison> | null;
+  if (typeof last?.homeTz !== "string" || !IANAZone.isValidZone(last.homeTz)) return null;
+  return {
+    pinnedCities: Array.isArray(last.pinnedCities) ? last.pinnedCities.filter(isStoredCity) : [],
+    homeTz: last.homeTz,
+  };
+}
@@ -0,0 +1,145 @@
+import type { City } from "@/data/cities";
+
+export type SearchResult = {
+  city: City;
+  score: number;
+  /** True when the match came from the country name rather than the city itself */
+  byCountry: boolean;
+};
+
+type IndexEntry = {
+  city: City;
+  name: string;
+  /** Name split into words, for matching "paulo" against "sao paulo" */
+  words: string[];
+  aliases: string[];
+  codes: string[];
+  country: string;
+  population: number;
+};
+
+// Letters that NFD doesn't decompose into base + combining mark
+const SPECIAL_FOLDS: Record<string, string> = {
+  "ø": "o", "æ": "ae", "œ": "oe", "ß": "ss", "ł": "l", "đ": "d", "ð": "d", "þ": "th", "ı": "i",
+};
+
+/** Lowercase, strip accents and punctuation: "São Paulo" → "sao paulo", "N'Djamena" → "ndjamena" */
+export function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[øæœßłđðþı]/g, (ch) => SPECIAL_FOLDS[ch])
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// One index per catalogue — the curated list first, then the merged world list once loaded
+const indexes = new WeakMap<City[], IndexEntry[]>();
+
+function getIndex(cities: City[]): IndexEntry[] {
+  const cached = indexes.get(cities);
+  if (cached) return cached;
+  const index = cities.map((city) => {
+    const name = foldText(city.name);
+    return {
+      city,
+      name,
+      words: name.split(" "),
+      aliases: (city.altNames ?? []).map(foldText),
+      codes: (city.iata ?? []).map((c) => c.toLowerCase()),
+      country: foldText(city.country),
+      population: city.population ?? 0,
+    };
+  });
+  indexes.set(cities, index);
+  return index;
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions), giving up
+// as soon as it must exceed `max` — most of the catalogue is rejected within a row or two
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const cols = b.length + 1;
+  let prev2 = new Array<number>(cols).fill(0);
+  let prev = Array.from({ length: cols }, (_, j) => j);
+  let row = new Array<number>(cols).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    row[0] = i;
+    let rowMin = i;
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], prev2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    [prev2, prev, row] = [prev, row, prev2];
+  }
+  return prev[b.length];
+}
+
+// Typos allowed for a query of this length — none for short queries, which are too ambiguous
+function maxEdits(length: number): number {
+  if (length < 4) return 0;
+  if (length < 7) return 1;
+  return 2;
+}
+
+// Score one candidate string. With `fuzzy`, the whole text and its prefix of the query's
+// length are both compared so typos are forgiven while the user is still typing.
+function scoreText(
+  q: string,
+  text: string,
+  exact: number,
+  prefix: number,
+  contains: number,
+  fuzzy = true
+): number {
+  if (text === q) return exact;
+  if (text.startsWith(q)) return prefix;
+  if (text.includes(q)) return contains;
+  const allowed = fuzzy ? maxEdits(q.length) : 0;
+  if (allowed === 0) return 0;
+  const dist = Math.min(editDistance(q, text, allowed), editDistance(q, text.slice(0, q.length), allowed));
+  return dist <= allowed ? contains - 10 - dist * 10 : 0;
+}
+
+function scoreEntry(q: string, entry: IndexEntry): { score: number; byCountry: boolean } {
+  let score = 0;
+  if (entry.codes.includes(q)) score = 100;
+  score = Math.max(score, scoreText(q, entry.name, 100, 80, 60));
+  for (const word of entry.words) {
+    if (word !== entry.name && word.startsWith(q)) score = Math.max(score, 70);
+  }
+  for (const alias of entry.aliases) {
+    score = Math.max(score, scoreText(q, alias, 95, 75, 55));
+  }
+  if (score > 0) return { score, byCountry: false };
+
+  // Country names are short and many look alike, so they never match fuzzily
+  const countryScore = scoreText(q, entry.country, 50, 45, 35, false);
+  return { score: countryScore, byCountry: countryScore > 0 };
+}
+
+/**
+ * Rank `cities` against a free-text query. Matches on accent-folded names, alternate
+ * names, IATA airport codes and country names, tolerating small typos. Ties are
+ * broken by population so the city people usually mean comes first.
+ */
+export function searchCities(query: string, cities: City[], limit = 12): SearchResult[] {
+  const q = foldText(query);
+  if (!q) return [];
+  const results: (SearchResult & { population: number })[] = [];
+  for (const entry of getIndex(cities)) {
+    const { score, byCountry } = scoreEntry(q, entry);
+    if (score > 0) results.push({ city: entry.city, score, byCountry, population: entry.population });
+  }
+  return results
+    .sort((a, b) => b.score - a.score || b.population - a.population)
+    .slice(0, limit)
+    .map(({ city, score, byCountry }) => ({ city, score, byCountry }));
+}
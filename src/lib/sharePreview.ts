@@ -0,0 +1,102 @@
+import { DateTime } from "luxon";
+import { CITIES, type City } from "@/data/cities";
+import { loadWorldCities } from "@/data/worldCities";
+import { formatDiff } from "./utils";
+import { formatCoords } from "./locations";
+import { decodeShareState, resolveSharePins } from "./shareState";
+
+/** One pinned city as a link preview shows it */
+export type PreviewRow = {
+  name: string;
+  country: string;
+  time: string;
+  day: string;
+  diffMinutes: number;
+  /** "+9h", or "= home" */
+  diff: string;
+};
+
+export type SharePreview = {
+  rows: PreviewRow[];
+  homeLabel: string;
+  homeTime: string;
+  homeDay: string;
+  /** False when the link previews a fixed `at` rather than the time it was opened */
+  live: boolean;
+};
+
+// A link without a home is read against UTC; there's no browser to ask on the server
+const SERVER_HOME_TZ = "UTC";
+
+// Separators and markers the share format reads before decoding, so they must stay literal
+const LITERAL = { "%2C": ",", "%40": "@", "%2F": "/", "%3A": ":" } as Record<string, string>;
+
+/**
+ * Turns Next's already-decoded searchParams back into a query string the share decoder
+ * reads. A comma or tilde inside a pin's name was decoded before it got here and can't
+ * be told apart from a separator, so such names may split.
+ */
+export function searchFromParams(params: Record<string, string | string[] | undefined>): string {
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    for (const v of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      parts.push(`${encodeURIComponent(key)}=${encodeURIComponent(v).replace(/%2C|%40|%2F|%3A/g, (m) => LITERAL[m])}`);
+    }
+  }
+  return parts.length ? `?${parts.join("&")}` : "";
+}
+
+async function resolvePins(search: string): Promise<{ cities: City[]; homeTz: string; at: number | null }> {
+  const share = decodeShareState(search, SERVER_HOME_TZ);
+  let catalogue = CITIES;
+  // Ids from the world dataset need it loaded; the server can just wait for it
+  if (resolveSharePins(share.pins, CITIES).missing.length > 0) {
+    catalogue = await loadWorldCities().catch(() => CITIES);
+  }
+  const { cities } = resolveSharePins(share.pins, catalogue);
+  return { cities, homeTz: share.homeTz ?? SERVER_HOME_TZ, at: share.at };
+}
+
+/** What a share link shows at `now` (or at its own `at`), for previews; null if it pins nothing */
+export async function describeShare(search: string, now: number): Promise<SharePreview | null> {
+  const { cities, homeTz, at } = await resolvePins(search);
+  if (cities.length === 0) return null;
+
+  const instant = at ?? now;
+  const home = DateTime.fromMillis(instant).setZone(homeTz);
+  return {
+    rows: cities.map((city) => {
+      const local = DateTime.fromMillis(instant).setZone(city.tz);
+      const diffMinutes = local.offset - home.offset;
+      return {
+        name: city.name,
+        // Dropped pins have no country; their coordinates say where they are
+        country: city.country || formatCoords(city.lat, city.lon),
+        time: local.toFormat("HH:mm"),
+        day: local.toFormat("ccc d LLL"),
+        diffMinutes,
+        diff: diffMinutes === 0 ? "= home" : formatDiff(diffMinutes),
+      };
+    }),
+    homeLabel: homeTz.split("/").pop()?.replace(/_/g, " ") ?? homeTz,
+    homeTime: home.toFormat("HH:mm"),
+    homeDay: home.toFormat("ccc d LLL"),
+    live: at === null,
+  };
+}
+
+/** "Tokyo, London and 3 more" */
+export function previewTitle(preview: SharePreview): string {
+  const names = preview.rows.slice(0, 3).map((r) => r.name);
+  const more = preview.rows.length - names.length;
+  return more > 0 ? `${names.join(", ")} and ${more} more` : names.join(", ");
+}
+
+/** "Tokyo 04:00 (+13h) · London 19:00 (+5h) — vs Chicago 14:00 Tue 3 Nov" */
+export function previewDescription(preview: SharePreview): string {
+  const cities = preview.rows
+    .map((r) => `${r.name} ${r.time}${r.diffMinutes === 0 ? "" : ` (${r.diff})`}`)
+    .join(" · ");
+  const when = `${preview.homeLabel} ${preview.homeTime} ${preview.homeDay}`;
+  return `${cities} — vs ${when}${preview.live ? "" : " (planned time)"}`;
+}
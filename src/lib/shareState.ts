@@ -0,0 +1,210 @@
+import { DateTime, IANAZone } from "luxon";
+import { findCity, type City } from "@/data/cities";
+import { decodeLegacyLocation, isLocation, resolveLocation } from "./locations";
+import {
+  customFromShareFields,
+  customShareFields,
+  decodeLegacyCustomLocation,
+  isCustomLocation,
+} from "./customLocations";
+
+/*
+ * Share links, format v2:
+ *
+ *   ?v=2&pins=tokyo-jp,@41.9000~12.4900~Office,*k3x9q2ab~Client%20HQ~Europe/Lisbon~38.7200~-9.1400~Alice
+ *       &home=America/New_York&at=2026-11-03T15:00&hide=paris-fr,rome-it
+ *
+ * `pins` keeps pin order across kinds: a city id, "@" + a dropped pin, or "*" + a custom
+ * place. Fields within an entry are split by "~" and percent-encoded, so names may hold
+ * commas, ampersands, tildes or any script. Links without `v` are the original format
+ * (compare / loc / place params) and still decode.
+ */
+
+export const SHARE_VERSION = 2;
+
+// `at` is wall-clock time in the home zone, minute precision
+const AT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+export type ShareState = {
+  pinnedCities: City[];
+  homeTz: string;
+  at: number | null;
+  hiddenCities: string[];
+};
+
+/** A pin from a link: catalogue cities stay keys until the catalogue they live in loads */
+export type SharePin = { key: string } | { city: City };
+
+export type DecodedShare = {
+  pins: SharePin[];
+  /** Null when the link has no usable home */
+  homeTz: string | null;
+  at: number | null;
+  /** Null when the link says nothing about hidden cities */
+  hiddenCities: string[] | null;
+  /** Human-readable reasons parts of the link were ignored */
+  problems: string[];
+};
+
+// encodeURIComponent leaves "~" alone, but it separates fields here
+function encodeField(value: string): string {
+  return encodeURIComponent(value).replace(/~/g, "%7E");
+}
+
+function decodeField(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+// Zone ids keep their slashes so links stay readable
+function encodeZone(tz: string): string {
+  return encodeField(tz).replace(/%2F/g, "/");
+}
+
+function encodePin(city: City): string {
+  if (isLocation(city)) {
+    return `@${[city.lat.toFixed(4), city.lon.toFixed(4), city.name].map(encodeField).join("~")}`;
+  }
+  if (isCustomLocation(city)) return `*${customShareFields(city).map(encodeField).join("~")}`;
+  return encodeField(city.id);
+}
+
+export function encodeShareState({ pinnedCities, homeTz, at, hiddenCities }: ShareState): string {
+  const parts = [`v=${SHARE_VERSION}`];
+  if (pinnedCities.length > 0) parts.push(`pins=${pinnedCities.map(encodePin).join(",")}`);
+  parts.push(`home=${encodeZone(homeTz)}`);
+  if (at !== null) parts.push(`at=${DateTime.fromMillis(at).setZone(homeTz).toFormat(AT_FORMAT)}`);
+  if (hiddenCities.length > 0) parts.push(`hide=${hiddenCities.map(encodeField).join(",")}`);
+  return `?${parts.join("&")}`;
+}
+
+// Raw, still-encoded values by key — list params must be split before they're decoded
+function readParams(search: string): Map<string, string[]> {
+  const params = new Map<string, string[]>();
+  for (const part of search.replace(/^\?/, "").split("&")) {
+    if (!part) continue;
+    const eq = part.indexOf("=");
+    const key = eq === -1 ? part : part.slice(0, eq);
+    params.set(key, [...(params.get(key) ?? []), eq === -1 ? "" : part.slice(eq + 1)]);
+  }
+  return params;
+}
+
+function decodePin(entry: string): SharePin | string {
+  if (entry.startsWith("@") || entry.startsWith("*")) {
+    const fields = entry.slice(1).split("~").map(decodeField);
+    if (fields.some((f) => f === null)) return "A pin in the link is garbled";
+    if (entry.startsWith("*")) {
+      const city = customFromShareFields(fields as string[]);
+      return typeof city === "string" ? city : { city };
+    }
+    const [lat, lon, name] = fields as string[];
+    const city = fields.length === 3 ? resolveLocation(parseFloat(lat), parseFloat(lon), name) : null;
+    return city ? { city } : "A dropped pin in the link has invalid coordinates";
+  }
+  const key = decodeField(entry)?.trim();
+  return key ? { key } : "A pin in the link is garbled";
+}
+
+function decodeV2(params: Map<string, string[]>, problems: string[]): SharePin[] {
+  const pins: SharePin[] = [];
+  for (const entry of (params.get("pins")?.[0] ?? "").split(",").filter(Boolean)) {
+    const pin = decodePin(entry);
+    if (typeof pin === "string") problems.push(pin);
+    else pins.push(pin);
+  }
+  return pins;
+}
+
+function decodeLegacy(params: Map<string, string[]>, problems: string[]): SharePin[] {
+  const pins: SharePin[] = [];
+  // `compare=` held names in the first links and ids later; findCity accepts both
+  for (const key of (params.get("compare")?.[0] ?? "").split(",")) {
+    const decoded = decodeField(key)?.trim();
+    if (decoded) pins.push({ key: decoded });
+  }
+  const fixed = [
+    ...(params.get("loc") ?? []).map((v) => decodeLegacyLocation(decodeField(v) ?? "")),
+    ...(params.get("place") ?? []).map((v) => decodeLegacyCustomLocation(decodeField(v) ?? "")),
+  ];
+  for (const city of fixed) {
+    if (city) pins.push({ city });
+    else problems.push("A pin in the link is garbled");
+  }
+  return pins;
+}
+
+/**
+ * Reads a share link. Anything invalid is left out and described in `problems` rather
+ * than failing the whole link. `fallbackTz` interprets `at` when the link's home is unusable.
+ */
+export function decodeShareState(search: string, fallbackTz: string): DecodedShare {
+  const params = readParams(search);
+  const problems: string[] = [];
+
+  const version = params.has("v") ? Number(params.get("v")![0]) : 1;
+  if (!Number.isInteger(version) || version < 1 || version > SHARE_VERSION) {
+    return {
+      pins: [],
+      homeTz: null,
+      at: null,
+      hiddenCities: null,
+      problems: ["This link was made by a newer version of WhenWhere and can't be opened here"],
+    };
+  }
+
+  const pins = version === 1 ? decodeLegacy(params, problems) : decodeV2(params, problems);
+
+  let homeTz: string | null = null;
+  const home = params.has("home") ? decodeField(params.get("home")![0]) : null;
+  if (home !== null && IANAZone.isValidZone(home)) homeTz = home;
+  else if (home !== null) problems.push(`“${home}” isn't a known timezone, so your own home timezone is kept`);
+
+  let at: number | null = null;
+  const atParam = params.has("at") ? decodeField(params.get("at")![0]) : null;
+  if (atParam) {
+    const parsed = DateTime.fromISO(atParam, { zone: homeTz ?? fallbackTz });
+    if (parsed.isValid) at = parsed.toMillis();
+    else problems.push(`“${atParam}” isn't a valid time, so the link opens live`);
+  }
+
+  const hideParam = params.get("hide")?.[0];
+  const hiddenCities =
+    hideParam === undefined
+      ? null
+      : hideParam
+          .split(",")
+          .map(decodeField)
+          .filter((id): id is string => Boolean(id));
+
+  return { pins, homeTz, at, hiddenCities, problems };
+}
+
+/** Turns pin keys into cities from `catalogue`, listing the ones it doesn't know */
+export function resolveSharePins(pins: SharePin[], catalogue: City[]): { cities: City[]; missing: string[] } {
+  const cities: City[] = [];
+  const missing: string[] = [];
+  for (const pin of pins) {
+    if ("city" in pin) {
+      cities.push(pin.city);
+      continue;
+    }
+    const city = findCity(pin.key, catalogue);
+    if (city) cities.push(city);
+    else missing.push(pin.key);
+  }
+  return { cities, missing };
+}
+
+/** Whether a link describes exactly this state, ignoring the previewed instant */
+export function isShareOf(search: string, state: Omit<ShareState, "at">): boolean {
+  const withoutAt = search
+    .replace(/^\?/, "")
+    .split("&")
+    .filter((part) => !part.startsWith("at="))
+    .join("&");
+  return `?${withoutAt}` === encodeShareState({ ...state, at: null });
+}
@@ -0,0 +1,111 @@
+// Low-precision solar position (NOAA / Astronomical Almanac approximation),
+// good to well under a tenth of a degree — plenty for a map overlay.
+
+const RAD = Math.PI / 180;
+const DEG = 180 / Math.PI;
+
+/** Sun depression angles (degrees below the horizon) that bound each twilight band */
+export const TWILIGHT_ANGLES = {
+  civil: 6,
+  nautical: 12,
+  astronomical: 18,
+} as const;
+
+function daysSinceJ2000(ms: number): number {
+  return ms / 86400000 + 2440587.5 - 2451545.0;
+}
+
+function normalizeLon(deg: number): number {
+  return ((((deg + 180) % 360) + 360) % 360) - 180;
+}
+
+/** Declination and right ascension of the sun, in degrees */
+function sunEquatorial(n: number) {
+  const L = (280.46 + 0.9856474 * n) % 360;
+  const g = ((357.528 + 0.9856003 * n) % 360) * RAD;
+  const lambda = (L + 1.915 * Math.sin(g) + 0.02 * Math.sin(2 * g)) * RAD;
+  const epsilon = (23.439 - 0.0000004 * n) * RAD;
+  return {
+    declination: Math.asin(Math.sin(epsilon) * Math.sin(lambda)) * DEG,
+    rightAscension: Math.atan2(Math.cos(epsilon) * Math.sin(lambda), Math.cos(lambda)) * DEG,
+  };
+}
+
+/** The point on Earth where the sun is directly overhead, as [lon, lat] */
+export function subsolarPoint(ms: number): [number, number] {
+  const n = daysSinceJ2000(ms);
+  const { declination, rightAscension } = sunEquatorial(n);
+  const gmstDeg = (18.697374558 + 24.06570982441908 * n) * 15;
+  return [normalizeLon(rightAscension - gmstDeg), declination];
+}
+
+/** The point opposite the sun — centre of the night hemisphere */
+export function antisolarPoint(ms: number): [number, number] {
+  const [lon, lat] = subsolarPoint(ms);
+  return [normalizeLon(lon + 180), -lat];
+}
+
+// Apparent sunrise/sunset: sun's centre 0.833° below the horizon (refraction + disc radius)
+const HORIZON_ANGLE = -0.833;
+
+/** Altitude of the sun above the horizon at a location, in degrees */
+export function solarAltitude(lat: number, lon: number, ms: number): number {
+  const [sunLon, sunLat] = subsolarPoint(ms);
+  const phi = lat * RAD;
+  const delta = sunLat * RAD;
+  const hourAngle = (lon - sunLon) * RAD;
+  return (
+    Math.asin(
+      Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(hourAngle)
+    ) * DEG
+  );
+}
+
+export function isSunUp(lat: number, lon: number, ms: number): boolean {
+  return solarAltitude(lat, lon, ms) > HORIZON_ANGLE;
+}
+
+export type SunTimes = {
+  solarNoon: number;
+  /** null during polar day or polar night */
+  sunrise: number | null;
+  sunset: number | null;
+  dayLength: number;
+  polar: "day" | "night" | null;
+};
+
+/**
+ * Sunrise, sunset and solar noon for the solar day nearest to `near` (epoch millis).
+ * Pass local noon of the calendar date you're interested in.
+ */
+export function sunTimes(lat: number, lon: number, near: number): SunTimes {
+  // Solar noon is when the subsolar point crosses our meridian; it moves 360° west per day
+  let solarNoon = near;
+  for (let i = 0; i < 3; i++) {
+    const [sunLon] = subsolarPoint(solarNoon);
+    solarNoon += (normalizeLon(sunLon - lon) / 360) * 86400000;
+  }
+
+  const [, declination] = subsolarPoint(solarNoon);
+  const phi = lat * RAD;
+  const delta = declination * RAD;
+  const cosH0 =
+    (Math.sin(HORIZON_ANGLE * RAD) - Math.sin(phi) * Math.sin(delta)) /
+    (Math.cos(phi) * Math.cos(delta));
+
+  if (cosH0 > 1) {
+    return { solarNoon, sunrise: null, sunset: null, dayLength: 0, polar: "night" };
+  }
+  if (cosH0 < -1) {
+    return { solarNoon, sunrise: null, sunset: null, dayLength: 86400000, polar: "day" };
+  }
+
+  const halfDay = ((Math.acos(cosH0) * DEG) / 360) * 86400000;
+  return {
+    solarNoon,
+    sunrise: solarNoon - halfDay,
+    sunset: solarNoon + halfDay,
+    dayLength: 2 * halfDay,
+    polar: null,
+  };
+}
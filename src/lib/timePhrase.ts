@@ -0,0 +1,230 @@
+import { DateTime, FixedOffsetZone, IANAZone } from "luxon";
+import type { City } from "@/data/cities";
+import { searchCities } from "./search";
+import { lookupAbbreviation, parseOffsetQuery } from "./zoneQuery";
+
+/** A timezone named in a phrase, with how it should be labelled back to the user */
+export type ZoneRef = { tz: string; label: string };
+
+export type TimePhrase = {
+  instant: number;
+  source: ZoneRef;
+  /** Zones after "in" / "to", e.g. London in "3pm Tokyo in London" */
+  targets: ZoneRef[];
+  /** How ambiguous parts were read, e.g. "IST read as India Standard Time" */
+  notes: string[];
+};
+
+export type TimePhraseResult = TimePhrase | { error: string };
+
+const WEEKDAYS: Record<string, number> = {
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+  sun: 7, sunday: 7,
+};
+
+const MONTH_PATTERN =
+  "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Words that carry no meaning once times, days and zones are taken out
+const FILLER = /\b(?:at|on|the|this|time|around|about|@)\b|[,.!?]/gi;
+
+const HOME_WORDS = /^(?:home|my(?: time)?|local(?: time)?|here)$/i;
+
+type DaySpec =
+  | { kind: "offset"; days: number }
+  | { kind: "weekday"; weekday: number; skipToday: boolean }
+  | { kind: "date"; month: number; day: number; year?: number };
+
+type Clock = { hour: number; minute: number } | "now";
+
+/**
+ * Resolve free text to a timezone: "home", a UTC offset, an abbreviation (first meaning
+ * wins, with a note), an IANA ID, or a city/airport name from `cities`.
+ */
+export function resolveZoneText(
+  text: string,
+  cities: City[],
+  homeTz: string
+): (ZoneRef & { note?: string }) | null {
+  const t = text.trim();
+  if (!t) return null;
+  if (HOME_WORDS.test(t)) return { tz: homeTz, label: "Home" };
+
+  const offset = parseOffsetQuery(t.toLowerCase());
+  if (offset !== null) {
+    const zone = FixedOffsetZone.instance(offset);
+    return { tz: zone.name, label: zone.name };
+  }
+
+  const meanings = lookupAbbreviation(t);
+  if (meanings.length > 0) {
+    const [first] = meanings;
+    const abbr = t.toUpperCase();
+    return {
+      tz: first.tz,
+      label: abbr,
+      note: meanings.length > 1 ? `${abbr} read as ${first.name}` : undefined,
+    };
+  }
+
+  if (t.includes("/") && IANAZone.isValidZone(t.replace(/ /g, "_"))) {
+    const tz = t.replace(/ /g, "_");
+    return { tz, label: tz };
+  }
+
+  const [best] = searchCities(t, cities, 1);
+  if (best) return { tz: best.city.tz, label: best.city.name };
+  return null;
+}
+
+// Pull the first match of `pattern` out of `text`, returning the match and what's left
+function take(text: string, pattern: RegExp): [RegExpMatchArray | null, string] {
+  const m = text.match(pattern);
+  if (!m || m.index === undefined) return [null, text];
+  return [m, `${text.slice(0, m.index)} ${text.slice(m.index + m[0].length)}`];
+}
+
+function parseClock(text: string): [Clock | null, string] {
+  let m: RegExpMatchArray | null;
+  let rest: string;
+
+  [m, rest] = take(text, /\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?(?=\s|$|[,.!?])/i);
+  if (m) {
+    const hour = parseInt(m[1], 10);
+    const minute = m[2] ? parseInt(m[2], 10) : 0;
+    if (hour < 1 || hour > 12 || minute > 59) return [null, text];
+    const pm = m[3].toLowerCase() === "p";
+    return [{ hour: (hour % 12) + (pm ? 12 : 0), minute }, rest];
+  }
+
+  [m, rest] = take(text, /\b(\d{1,2})[:h](\d{2})\b/i);
+  if (m) {
+    const hour = parseInt(m[1], 10);
+    const minute = parseInt(m[2], 10);
+    if (hour > 23 || minute > 59) return [null, text];
+    return [{ hour, minute }, rest];
+  }
+
+  [m, rest] = take(text, /\b(noon|midday|midnight)\b/i);
+  if (m) return [{ hour: m[1].toLowerCase() === "midnight" ? 0 : 12, minute: 0 }, rest];
+
+  [m, rest] = take(text, /\bnow\b/i);
+  if (m) return ["now", rest];
+
+  return [null, text];
+}
+
+function parseDay(text: string): [DaySpec | null, string] {
+  let m: RegExpMatchArray | null;
+  let rest: string;
+
+  [m, rest] = take(text, /\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (m) {
+    return [{ kind: "date", year: parseInt(m[1], 10), month: parseInt(m[2], 10), day: parseInt(m[3], 10) }, rest];
+  }
+
+  [m, rest] = take(text, /\b(today|tonight|tomorrow|yesterday)\b/i);
+  if (m) {
+    const word = m[1].toLowerCase();
+    return [{ kind: "offset", days: word === "tomorrow" ? 1 : word === "yesterday" ? -1 : 0 }, rest];
+  }
+
+  [m, rest] = take(text, new RegExp(`\\b(?:(next)\\s+)?(${Object.keys(WEEKDAYS).join("|")})\\b`, "i"));
+  if (m) {
+    return [{ kind: "weekday", weekday: WEEKDAYS[m[2].toLowerCase()], skipToday: Boolean(m[1]) }, rest];
+  }
+
+  [m, rest] = take(text, new RegExp(`\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, "i"));
+  if (m) {
+    return [{ kind: "date", month: MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1, day: parseInt(m[2], 10) }, rest];
+  }
+
+  [m, rest] = take(text, new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_PATTERN})\\b`, "i"));
+  if (m) {
+    return [{ kind: "date", month: MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1, day: parseInt(m[1], 10) }, rest];
+  }
+
+  return [null, text];
+}
+
+// Calendar day the spec refers to, seen from `today` in the source zone. Bare weekdays
+// include today ("Tuesday" said on a Tuesday means today); "next Tuesday" never does.
+// Month-day dates without a year pick the next one that isn't already behind us.
+function resolveDay(spec: DaySpec | null, today: DateTime): DateTime | null {
+  if (!spec) return today;
+  if (spec.kind === "offset") return today.plus({ days: spec.days });
+  if (spec.kind === "weekday") {
+    let ahead = (spec.weekday - today.weekday + 7) % 7;
+    if (ahead === 0 && spec.skipToday) ahead = 7;
+    return today.plus({ days: ahead });
+  }
+  let date = today.set({ month: spec.month, day: spec.day, year: spec.year ?? today.year });
+  if (!date.isValid || date.month !== spec.month || date.day !== spec.day) return null;
+  if (spec.year === undefined && date < today.minus({ days: 1 })) date = date.plus({ years: 1 });
+  return date;
+}
+
+/**
+ * Parse a pasted phrase such as "3pm Tokyo in London", "Tuesday 9:30am PT" or
+ * "next Friday 14:00 Berlin to NYC, Sydney". The time is read in the zone named next to
+ * it (home when none is given); zones after "in" / "to" become conversion targets.
+ */
+export function parseTimePhrase(
+  phrase: string,
+  cities: City[],
+  homeTz: string,
+  now: number
+): TimePhraseResult {
+  const text = phrase.trim();
+  if (!text) return { error: "Type a time, e.g. “3pm Tokyo in London”" };
+
+  const notes: string[] = [];
+
+  // Split off "… in London, Paris" / "… to NYC and Sydney"
+  let head = text;
+  const targets: ZoneRef[] = [];
+  const split = text.match(/^(.*?)\s+(?:in|to|for)\s+(.+)$/i);
+  if (split) {
+    head = split[1];
+    for (const part of split[2].split(/\s*(?:,|&|\band\b)\s*/i).filter(Boolean)) {
+      const zone = resolveZoneText(part, cities, homeTz);
+      if (!zone) return { error: `Unknown place or timezone “${part}”` };
+      if (zone.note) notes.push(zone.note);
+      targets.push({ tz: zone.tz, label: zone.label });
+    }
+  }
+
+  // Offsets like "utc+5:30" come out first so their digits aren't read as a time
+  const [offsetMatch, withoutOffset] = take(head, /\b(?:utc|gmt)\s*[+-]\s*\d{1,2}(?::\d{2})?\b/i);
+  const [clock, withoutClock] = parseClock(withoutOffset);
+  const [daySpec, remainder] = parseDay(withoutClock);
+  if (!clock) return { error: "Couldn’t find a time — try “3pm”, “15:30” or “noon”" };
+
+  const zoneText = offsetMatch ? offsetMatch[0] : remainder.replace(FILLER, " ").replace(/\s+/g, " ").trim();
+  let source: ZoneRef = { tz: homeTz, label: "Home" };
+  if (zoneText) {
+    const zone = resolveZoneText(zoneText, cities, homeTz);
+    if (!zone) return { error: `Unknown place or timezone “${zoneText}”` };
+    if (zone.note) notes.push(zone.note);
+    source = { tz: zone.tz, label: zone.label };
+  } else if (targets.length === 1) {
+    // "3pm in London" means 3pm London time, not home time shown in London
+    source = targets.pop()!;
+  }
+
+  if (clock === "now") return { instant: now, source, targets, notes };
+
+  const today = DateTime.fromMillis(now).setZone(source.tz).startOf("day");
+  const day = resolveDay(daySpec, today);
+  if (!day) return { error: "That date doesn’t exist" };
+  const local = day.set({ hour: clock.hour, minute: clock.minute });
+  if (!local.isValid) return { error: "That time doesn’t exist in this timezone" };
+
+  return { instant: local.toMillis(), source, targets, notes };
+}
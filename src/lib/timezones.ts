@@ -0,0 +1,27 @@
+// Every IANA zone the browser knows, with a short fallback list for older engines
+export function getAllTimezones(): string[] {
+  try {
+    // Available in Chrome 99+, FF 94+, Safari 15.4+
+    return (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.("timeZone") ?? fallbackTzList;
+  } catch {
+    return fallbackTzList;
+  }
+}
+
+const fallbackTzList = [
+  "Africa/Cairo", "Africa/Johannesburg", "Africa/Lagos", "Africa/Nairobi",
+  "America/Anchorage", "America/Argentina/Buenos_Aires", "America/Bogota",
+  "America/Chicago", "America/Denver", "America/Lima", "America/Los_Angeles",
+  "America/Mexico_City", "America/New_York", "America/Santiago", "America/Sao_Paulo",
+  "America/Toronto", "America/Vancouver",
+  "Asia/Bangkok", "Asia/Dubai", "Asia/Hong_Kong", "Asia/Jakarta", "Asia/Jerusalem",
+  "Asia/Karachi", "Asia/Kolkata", "Asia/Manila", "Asia/Riyadh", "Asia/Seoul",
+  "Asia/Shanghai", "Asia/Singapore", "Asia/Tokyo",
+  "Atlantic/Reykjavik",
+  "Australia/Melbourne", "Australia/Sydney",
+  "Europe/Amsterdam", "Europe/Athens", "Europe/Berlin", "Europe/Copenhagen",
+  "Europe/Dublin", "Europe/Helsinki", "Europe/Istanbul", "Europe/London",
+  "Europe/Madrid", "Europe/Moscow", "Europe/Oslo", "Europe/Paris",
+  "Europe/Rome", "Europe/Sarajevo", "Europe/Stockholm",
+  "Pacific/Auckland", "Pacific/Honolulu", "UTC",
+];
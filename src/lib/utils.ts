@@ -21,3 +21,11 @@ export function formatDiff(minutes: number): string {
   if (m === 0) return `${sign}${h}h`;
   return `${sign}${h}h ${m}m`;
 }
+
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  if (m === 0) return `${h}h`;
+  return `${h}h ${m}m`;
+}
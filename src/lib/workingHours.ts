@@ -0,0 +1,160 @@
+import { DateTime } from "luxon";
+import { CITIES, type City } from "@/data/cities";
+
+export type HourKind = "work" | "evening" | "sleep";
+
+/** Working day in local hours, end exclusive. Weekend days use Luxon weekday numbers (1 = Mon … 7 = Sun). */
+export type WorkProfile = {
+  start: number;
+  end: number;
+  weekend: number[];
+};
+
+export type WorkHours = Pick<WorkProfile, "start" | "end">;
+
+export const WORK_START_HOUR = 9;
+export const WORK_END_HOUR = 17;
+
+export const DEFAULT_WORK_HOURS: WorkHours = { start: WORK_START_HOUR, end: WORK_END_HOUR };
+
+// Waking hours outside work — the shoulders either side of the working day
+const AWAKE_START_HOUR = 7;
+const AWAKE_END_HOUR = 22;
+
+const SAT_SUN = [6, 7];
+const FRI_SAT = [5, 6];
+
+// Countries whose weekend isn't Saturday–Sunday, keyed by City.countryCode
+const WEEKEND_BY_COUNTRY: Record<string, number[]> = {
+  AF: FRI_SAT, // Afghanistan
+  DZ: FRI_SAT, // Algeria
+  BH: FRI_SAT, // Bahrain
+  BD: FRI_SAT, // Bangladesh
+  BN: [5, 7], // Brunei
+  EG: FRI_SAT, // Egypt
+  IR: [5], // Iran
+  IQ: FRI_SAT, // Iraq
+  IL: FRI_SAT, // Israel
+  JO: FRI_SAT, // Jordan
+  KW: FRI_SAT, // Kuwait
+  LY: FRI_SAT, // Libya
+  NP: [6], // Nepal
+  OM: FRI_SAT, // Oman
+  QA: FRI_SAT, // Qatar
+  SA: FRI_SAT, // Saudi Arabia
+  SD: FRI_SAT, // Sudan
+  SY: FRI_SAT, // Syria
+};
+
+export function weekendForCountry(countryCode: string | null): number[] {
+  return (countryCode && WEEKEND_BY_COUNTRY[countryCode]) || SAT_SUN;
+}
+
+// Best-effort ISO country code for a bare IANA zone (e.g. the home timezone)
+export function countryForZone(tz: string): string | null {
+  return CITIES.find((c) => c.tz === tz)?.countryCode ?? null;
+}
+
+export function profileForCity(city: City, hours: WorkHours = DEFAULT_WORK_HOURS): WorkProfile {
+  // Dropped pins carry no country code, so fall back to whatever city shares their zone
+  return { ...hours, weekend: weekendForCountry(city.countryCode || countryForZone(city.tz)) };
+}
+
+export function profileForZone(tz: string, hours: WorkHours = DEFAULT_WORK_HOURS): WorkProfile {
+  return { ...hours, weekend: weekendForCountry(countryForZone(tz)) };
+}
+
+export function isWorkingTime(local: DateTime, profile: WorkProfile): boolean {
+  if (profile.weekend.includes(local.weekday)) return false;
+  const h = local.hour + local.minute / 60;
+  return h >= profile.start && h < profile.end;
+}
+
+export function classifyHour(hour: number, hours: WorkHours = DEFAULT_WORK_HOURS): HourKind {
+  if (hour >= hours.start && hour < hours.end) return "work";
+  if (hour >= AWAKE_START_HOUR && hour < AWAKE_END_HOUR) return "evening";
+  return "sleep";
+}
+
+// Like classifyHour, but weekend working hours count as free time rather than work
+export function classifyTime(local: DateTime, profile: WorkProfile): HourKind {
+  const kind = classifyHour(local.hour, profile);
+  if (kind === "work" && profile.weekend.includes(local.weekday)) return "evening";
+  return kind;
+}
+
+export type Participant = {
+  key: string;
+  label: string;
+  tz: string;
+  profile: WorkProfile;
+  /** ISO country code whose public holidays apply, when known */
+  country?: string | null;
+};
+
+export type MeetingSlot = {
+  start: number;
+  end: number;
+  available: string[];
+  missing: string[];
+  score: number;
+};
+
+type FindOptions = {
+  days?: number;
+  stepMinutes?: number;
+  durationMinutes?: number;
+  limit?: number;
+};
+
+/**
+ * Scan forward from `from` and rank windows by how many participants are inside
+ * their working hours for the whole meeting. Adjacent steps with the same set of
+ * available participants are merged into one window.
+ */
+export function findMeetingSlots(
+  participants: Participant[],
+  from: number,
+  { days = 7, stepMinutes = 30, durationMinutes = 60, limit = 5 }: FindOptions = {}
+): MeetingSlot[] {
+  if (participants.length === 0) return [];
+
+  const step = stepMinutes * 60000;
+  const duration = durationMinutes * 60000;
+  const first = Math.ceil(from / step) * step;
+  const last = from + days * 86400000;
+
+  const isAvailable = (p: Participant, start: number) => {
+    for (let t = start; t < start + duration; t += step) {
+      if (!isWorkingTime(DateTime.fromMillis(t).setZone(p.tz), p.profile)) return false;
+    }
+    return true;
+  };
+
+  const windows: MeetingSlot[] = [];
+  let current: MeetingSlot | null = null;
+
+  for (let t = first; t < last; t += step) {
+    const available = participants.filter((p) => isAvailable(p, t)).map((p) => p.key);
+    const signature = available.join("|");
+    if (current && current.end === t + duration - step && current.available.join("|") === signature) {
+      current.end = t + duration;
+      continue;
+    }
+    if (current) windows.push(current);
+    current = available.length
+      ? {
+          start: t,
+          end: t + duration,
+          available,
+          missing: participants.filter((p) => !available.includes(p.key)).map((p) => p.key),
+          score: available.length / participants.length,
+        }
+      : null;
+  }
+  if (current) windows.push(current);
+
+  return windows
+    .sort((a, b) => b.score - a.score || b.end - b.start - (a.end - a.start) || a.start - b.start)
+    .slice(0, limit);
+}
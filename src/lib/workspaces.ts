@@ -0,0 +1,90 @@
+import { IANAZone } from "luxon";
+import type { City } from "@/data/cities";
+import { isStoredCity } from "./savedState";
+
+export type Theme = "dark" | "light";
+
+/** A named set-up such as "Sales EMEA", stored in localStorage */
+export type Workspace = {
+  id: string;
+  name: string;
+  pinnedCities: City[];
+  homeTz: string;
+  hiddenCities: string[];
+  theme: Theme;
+};
+
+export type WorkspaceStore = { activeId: string | null; workspaces: Workspace[] };
+
+export const WORKSPACES_STORAGE_KEY = "tz-workspaces";
+
+const EXPORT_VERSION = 1;
+
+export function createWorkspaceId(): string {
+  return `ws-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Copy names get a counter so "Sales EMEA" duplicates as "Sales EMEA copy", then "… copy 2"
+export function uniqueWorkspaceName(name: string, workspaces: Workspace[]): string {
+  const taken = new Set(workspaces.map((w) => w.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  for (let n = 2; ; n++) {
+    const candidate = `${name} ${n}`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+// Keep whatever parts of a workspace are usable; null if it isn't recognisably one
+function parseWorkspace(value: unknown): Workspace | null {
+  const w = value as Partial<Workspace> | null;
+  if (typeof w?.id !== "string" || typeof w.name !== "string" || !w.name.trim()) return null;
+  if (typeof w.homeTz !== "string" || !IANAZone.isValidZone(w.homeTz)) return null;
+  return {
+    id: w.id,
+    name: w.name.trim(),
+    pinnedCities: Array.isArray(w.pinnedCities) ? w.pinnedCities.filter(isStoredCity) : [],
+    homeTz: w.homeTz,
+    hiddenCities: Array.isArray(w.hiddenCities) ? w.hiddenCities.filter((id) => typeof id === "string") : [],
+    theme: w.theme === "light" ? "light" : "dark",
+  };
+}
+
+export function parseWorkspaceStore(raw: unknown): WorkspaceStore {
+  const store = raw as Partial<WorkspaceStore> | null;
+  const workspaces = Array.isArray(store?.workspaces)
+    ? store.workspaces.map(parseWorkspace).filter((w): w is Workspace => w !== null)
+    : [];
+  const activeId = workspaces.some((w) => w.id === store?.activeId) ? store!.activeId! : null;
+  return { activeId, workspaces };
+}
+
+export function exportWorkspaces(workspaces: Workspace[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, workspaces }, null, 2);
+}
+
+/**
+ * Reads an exported file. Imported workspaces get fresh ids, and names that clash
+ * with existing ones get a counter, so importing never overwrites anything.
+ */
+export function importWorkspaces(
+  text: string,
+  existing: Workspace[]
+): { workspaces: Workspace[]; skipped: number } | { error: string } {
+  let data: { version?: unknown; workspaces?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: "That file isn't valid JSON" };
+  }
+  if (data?.version !== EXPORT_VERSION || !Array.isArray(data.workspaces)) {
+    return { error: "That file isn't a WhenWhere workspace export" };
+  }
+
+  const imported: Workspace[] = [];
+  for (const value of data.workspaces) {
+    const w = parseWorkspace(value);
+    if (!w) continue;
+    imported.push({ ...w, id: createWorkspaceId(), name: uniqueWorkspaceName(w.name, [...existing, ...imported]) });
+  }
+  return { workspaces: imported, skipped: data.workspaces.length - imported.length };
+}
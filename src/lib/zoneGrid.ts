@@ -0,0 +1,58 @@
+/** A horizontal run of grid cells resolving to the same IANA zone */
+export type ZoneRun = {
+  tz: string;
+  south: number;
+  north: number;
+  west: number;
+  east: number;
+};
+
+/**
+ * Timezone regions sampled on a regular lat/lon grid, produced by
+ * scripts/generate-zone-grid.mjs. Each run is [zone index, south, west, east]; north is
+ * south + step.
+ */
+type ZoneGridData = { step: number; zones: string[]; runs: [number, number, number, number][] };
+
+function isZoneGridData(value: unknown): value is ZoneGridData {
+  const data = value as ZoneGridData | null;
+  return (
+    typeof data?.step === "number" &&
+    Array.isArray(data.zones) &&
+    data.zones.every((tz) => typeof tz === "string") &&
+    Array.isArray(data.runs) &&
+    data.runs.every(
+      (run) =>
+        Array.isArray(run) &&
+        run.length === 4 &&
+        run.every((n) => typeof n === "number") &&
+        typeof data.zones[run[0]] === "string"
+    )
+  );
+}
+
+function expandRuns({ step, zones, runs }: ZoneGridData): ZoneRun[] {
+  return runs.map(([zone, south, west, east]) => ({ tz: zones[zone], south, north: south + step, west, east }));
+}
+
+let loading: Promise<ZoneRun[]> | null = null;
+
+/**
+ * Approximate timezone regions for the map's zone layer. Sampling tz-lookup tens of
+ * thousands of times would stall the page, so the grid is generated ahead of time and
+ * fetched in its own chunk on first call; later calls share the same promise.
+ */
+export function loadZoneGrid(): Promise<ZoneRun[]> {
+  loading ??= import("@/data/zone-grid.json")
+    .then((mod) => {
+      const data: unknown = mod.default;
+      if (!isZoneGridData(data)) throw new Error("zone-grid.json is malformed");
+      return expandRuns(data);
+    })
+    .catch((err) => {
+      // Let the next call retry instead of caching the failure
+      loading = null;
+      throw err;
+    });
+  return loading;
+}
@@ -0,0 +1,170 @@
+import { DateTime, IANAZone } from "luxon";
+import type { City } from "@/data/cities";
+import { ZONE_ABBREVIATIONS, type ZoneAbbreviation } from "@/data/zoneAbbreviations";
+import { formatDiff, formatOffset } from "./utils";
+import { offsetTransitions } from "./dst";
+import { searchCities } from "./search";
+
+/** A labelled set of cities matching one reading of a timezone query */
+export type ZoneQueryGroup = { label: string; cities: City[] };
+
+// Parse queries like "utc+1", "gmt +1", "gmt+5:30", "utc-5", "utc 0", "gmt0"
+export function parseOffsetQuery(q: string): number | null {
+  const m = q.match(/^(?:utc|gmt)\s*([+-])?\s*(\d{1,2})(?::(\d{2}))?$/);
+  if (!m) {
+    // Also match bare "utc" or "gmt" as UTC+0
+    if (/^(?:utc|gmt)$/.test(q)) return 0;
+    return null;
+  }
+  const sign = m[1] === "-" ? -1 : 1;
+  const hours = parseInt(m[2], 10);
+  const mins = m[3] ? parseInt(m[3], 10) : 0;
+  return sign * (hours * 60 + mins);
+}
+
+// Parse home-relative queries: "same as home", "home", "+3h from home", "-5:30 vs home",
+// "2 hours ahead of home", "home+3". Returns the difference from home in minutes.
+export function parseRelativeQuery(q: string): number | null {
+  if (/^(?:same(?: time)?(?: as)? )?home$/.test(q)) return 0;
+
+  const signed =
+    q.match(/^([+-])\s*(\d{1,2})(?::(\d{2}))?\s*(?:h|hrs?|hours?)?\s*(?:from|vs\.?|than) home$/) ??
+    q.match(/^home\s*([+-])\s*(\d{1,2})(?::(\d{2}))?\s*(?:h|hrs?|hours?)?$/);
+  if (signed) {
+    const sign = signed[1] === "-" ? -1 : 1;
+    return sign * (parseInt(signed[2], 10) * 60 + (signed[3] ? parseInt(signed[3], 10) : 0));
+  }
+
+  const worded = q.match(/^(\d{1,2})(?::(\d{2}))?\s*(?:h|hrs?|hours?) (ahead of|behind) home$/);
+  if (worded) {
+    const sign = worded[3] === "behind" ? -1 : 1;
+    return sign * (parseInt(worded[1], 10) * 60 + (worded[2] ? parseInt(worded[2], 10) : 0));
+  }
+  return null;
+}
+
+/** Every zone a timezone abbreviation (case-insensitive) commonly refers to */
+export function lookupAbbreviation(abbr: string): ZoneAbbreviation[] {
+  return ZONE_ABBREVIATIONS[abbr.toUpperCase()] ?? [];
+}
+
+// Name matches weaker than a word prefix are noise next to an abbreviation ("mst" in Amsterdam)
+const PREFIX_SCORE = 70;
+
+const clockCache = new Map<string, string>();
+
+// Offsets sampled twice a month over a year, plus the exact moment of each change between
+// samples — zones with the same fingerprint show the same clock all year, DST dates
+// included, which is what "cities on PST" or "same as Cordoba" means. Without the change
+// times Athens would pass for Israel, whose clocks go forward two days earlier.
+function clockFingerprint(tz: string, year: number): string {
+  const key = `${tz}|${year}`;
+  const cached = clockCache.get(key);
+  if (cached) return cached;
+  const parts: number[] = [];
+  let prev: { at: number; offset: number } | null = null;
+  for (let month = 1; month <= 12; month++) {
+    for (const day of [1, 15]) {
+      const at = Date.UTC(year, month - 1, day);
+      const offset = currentOffset(tz, at);
+      if (prev && offset !== prev.offset) parts.push(...offsetTransitions(tz, prev.at, at).map((t) => t.at));
+      parts.push(offset);
+      prev = { at, offset };
+    }
+  }
+  const fingerprint = parts.join(",");
+  clockCache.set(key, fingerprint);
+  return fingerprint;
+}
+
+function byPopulation(a: City, b: City): number {
+  return (b.population ?? 0) - (a.population ?? 0);
+}
+
+// Cities keeping the same clock as `tz` all year, those actually in `tz` first
+function sameClockCities(cities: City[], tz: string, now: number): City[] {
+  const year = DateTime.fromMillis(now).year;
+  const target = clockFingerprint(tz, year);
+  return cities
+    .filter((c) => clockFingerprint(c.tz, year) === target)
+    .sort((a, b) => Number(b.tz === tz) - Number(a.tz === tz) || byPopulation(a, b));
+}
+
+// Thousands of cities share a few hundred zones, so each zone's offset is computed once
+function citiesAtOffset(cities: City[], offset: number, now: number): City[] {
+  const offsets = new Map<string, number>();
+  return cities
+    .filter((c) => {
+      let zoneOffset = offsets.get(c.tz);
+      if (zoneOffset === undefined) {
+        zoneOffset = currentOffset(c.tz, now);
+        offsets.set(c.tz, zoneOffset);
+      }
+      return zoneOffset === offset;
+    })
+    .sort(byPopulation);
+}
+
+function currentOffset(tz: string, now: number): number {
+  return DateTime.fromMillis(now).setZone(tz).offset;
+}
+
+/**
+ * Interpret a search query as a timezone rather than a city name: a UTC/GMT offset, an
+ * abbreviation (every meaning listed separately), an IANA ID, or an offset relative to
+ * `homeTz`. Returns null when the query isn't one of these, so name search can take over.
+ */
+export function matchZoneQuery(
+  query: string,
+  cities: City[],
+  homeTz: string,
+  now: number
+): ZoneQueryGroup[] | null {
+  const raw = query.trim();
+  const q = raw.toLowerCase().replace(/\s+/g, " ");
+  if (!q) return null;
+
+  const offset = parseOffsetQuery(q);
+  if (offset !== null) {
+    return [{ label: formatOffset(offset), cities: citiesAtOffset(cities, offset, now) }];
+  }
+
+  const delta = parseRelativeQuery(q);
+  if (delta !== null) {
+    const target = currentOffset(homeTz, now) + delta;
+    const label = delta === 0 ? "Same time as home" : `${formatDiff(delta)} from home`;
+    return [{ label: `${label} · ${formatOffset(target)}`, cities: citiesAtOffset(cities, target, now) }];
+  }
+
+  const meanings = lookupAbbreviation(raw);
+  if (meanings.length > 0) {
+    const groups = meanings.map((m) => ({
+      label: `${m.name} · ${formatOffset(currentOffset(m.tz, now))}`,
+      cities: sameClockCities(cities, m.tz, now),
+    }));
+    // Short abbreviations are also the start of city names ("ist" → Istanbul) and airport codes
+    const named = searchCities(raw, cities, 3)
+      .filter((r) => r.score >= PREFIX_SCORE)
+      .map((r) => r.city);
+    if (named.length > 0) groups.push({ label: "Cities", cities: named });
+    return groups;
+  }
+
+  if (q.includes("/")) {
+    const needle = q.replace(/ /g, "_");
+    const partial = cities.filter((c) => c.tz.toLowerCase().includes(needle)).sort(byPopulation);
+    if (partial.length > 0) {
+      const byZone = new Map<string, City[]>();
+      for (const city of partial) byZone.set(city.tz, [...(byZone.get(city.tz) ?? []), city]);
+      return Array.from(byZone, ([tz, members]) => ({ label: tz, cities: members }));
+    }
+    // A real zone with no city of its own — offer the cities that share its clock
+    const zone = raw.replace(/ /g, "_");
+    if (IANAZone.isValidZone(zone)) {
+      return [{ label: `Same clock as ${zone}`, cities: sameClockCities(cities, zone, now) }];
+    }
+    return [];
+  }
+
+  return null;
+}